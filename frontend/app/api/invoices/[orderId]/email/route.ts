@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchInvoice, InvoiceRequestError, renderInvoicePdf, sendInvoiceEmail } from '@/lib/invoices';
+
+// Emails the order's invoice PDF to the customer
+export async function POST(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  const { orderId } = await params;
+  try {
+    const invoice = await fetchInvoice(orderId, request.headers);
+    const { email } = await sendInvoiceEmail(orderId, invoice, renderInvoicePdf(invoice), request.headers);
+    return NextResponse.json({ sent: true, number: invoice.number, email });
+  } catch (error) {
+    const status = error instanceof InvoiceRequestError ? error.status : 500;
+    console.error('Invoice email failed:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invoice email failed' }, { status });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchInvoice, getInvoiceFilename, InvoiceRequestError, renderInvoicePdf } from '@/lib/invoices';
+
+// Renders the order's invoice as a PDF download
+export async function GET(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  const { orderId } = await params;
+  try {
+    const invoice = await fetchInvoice(orderId, request.headers);
+    const pdf = renderInvoicePdf(invoice);
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getInvoiceFilename(invoice)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    const status = error instanceof InvoiceRequestError ? error.status : 500;
+    console.error('Invoice generation failed:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invoice generation failed' }, { status });
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handlePaymentWebhook } from '@/lib/paymentWebhooks';
+import { hasPermission } from '@/lib/permissions';
+import { API_URL, ApiEnvelope } from '@/services/api';
+import type { User } from '@/services/auth';
+import type { PaymentWebhookEvent, PaymentWebhookType } from '@/services/paymentGateway';
+import type { PaymentIntent } from '@/services/payments';
+import { getTokenOutcome, SandboxAction, signSandboxWebhook } from '@/services/sandboxGateway';
+
+const DECLINE_REASONS = {
+  declined: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+} as const;
+
+const isSandboxEnabled = () =>
+  process.env.NODE_ENV !== 'production' || process.env.PAYMENT_SANDBOX_ENABLED === 'true';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+class SandboxRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SandboxRequestError';
+    this.status = status;
+  }
+}
+
+// Headers from the browser request that the backend needs to authorise the caller
+const FORWARDED_HEADERS = ['Authorization', 'X-Impersonation-Id'];
+
+// Reads the payment as the caller, so nobody can act on a payment they cannot see and the
+// status and amounts always come from the backend's record
+const loadPayment = async (paymentId: unknown, incoming: Headers): Promise<PaymentIntent> => {
+  const headers: Record<string, string> = {};
+  FORWARDED_HEADERS.forEach(name => {
+    const value = incoming.get(name);
+    if (value) headers[name] = value;
+  });
+  if (!headers.Authorization) throw new SandboxRequestError('Please sign in to make this payment', 401);
+  if (typeof paymentId !== 'string' || !paymentId) throw new SandboxRequestError('A payment id is required', 400);
+
+  const response = await fetch(`${API_URL}/payments/${encodeURIComponent(paymentId)}`, { headers, cache: 'no-store' });
+  const data = (await response.json().catch(() => null)) as ApiEnvelope<PaymentIntent> | null;
+  if (!response.ok || !data?.success) {
+    throw new SandboxRequestError(data?.message || 'Payment not found', response.ok ? 502 : response.status);
+  }
+  if (data.data.provider !== 'sandbox') throw new SandboxRequestError('This payment is not handled by the sandbox', 400);
+  return data.data;
+};
+
+// Refunds send money back out, so the signed-in staff member (not anyone they are
+// impersonating) must hold orders.refund according to the backend's own profile record
+const assertCanRefund = async (incoming: Headers): Promise<void> => {
+  const authorization = incoming.get('Authorization');
+  if (!authorization) throw new SandboxRequestError('Please sign in to refund this payment', 401);
+
+  const response = await fetch(`${API_URL}/auth/profile`, { headers: { Authorization: authorization }, cache: 'no-store' });
+  const profile = (await response.json().catch(() => null)) as User | null;
+  if (!response.ok || !profile) throw new SandboxRequestError('Could not verify your permissions', response.ok ? 502 : response.status);
+  if (!hasPermission(profile, 'orders.refund')) {
+    throw new SandboxRequestError('You do not have permission to refund payments', 403);
+  }
+};
+
+// Works out what a real gateway would answer, without keeping any state of its own
+const runAction = (request: SandboxAction, payment: PaymentIntent): { payment: PaymentIntent; type: PaymentWebhookType; amount: number } => {
+
+  if (request.action === 'authorize') {
+    if (payment.status !== 'pending' && payment.status !== 'failed') {
+      throw new Error(`A ${payment.status} payment cannot be authorised again`);
+    }
+    const outcome = getTokenOutcome(request.token);
+    if (!outcome) throw new Error('Unknown card token');
+    const providerReference = `sbx_ch_${crypto.randomUUID()}`;
+    if (outcome !== 'approved') {
+      return {
+        payment: { ...payment, status: 'failed', providerReference, failureReason: DECLINE_REASONS[outcome] },
+        type: 'payment.failed',
+        amount: payment.amount,
+      };
+    }
+    return {
+      payment: { ...payment, status: 'authorized', providerReference, failureReason: undefined },
+      type: 'payment.authorized',
+      amount: payment.amount,
+    };
+  }
+
+  if (request.action === 'capture') {
+    if (payment.status !== 'authorized') throw new Error('Only authorised payments can be captured');
+    return {
+      payment: { ...payment, status: 'captured', capturedAmount: payment.amount },
+      type: 'payment.captured',
+      amount: payment.amount,
+    };
+  }
+
+  const refundable = round(payment.capturedAmount - payment.refundedAmount);
+  const amount = round(request.amount);
+  if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+    throw new Error('Only captured payments can be refunded');
+  }
+  if (amount <= 0 || amount > refundable) throw new Error(`At most ${refundable.toFixed(2)} can be refunded`);
+  const refundedAmount = round(payment.refundedAmount + amount);
+  return {
+    payment: { ...payment, status: refundedAmount >= payment.capturedAmount ? 'refunded' : 'partially_refunded', refundedAmount },
+    type: 'payment.refunded',
+    amount,
+  };
+};
+
+// Simulated card gateway behind the sandbox provider. Each operation is reported to the
+// backend through the same signed webhook path a real provider would use.
+export async function POST(request: NextRequest) {
+  if (!isSandboxEnabled()) {
+    return NextResponse.json({ error: 'The payment sandbox is disabled' }, { status: 404 });
+  }
+
+  let result: ReturnType<typeof runAction>;
+  try {
+    const action = await request.json() as SandboxAction;
+    if (action.action === 'refund') await assertCanRefund(request.headers);
+    const payment = await loadPayment(action.paymentId, request.headers);
+    result = runAction(action, payment);
+  } catch (error) {
+    const status = error instanceof SandboxRequestError ? error.status : 400;
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid request' }, { status });
+  }
+
+  const event: PaymentWebhookEvent = {
+    id: `sbx_evt_${crypto.randomUUID()}`,
+    type: result.type,
+    provider: 'sandbox',
+    paymentId: result.payment._id,
+    providerReference: result.payment.providerReference ?? '',
+    amount: result.amount,
+    failureReason: result.payment.failureReason,
+    occurredAt: new Date().toISOString(),
+  };
+
+  try {
+    const rawBody = JSON.stringify(event);
+    await handlePaymentWebhook('sandbox', rawBody, await signSandboxWebhook(rawBody));
+  } catch (error) {
+    console.error('Sandbox webhook delivery failed:', error);
+    return NextResponse.json({ error: 'The payment could not be recorded. Please try again.' }, { status: 502 });
+  }
+
+  return NextResponse.json(result.payment);
+}
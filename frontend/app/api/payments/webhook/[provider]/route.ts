@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handlePaymentWebhook, WebhookRejectedError } from '@/lib/paymentWebhooks';
+import { getPaymentProvider, isPaymentProviderName } from '@/services/paymentGateway';
+
+// Endpoint registered with each payment provider, e.g. /api/payments/webhook/sandbox
+export async function POST(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  // Signatures cover the exact bytes sent, so the body is read as text
+  const rawBody = await request.text();
+  const signature = isPaymentProviderName(provider)
+    ? request.headers.get(getPaymentProvider(provider).signatureHeader)
+    : null;
+
+  try {
+    const event = await handlePaymentWebhook(provider, rawBody, signature);
+    return NextResponse.json({ received: true, id: event.id });
+  } catch (error) {
+    const status = error instanceof WebhookRejectedError ? error.status : 500;
+    console.error('Payment webhook rejected:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Webhook failed' }, { status });
+  }
+}
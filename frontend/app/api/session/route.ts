@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_URL } from '@/services/api';
+import { decodeJwtPayload, SESSION_COOKIE, SESSION_MAX_AGE, signSession } from '@/lib/session';
+import { getEffectivePermissions } from '@/lib/permissions';
+import { getUserRoles, User } from '@/services/auth';
+
+// Exchanges a backend token for an httpOnly session cookie. The role comes from
+// the backend profile, never from the client, so it can be trusted by middleware.
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'No token provided' },
+        { status: 400 }
+      );
+    }
+
+    const profileResponse = await fetch(`${API_URL}/auth/profile`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    });
+
+    if (!profileResponse.ok) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const user: User = await profileResponse.json();
+    if (!user?._id || !user?.role || user.status === 'inactive') {
+      return NextResponse.json(
+        { error: 'Account is not allowed to sign in' },
+        { status: 403 }
+      );
+    }
+
+    // Never outlive the backend token
+    const now = Math.floor(Date.now() / 1000);
+    const tokenExp = decodeJwtPayload<{ exp?: number }>(token)?.exp;
+    const exp = Math.min(tokenExp || now + SESSION_MAX_AGE, now + SESSION_MAX_AGE);
+
+    const roles = getUserRoles(user);
+    const permissions = getEffectivePermissions(user);
+
+    const session = await signSession({ sub: user._id, role: user.role, roles, permissions, exp });
+
+    const response = NextResponse.json({ success: true, role: user.role, roles });
+    response.cookies.set(SESSION_COOKIE, session, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: exp - now,
+    });
+    return response;
+
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return NextResponse.json(
+      { error: 'Failed to create session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+  return response;
+}
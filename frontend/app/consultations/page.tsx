@@ -1,6 +1,5 @@
 /* eslint-disable react/no-unescaped-entities */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 import Image from "next/image";
 import Link from "next/link";
@@ -8,12 +7,13 @@ import Navbar from "@/components/layout/Navbar";
 import Footer from "@/components/layout/Footer";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
-import axios from "axios";
+import { assetUrl } from "@/services/api";
+import userService, { Doctor } from "@/services/user";
 
 export default function ServicesPage() {
   const router = useRouter();
   const [user, setUser] = useState(null);
-  const [doctors, setDoctors] = useState<any[]>([]);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [loading, setLoading] = useState(true);
 
   const getDayWithSuffix = (day: number) => {
@@ -43,8 +43,7 @@ export default function ServicesPage() {
     setUser(loggedInUser ? JSON.parse(loggedInUser) : null);
     async function fetchDoctors() {
       try {
-        const res = await axios.get("http://localhost:8000/api/doctor/list");
-        setDoctors(res.data);
+        setDoctors(await userService.getDoctors());
       } catch (err) {
         setDoctors([]);
       } finally {
@@ -102,7 +101,7 @@ export default function ServicesPage() {
                 className="flex bg-blue-50 rounded-xl p-6 shadow hover:shadow-lg transition"
               >
                 <Image
-                  src={doctor.profilePhoto ? `http://localhost:8000/${doctor.profilePhoto.replace(/^uploads\//, 'uploads/')}` : "/images/doc1.webp"}
+                  src={assetUrl(doctor.profilePhoto, "/images/doc1.webp")}
                   alt={doctor.firstName + ' ' + doctor.lastName}
                   width={120}
                   height={120}
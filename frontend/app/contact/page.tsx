@@ -4,6 +4,8 @@ import React, { useState } from 'react';
 import Head from 'next/head';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
+import { ApiError } from '@/services/api';
+import messageService from '@/services/messages';
 
 export default function ContactPage() {
   const [form, setForm] = useState({
@@ -26,20 +28,11 @@ export default function ContactPage() {
     setSuccess('');
     setError('');
     try {
-      const res = await fetch('http://localhost:8000/api/contact', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(form),
-      });
-      if (res.ok) {
-        setSuccess('Your message has been sent! Thank you.');
-        setForm({ name: '', email: '', phone: '', message: '' });
-      } else {
-        const data = await res.json();
-        setError(data.message || 'Failed to send message.');
-      }
-    } catch {
-      setError('Failed to send message.');
+      await messageService.sendContactMessage(form);
+      setSuccess('Your message has been sent! Thank you.');
+      setForm({ name: '', email: '', phone: '', message: '' });
+    } catch (err) {
+      setError(err instanceof ApiError && err.status ? err.message : 'Failed to send message.');
     }
     setLoading(false);
   };
@@ -5,9 +5,14 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
-import axios from 'axios';
 import Sidebar from '@/components/layout/Sidebar';
 import Image from 'next/image';
+import { productImageUrl } from '@/services/api';
+import inventoryService, { ControlledDrug, ControlledSchedule, InventoryItem } from '@/services/inventory';
+import { hasPermission } from '@/lib/permissions';
+import { useCan } from '@/lib/useCan';
+import { useSidebarRole } from '@/lib/useSidebarRole';
+import { CONTROLLED_SCHEDULES, DEFAULT_CONTROLLED_LIMITS } from '@/lib/controlledDrugs';
 
 interface User {
   id: string;
@@ -17,24 +22,11 @@ interface User {
   role: string;
 }
 
-interface InventoryItem {
-  _id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  status: "active" | "inactive";
-  prescription: "required" | "not_required";
-  images?: string[];
-  image?: string; // Legacy field
-  brand?: string;
-  packSize?: string;
-}
-
 export default function InventoryPage() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
+  const sidebarRole = useSidebarRole('admin');
+  const can = useCan();
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -49,6 +41,7 @@ export default function InventoryPage() {
     packSize: '',
     status: 'active' as 'active' | 'inactive',
     prescription: 'not_required' as 'required' | 'not_required',
+    controlled: undefined as ControlledDrug | undefined,
     images: [] as string[]
   });
   const [imagePreview, setImagePreview] = useState<string[]>([]);
@@ -57,7 +50,7 @@ export default function InventoryPage() {
   const [itemToDelete, setItemToDelete] = useState<InventoryItem | null>(null);
 
   useEffect(() => {
-    // Check if user is logged in and is admin
+    // Check if user is logged in and may edit inventory
     const storedUser = sessionStorage.getItem('user');
     if (!storedUser) {
       router.push('/login');
@@ -65,7 +58,7 @@ export default function InventoryPage() {
     }
 
     const userData = JSON.parse(storedUser);
-    if (userData.role !== 'admin') {
+    if (!hasPermission(userData, 'inventory.edit')) {
       toast.error('Unauthorized access');
       router.push('/login');
       return;
@@ -77,11 +70,7 @@ export default function InventoryPage() {
   }, [router]);
 
   const getImageUrl = (imagePath: string | undefined | null): string => {
-    if (!imagePath) {
-      return '/placeholder.png';
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    return `http://localhost:8000/uploads/products/${filename}`;
+    return productImageUrl(imagePath);
   };
 
   const fetchInventory = async () => {
@@ -93,22 +82,13 @@ export default function InventoryPage() {
         return;
       }
 
-      const response = await axios.get('http://localhost:8000/api/admin/inventory', {
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      setInventory(response.data);
+      const data = await inventoryService.getAdminInventory();
+      setInventory(data);
     } catch (error: any) {
       console.error('Fetch error:', error);
-      console.error('Error response:', error.response);
       
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-        router.push('/login');
-        return;
-      }
+      // Expired sessions are handled by the API client
+      if (error.status === 401) return;
       
       toast.error('Failed to fetch inventory');
     }
@@ -156,6 +136,12 @@ export default function InventoryPage() {
       return;
     }
 
+    const { controlled } = formData;
+    if (controlled && [controlled.maxQuantity, controlled.maxDailyUnits, controlled.maxDaysSupply].some(limit => !Number.isInteger(limit) || limit < 1)) {
+      toast.error('Controlled drug limits must be whole numbers of at least 1');
+      return;
+    }
+
     try {
       const token = sessionStorage.getItem('token');
       if (!token) {
@@ -174,6 +160,8 @@ export default function InventoryPage() {
       postData.append('packSize', formData.packSize);
       postData.append('status', formData.status);
       postData.append('prescription', formData.prescription);
+      // Sent empty to clear the classification
+      postData.append('controlled', controlled ? JSON.stringify(controlled) : '');
       
       if (imageFiles.length > 0) {
         imageFiles.forEach((file) => {
@@ -184,23 +172,11 @@ export default function InventoryPage() {
         postData.append('images', JSON.stringify(formData.images));
       }
 
-      const headers = { 
-        Authorization: `Bearer ${token}`,
-      };
-
       if (isEditMode && selectedItem) {
-        await axios.put(
-          `http://localhost:8000/api/admin/inventory/${selectedItem._id}`,
-          postData,
-          { headers }
-        );
+        await inventoryService.updateItem(selectedItem._id, postData);
         toast.success('Item updated successfully');
       } else {
-        await axios.post(
-          'http://localhost:8000/api/admin/inventory',
-          postData,
-          { headers }
-        );
+        await inventoryService.createItem(postData);
         toast.success('Item added successfully');
       }
       setIsModalOpen(false);
@@ -208,15 +184,13 @@ export default function InventoryPage() {
       resetForm();
     } catch (error: any) {
       console.error('Submit error:', error);
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-        router.push('/login');
-      } else if (error.response?.status === 400) {
-        const errorMessage = error.response?.data?.message || 'Invalid data provided';
-        toast.error(errorMessage);
+      if (error.status === 401) {
+        // Expired sessions are handled by the API client
+        return;
+      } else if (error.status === 400) {
+        toast.error(error.message || 'Invalid data provided');
       } else {
-        const errorMessage = error.response?.data?.message || 'Operation failed';
-        toast.error(errorMessage);
+        toast.error(error.message || 'Operation failed');
       }
     }
   };
@@ -232,6 +206,7 @@ export default function InventoryPage() {
       stock: item.stock.toString(),
       status: item.status,
       prescription: item.prescription,
+      controlled: item.controlled,
       images: existingImages,
       brand: item.brand || '',
       packSize: item.packSize || '',
@@ -261,32 +236,19 @@ export default function InventoryPage() {
         return;
       }
 
-      const response = await axios.delete(
-        `http://localhost:8000/api/admin/inventory/${itemToDelete._id}`,
-        { 
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          } 
-        }
-      );
+      const result = await inventoryService.deleteItem(itemToDelete._id);
       
-      if (response.data) {
+      if (result) {
         toast.success('Item deleted successfully');
         fetchInventory();
       }
     } catch (error: any) {
       console.error('Delete error:', error);
-      console.error('Error response:', error.response);
       
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-        router.push('/login');
-        return;
-      }
+      // Expired sessions are handled by the API client
+      if (error.status === 401) return;
       
-      const errorMessage = error.response?.data?.message || 'Failed to delete item';
-      toast.error(errorMessage);
+      toast.error(error.message || 'Failed to delete item');
     } finally {
       setDeleteModalOpen(false);
       setItemToDelete(null);
@@ -307,6 +269,7 @@ export default function InventoryPage() {
       stock: '',
       status: 'active',
       prescription: 'not_required',
+      controlled: undefined,
       images: [],
       brand: '',
       packSize: '',
@@ -328,7 +291,7 @@ export default function InventoryPage() {
 
   return (
     <div className="min-h-screen bg-gray-100">
-      <Sidebar role="admin" />
+      <Sidebar role={sidebarRole} />
       
       {/* Main Content */}
       <div className="ml-64 p-8">
@@ -340,18 +303,20 @@ export default function InventoryPage() {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex justify-between items-center mb-5">
             <h2 className="text-xl font-bold">Inventory Items</h2>
-            <button
-              onClick={() => {
-                resetForm();
-                setIsModalOpen(true);
-              }}
-              className="flex items-center gap-2 bg-blue-600 text-white px-5 py-3 rounded-lg font-semibold shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
-              </svg>
-              Add New Item
-            </button>
+            {can('inventory.edit') && (
+              <button
+                onClick={() => {
+                  resetForm();
+                  setIsModalOpen(true);
+                }}
+                className="flex items-center gap-2 bg-blue-600 text-white px-5 py-3 rounded-lg font-semibold shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                </svg>
+                Add New Item
+              </button>
+            )}
           </div>
 
           {/* Inventory List */}
@@ -424,20 +389,29 @@ export default function InventoryPage() {
                       }`}>
                         {item.prescription === 'required' ? 'Prescription Required' : 'No Prescription'}
                       </span>
+                      {item.controlled && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                          {CONTROLLED_SCHEDULES[item.controlled.schedule].label}
+                        </span>
+                      )}
                     </td>
                     <td className="px-3 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                      <button
-                        onClick={() => handleEdit(item)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDelete(item._id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        Delete
-                      </button>
+                      {can('inventory.edit') && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(item)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(item._id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -593,6 +567,55 @@ export default function InventoryPage() {
                       <option value="required">Prescription Required</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-base font-medium text-gray-700 mb-1">Controlled Drug</label>
+                    <select
+                      value={formData.controlled?.schedule ?? ''}
+                      onChange={(e) => {
+                        const schedule = e.target.value as ControlledSchedule | '';
+                        setFormData({
+                          ...formData,
+                          controlled: schedule ? { ...DEFAULT_CONTROLLED_LIMITS, ...formData.controlled, schedule } : undefined,
+                          // Only Schedule 5 preparations can be sold without a prescription
+                          prescription: schedule && CONTROLLED_SCHEDULES[schedule].prescriptionRequired ? 'required' : formData.prescription,
+                        });
+                      }}
+                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base px-3 py-2"
+                    >
+                      <option value="">Not Controlled</option>
+                      {(Object.keys(CONTROLLED_SCHEDULES) as ControlledSchedule[]).map(schedule => (
+                        <option key={schedule} value={schedule}>{CONTROLLED_SCHEDULES[schedule].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {formData.controlled && (
+                    <div className="md:col-span-3 grid grid-cols-3 gap-4 rounded-lg bg-purple-50 p-3">
+                      <p className="col-span-3 text-sm text-purple-800">
+                        {CONTROLLED_SCHEDULES[formData.controlled.schedule].description}. Limits apply to each order and sale, and stock changes are recorded in the controlled drug register.
+                      </p>
+                      {([
+                        ['maxQuantity', 'Max units per order'],
+                        ['maxDailyUnits', 'Max units per day'],
+                        ['maxDaysSupply', "Max days' supply"],
+                      ] as const).map(([field, label]) => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={formData.controlled?.[field] ?? ''}
+                            onChange={(e) => formData.controlled && setFormData({
+                              ...formData,
+                              controlled: { ...formData.controlled, [field]: Number(e.target.value) },
+                            })}
+                            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base px-3 py-2"
+                            required
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="md:col-span-3">
                     <label className="block text-base font-medium text-gray-700 mb-1">Description</label>
                     <textarea
@@ -1,8 +1,10 @@
 'use client';
 
 import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { Toaster } from 'react-hot-toast';
+import { getUserRoles } from '@/services/auth';
+import { canAccessRoute, getEffectivePermissions } from '@/lib/permissions';
 
 export default function AdminLayout({
   children,
@@ -10,9 +12,10 @@ export default function AdminLayout({
   children: React.ReactNode;
 }) {
   const router = useRouter();
+  const pathname = usePathname();
 
   useEffect(() => {
-    // Check if user is logged in and is admin
+    // Check if user is logged in and may open this admin page
     const user = sessionStorage.getItem('user');
     if (!user) {
       router.push('/login');
@@ -21,14 +24,14 @@ export default function AdminLayout({
 
     try {
       const userData = JSON.parse(user);
-      if (userData.role !== 'admin') {
+      if (!canAccessRoute(pathname, getUserRoles(userData), getEffectivePermissions(userData))) {
         router.push('/login');
       }
     } catch (error) {
       console.error('Error parsing user data:', error);
       router.push('/login');
     }
-  }, [router]);
+  }, [pathname, router]);
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -5,16 +5,7 @@ import React, { useEffect, useState } from "react";
 import Sidebar from "@/components/layout/Sidebar";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import { FiSearch, FiMail, FiUser, FiPhone, FiClock, FiMessageSquare, FiEye, FiEyeOff, FiTrash2 } from 'react-icons/fi';
-
-type ContactMessage = {
-  _id: string;
-  name: string;
-  email: string;
-  phone?: string;
-  message: string;
-  createdAt: string;
-  isRead?: boolean;
-};
+import messageService, { ContactMessage } from "@/services/messages";
 
 export default function AdminMessagesPage() {
   const [messages, setMessages] = useState<ContactMessage[]>([]);
@@ -34,14 +25,7 @@ export default function AdminMessagesPage() {
           setLoading(false);
           return;
         }
-        const res = await fetch("http://localhost:8000/api/admin/messages", {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        if (!res.ok) throw new Error("Failed to fetch messages");
-        const data = await res.json();
+        const data = await messageService.getMessages();
         setMessages(data);
       } catch (err: any) {
         console.error("Fetch error:", err);
@@ -70,19 +54,10 @@ export default function AdminMessagesPage() {
 
   const markMessageAsRead = async (messageId: string) => {
     try {
-      const token = sessionStorage.getItem('token');
-      const res = await fetch(`http://localhost:8000/api/contact/admin/notifications/${messageId}/read`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (res.ok) {
-        setMessages(prev => prev.map(msg => 
-          msg._id === messageId ? { ...msg, isRead: true } : msg
-        ));
-      }
+      await messageService.markAsRead(messageId);
+      setMessages(prev => prev.map(msg => 
+        msg._id === messageId ? { ...msg, isRead: true } : msg
+      ));
     } catch (err) {
       console.error("Error marking message as read:", err);
     }
@@ -100,17 +75,8 @@ export default function AdminMessagesPage() {
   const handleDeleteMessage = async (messageId: string) => {
     if (window.confirm('Are you sure you want to delete this message?')) {
       try {
-        const token = sessionStorage.getItem('token');
-        const res = await fetch(`http://localhost:8000/api/admin/messages/${messageId}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        if (res.ok) {
-          setMessages(prev => prev.filter(msg => msg._id !== messageId));
-        }
+        await messageService.deleteMessage(messageId);
+        setMessages(prev => prev.filter(msg => msg._id !== messageId));
       } catch (err) {
         console.error("Delete error:", err);
       }
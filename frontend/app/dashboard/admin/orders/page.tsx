@@ -3,9 +3,18 @@ import { useState, useEffect } from 'react';
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { FiSearch, FiX, FiChevronLeft, FiChevronRight, FiPackage, FiUser, FiPhone, FiMail, FiMapPin } from 'react-icons/fi';
-import { getAllOrders, updateOrderStatus, OrderItem } from '@/services/orders';
-import authService from '@/services/auth';
+import { getAllOrders, updateOrderStatus, testOrderAuth, OrderItem, OrderStatus, OrderStatusEvent, PaymentState } from '@/services/orders';
+import type { Tender } from '@/services/payments';
+import authService, { getUserRoles } from '@/services/auth';
 import Image from 'next/image';
+import { assetUrl } from '@/services/api';
+import { formatPaymentMethod } from '@/lib/tenders';
+import InvoiceActions from '@/components/InvoiceActions';
+import OrderTimeline from '@/components/OrderTimeline';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { canAccessRoute, getEffectivePermissions } from '@/lib/permissions';
+import { useOrderTransitions } from '@/lib/useOrderTransitions';
+import { useSidebarRole } from '@/lib/useSidebarRole';
 
 interface AdminOrder {
   id: string;
@@ -19,36 +28,34 @@ interface AdminOrder {
   subtotal: number;
   shipping: number;
   tax: number;
-  status: 'pending' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  statusHistory?: OrderStatusEvent[];
   items: OrderItem[];
   itemsCount: number;
   paymentMethod: string;
+  paymentStatus?: PaymentState;
+  tenders?: Tender[];
   orderType: string;
   description: string;
   trackingNumber?: string;
   estimatedDelivery?: string;
 }
 
-const statusColors: Record<AdminOrder['status'], string> = {
+const statusColors: Record<OrderStatus, string> = {
   pending: "bg-yellow-100 text-yellow-800",
+  processing: "bg-blue-100 text-blue-800",
   shipped: "bg-purple-100 text-purple-800",
   delivered: "bg-green-100 text-green-800",
   cancelled: "bg-red-100 text-red-800"
 };
 
-const statusLabels: Record<AdminOrder['status'], string> = {
-  pending: "Pending",
-  shipped: "Shipped",
-  delivered: "Delivered",
-  cancelled: "Cancelled"
-};
-
 export default function OrdersPage() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<AdminOrder['status'] | 'all'>("all");
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>("all");
   const [selectedOrder, setSelectedOrder] = useState<AdminOrder | null>(null);
   const [showStatusModal, setShowStatusModal] = useState(false);
-  const [newStatus, setNewStatus] = useState<AdminOrder['status']>('pending');
+  const [newStatus, setNewStatus] = useState<OrderStatus>('pending');
+  const [statusNote, setStatusNote] = useState('');
   const [orders, setOrders] = useState<AdminOrder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -60,28 +67,8 @@ export default function OrdersPage() {
     hasPrevPage: false
   });
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-
-  const testAuth = async () => {
-    try {
-      const token = authService.getToken();
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'}/orders/test-auth`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      
-      console.log('Auth test response status:', response.status);
-      const result = await response.json();
-      console.log('Auth test result:', result);
-      
-      return response.ok;
-    } catch (error) {
-      console.error('Auth test failed:', error);
-      return false;
-    }
-  };
+  const allowedTransitions = useOrderTransitions();
+  const sidebarRole = useSidebarRole('admin');
 
   const fetchOrders = async () => {
     try {
@@ -101,14 +88,14 @@ export default function OrdersPage() {
         return;
       }
       
-      if (currentUser.role !== 'admin') {
-        setError('Access denied. Admin privileges required.');
+      if (!canAccessRoute('/dashboard/admin/orders', getUserRoles(currentUser), getEffectivePermissions(currentUser))) {
+        setError('Access denied. Order management rights required.');
         setLoading(false);
         return;
       }
       
       // Test authentication first
-      const authOk = await testAuth();
+      const authOk = await testOrderAuth();
       if (!authOk) {
         setError('Authentication failed. Please log in again.');
         setLoading(false);
@@ -141,16 +128,18 @@ export default function OrdersPage() {
       if (!selectedOrder.id) {
         throw new Error('Order ID is required');
       }
-      await updateOrderStatus(selectedOrder.id, newStatus);
+      const updated = await updateOrderStatus(selectedOrder.id, newStatus, statusNote.trim() || undefined);
+      const changes = { status: updated.status, statusHistory: updated.statusHistory };
       setOrders(prev => prev.map(order => 
-        order.id === selectedOrder.id ? { ...order, status: newStatus } : order
+        order.id === selectedOrder.id ? { ...order, ...changes } : order
       ));
-      setSelectedOrder({ ...selectedOrder, status: newStatus });
+      setSelectedOrder({ ...selectedOrder, ...changes });
       setShowStatusModal(false);
       setSuccessMessage('Order status updated successfully!');
       setTimeout(() => setSuccessMessage(null), 2000);
     } catch (err) {
       console.error('Failed to update order status:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update order status');
     }
   };
 
@@ -173,10 +162,10 @@ export default function OrdersPage() {
 
   if (loading && orders.length === 0) {
     return (
-      <ProtectedRoute role="admin">
+      <ProtectedRoute>
         <div className="flex h-screen bg-gray-50">
           <div className="fixed inset-y-0 left-0 w-64">
-            <Sidebar role="admin" />
+            <Sidebar role={sidebarRole} />
           </div>
           <main className="flex-1 ml-64 p-8 overflow-auto">
             <div className="flex items-center justify-center h-full">
@@ -192,10 +181,10 @@ export default function OrdersPage() {
   }
 
   return (
-    <ProtectedRoute role="admin">
+    <ProtectedRoute>
       <div className="flex h-screen bg-gray-50">
         <div className="fixed inset-y-0 left-0 w-64">
-          <Sidebar role="admin" />
+          <Sidebar role={sidebarRole} />
         </div>
         <main className="flex-1 ml-64 p-8 overflow-auto">
           <div className="max-w-7xl mx-auto">
@@ -218,14 +207,12 @@ export default function OrdersPage() {
                 <select
                   className="w-full sm:w-48 border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value as AdminOrder['status'] | 'all')}
+                  onChange={(e) => setStatusFilter(e.target.value as OrderStatus | 'all')}
                 >
                   <option value="all">All Status</option>
-                  <option value="pending">Pending</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="delivered">Delivered</option>
-                  <option value="completed">Completed</option>
-                  <option value="cancelled">Cancelled</option>
+                  {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => (
+                    <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -274,7 +261,7 @@ export default function OrdersPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Rs.{order.total.toFixed(2)}</td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[order.status]}`}>
-                            {statusLabels[order.status]}
+                            {ORDER_STATUS_LABELS[order.status]}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.itemsCount}</td>
@@ -384,12 +371,24 @@ export default function OrdersPage() {
                             </div>
                             <div className="flex justify-between">
                               <span className="text-gray-600">Payment Method:</span>
-                              <span className="font-medium">{selectedOrder.paymentMethod}</span>
+                              <span className="font-medium">{formatPaymentMethod(selectedOrder.paymentMethod)}</span>
                             </div>
+                            {selectedOrder.tenders && selectedOrder.tenders.length > 1 && selectedOrder.tenders.map((tender, index) => (
+                              <div key={index} className="flex justify-between pl-4 text-sm">
+                                <span className="text-gray-500">{formatPaymentMethod(tender.method)}{tender.reference ? ` (${tender.reference})` : ''}</span>
+                                <span className="text-gray-700">Rs.{tender.amount.toFixed(2)}</span>
+                              </div>
+                            ))}
+                            {selectedOrder.paymentStatus && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-600">Payment:</span>
+                                <span className="font-medium">{selectedOrder.paymentStatus === 'paid' ? 'Paid' : 'Unpaid'}</span>
+                              </div>
+                            )}
                             <div className="flex justify-between">
                               <span className="text-gray-600">Status:</span>
                               <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[selectedOrder.status]}`}>
-                                {statusLabels[selectedOrder.status]}
+                                {ORDER_STATUS_LABELS[selectedOrder.status]}
                               </span>
                             </div>
                             {selectedOrder.trackingNumber && (
@@ -401,6 +400,12 @@ export default function OrdersPage() {
                           </div>
                         </div>
 
+                        {/* Status Timeline */}
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <h3 className="text-lg font-semibold text-gray-900 mb-4">Status Timeline</h3>
+                          <OrderTimeline status={selectedOrder.status} history={selectedOrder.statusHistory} placedAt={selectedOrder.date} />
+                        </div>
+
                         {/* Customer Information */}
                         <div className="bg-gray-50 rounded-lg p-4">
                           <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -442,7 +447,7 @@ export default function OrdersPage() {
                                         ? item.image.replace(/\\/g, '/')
                                         : item.image.startsWith('/')
                                           ? item.image.replace(/\\/g, '/')
-                                          : `http://localhost:8000/${item.image.replace(/\\/g, '/')}`
+                                          : assetUrl(item.image)
                                       : '/images/doc1.webp'
                                   }
                                   alt={item.name}
@@ -488,6 +493,10 @@ export default function OrdersPage() {
                       </div>
                     </div>
 
+                    <div className="mt-6">
+                      <InvoiceActions orderId={selectedOrder.id} />
+                    </div>
+
                     <div className="flex justify-end gap-4 mt-6 pt-6 border-t">
                       <button
                         onClick={() => setSelectedOrder(null)}
@@ -495,15 +504,18 @@ export default function OrdersPage() {
                       >
                         Close
                       </button>
-                      <button
-                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                        onClick={() => {
-                          setNewStatus(selectedOrder.status);
-                          setShowStatusModal(true);
-                        }}
-                      >
-                        Update Status
-                      </button>
+                      {allowedTransitions(selectedOrder.status).length > 0 && (
+                        <button
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                          onClick={() => {
+                            setNewStatus(allowedTransitions(selectedOrder.status)[0]);
+                            setStatusNote('');
+                            setShowStatusModal(true);
+                          }}
+                        >
+                          Update Status
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -524,19 +536,30 @@ export default function OrdersPage() {
                     </button>
                   </div>
                   <div className="mb-4">
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Select new status:</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Move from {ORDER_STATUS_LABELS[selectedOrder.status]} to:
+                    </label>
+                    {/* Only the moves the state machine allows this user to make */}
                     <select
                       className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       value={newStatus}
-                      onChange={e => setNewStatus(e.target.value as AdminOrder['status'])}
+                      onChange={e => setNewStatus(e.target.value as OrderStatus)}
                     >
-                      <option value="pending">Pending</option>
-                      <option value="shipped">Shipped</option>
-                      <option value="delivered">Delivered</option>
-                      <option value="completed">Completed</option>
-                      <option value="cancelled">Cancelled</option>
+                      {allowedTransitions(selectedOrder.status).map(status => (
+                        <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                      ))}
                     </select>
                   </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Note (optional):</label>
+                    <textarea
+                      className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      rows={2}
+                      value={statusNote}
+                      onChange={e => setStatusNote(e.target.value)}
+                      placeholder="Shown on the order's timeline"
+                    />
+                  </div>
                   <div className="flex justify-end gap-4">
                     <button
                       onClick={() => setShowStatusModal(false)}
@@ -6,11 +6,15 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
-import axios from 'axios';
 import Sidebar from '@/components/layout/Sidebar';
 import { useCart } from '@/context/CartContext';
 import Image from 'next/image';
 import LogoutConfirmModal from '@/components/LogoutConfirmModal';
+import { assetUrl } from '@/services/api';
+import authService, { getUserRoles } from '@/services/auth';
+import userService, { StaffMember } from '@/services/user';
+import impersonationService, { IMPERSONATION_DURATIONS } from '@/services/impersonation';
+import ImpersonationAuditLog from '@/components/admin/ImpersonationAuditLog';
 
 interface User {
   id: string;
@@ -20,19 +24,6 @@ interface User {
   role: string;
 }
 
-interface StaffMember {
-  _id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  role: 'pharmacist' | 'doctor' | 'delivery';
-  phone: string;
-  address: string;
-  status: 'active' | 'inactive';
-  speciality?: string;
-  profilePhoto?: string;
-}
-
 interface FormErrors {
   firstName?: string;
   lastName?: string;
@@ -77,6 +68,10 @@ export default function AdminDashboard() {
   const { logout } = useCart();
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [impersonationTarget, setImpersonationTarget] = useState<StaffMember | null>(null);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [impersonationDuration, setImpersonationDuration] = useState(IMPERSONATION_DURATIONS[0]);
+  const [startingImpersonation, setStartingImpersonation] = useState(false);
 
   useEffect(() => {
     // Check if user is logged in and is admin
@@ -87,7 +82,7 @@ export default function AdminDashboard() {
     }
 
     const userData = JSON.parse(storedUser);
-    if (userData.role !== 'admin') {
+    if (!getUserRoles(userData).includes('admin')) {
       toast.error('Unauthorized access');
       router.push('/login');
       return;
@@ -95,15 +90,16 @@ export default function AdminDashboard() {
 
     setUser(userData);
     fetchStaffMembers();
+
+    if (new URLSearchParams(window.location.search).get('impersonation') === 'expired') {
+      toast.error('Impersonation time is up. You are back in your admin account.');
+    }
   }, [router]);
 
   const fetchStaffMembers = async () => {
     try {
-      const token = sessionStorage.getItem('token');
-      const response = await axios.get('http://localhost:8000/api/admin/staff', {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      setStaffMembers(response.data);
+      const staff = await userService.getStaffMembers();
+      setStaffMembers(staff);
     } catch (error) {
       toast.error('Failed to fetch staff members');
     }
@@ -184,9 +180,7 @@ export default function AdminDashboard() {
     }
 
     try {
-      const token = sessionStorage.getItem('token');
       let submitData: any = formData;
-      let headers: any = { Authorization: `Bearer ${token}` };
       let isMultipart = !!formData.profilePhoto || (formData.role === 'doctor' && formData.speciality);
       if (isMultipart) {
         submitData = new FormData();
@@ -197,13 +191,12 @@ export default function AdminDashboard() {
             submitData.append(key, value as string);
           }
         });
-        headers['Content-Type'] = 'multipart/form-data';
       }
       if (isEditMode && selectedStaff) {
-        await axios.put(`http://localhost:8000/api/admin/staff/${selectedStaff._id}`, submitData, { headers });
+        await userService.updateStaffMember(selectedStaff._id, submitData);
         toast.success('Staff member updated successfully');
       } else {
-        await axios.post('http://localhost:8000/api/admin/staff', submitData, { headers });
+        await userService.createStaffMember(submitData);
         toast.success('Staff member created successfully');
       }
       setIsModalOpen(false);
@@ -212,8 +205,7 @@ export default function AdminDashboard() {
       fetchStaffMembers();
       resetForm();
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || 'An error occurred';
-      toast.error(errorMessage);
+      toast.error(error.message || 'An error occurred');
     }
   };
 
@@ -231,7 +223,7 @@ export default function AdminDashboard() {
       speciality: staff.speciality || ''
     });
     if (staff.profilePhoto) {
-      setPhotoPreview(`http://localhost:8000/${staff.profilePhoto.replace(/^uploads\//, 'uploads/')}`);
+      setPhotoPreview(assetUrl(staff.profilePhoto));
     } else {
       setPhotoPreview(null);
     }
@@ -242,10 +234,7 @@ export default function AdminDashboard() {
   const handleDelete = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this staff member?')) {
       try {
-        const token = sessionStorage.getItem('token');
-        await axios.delete(`http://localhost:8000/api/admin/staff/${id}`, {
-          headers: { Authorization: `Bearer ${token}` }
-        });
+        await userService.deleteStaffMember(id);
         toast.success('Staff member deleted successfully');
         fetchStaffMembers();
       } catch (error) {
@@ -289,20 +278,32 @@ export default function AdminDashboard() {
 
   const cancelLogout = () => setShowLogoutModal(false);
 
-  const handleStaffLogin = async (staff: StaffMember) => {
+  const openImpersonation = (staff: StaffMember) => {
+    setImpersonationTarget(staff);
+    setImpersonationReason('');
+    setImpersonationDuration(IMPERSONATION_DURATIONS[0]);
+  };
+
+  const handleStartImpersonation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!impersonationTarget) return;
+    if (!impersonationReason.trim()) {
+      toast.error('Please give a reason for acting as this user');
+      return;
+    }
+
     try {
-      const token = sessionStorage.getItem('token');
-      const response = await axios.post('http://localhost:8000/api/auth/staff-login', {
-        email: staff.email,
-        role: staff.role
-      }, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      sessionStorage.setItem('staffToken', response.data.token);
-      sessionStorage.setItem('staffUser', JSON.stringify(response.data.user));
-      router.push(`/dashboard/${staff.role}`);
-    } catch (error) {
-      toast.error('Failed to login as staff member');
+      setStartingImpersonation(true);
+      const staff = await impersonationService.start(
+        impersonationTarget._id,
+        impersonationReason.trim(),
+        impersonationDuration
+      );
+      // Full reload so nothing fetched as the admin carries over
+      window.location.assign(`/dashboard/${staff.role}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start impersonation');
+      setStartingImpersonation(false);
     }
   };
 
@@ -384,6 +385,14 @@ export default function AdminDashboard() {
                       >
                         Delete
                       </button>
+                      {member.status === 'active' && (
+                        <button
+                          onClick={() => openImpersonation(member)}
+                          className="text-amber-600 hover:text-amber-800"
+                        >
+                          Act as
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -391,8 +400,63 @@ export default function AdminDashboard() {
             </table>
           </div>
         </div>
+
+        <ImpersonationAuditLog />
       </div>
 
+      {/* Impersonation Modal */}
+      {impersonationTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <form onSubmit={handleStartImpersonation} className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+            <h2 className="text-lg font-bold text-gray-900">
+              Act as {impersonationTarget.firstName} {impersonationTarget.lastName}
+            </h2>
+            <p className="text-sm text-gray-600">
+              You will see the app as this {impersonationTarget.role}. The session ends automatically and every action is recorded in the audit log.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <textarea
+                value={impersonationReason}
+                onChange={(e) => setImpersonationReason(e.target.value)}
+                rows={3}
+                required
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. Investigating a missing prescription order"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+              <select
+                value={impersonationDuration}
+                onChange={(e) => setImpersonationDuration(Number(e.target.value))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2"
+              >
+                {IMPERSONATION_DURATIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setImpersonationTarget(null)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={startingImpersonation}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50"
+              >
+                {startingImpersonation ? 'Starting...' : 'Start'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {/* Add/Edit Staff Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center" style={{ background: 'linear-gradient(120deg, rgba(37,99,235,0.7) 0%, rgba(255,255,255,0.7) 100%)' }}>
@@ -445,7 +509,7 @@ export default function AdminDashboard() {
                       if (file) {
                         setPhotoPreview(URL.createObjectURL(file));
                       } else if (selectedStaff && selectedStaff.profilePhoto) {
-                        setPhotoPreview(`http://localhost:8000/${selectedStaff.profilePhoto.replace(/^uploads\//, 'uploads/')}`);
+                        setPhotoPreview(assetUrl(selectedStaff.profilePhoto));
                       } else {
                         setPhotoPreview(null);
                       }
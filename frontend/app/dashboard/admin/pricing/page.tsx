@@ -0,0 +1,28 @@
+"use client";
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import PricingRulesForm from '@/components/admin/PricingRulesForm';
+import { useCan } from '@/lib/useCan';
+import { useSidebarRole } from '@/lib/useSidebarRole';
+
+export default function PricingPage() {
+  const can = useCan();
+  const sidebarRole = useSidebarRole('admin');
+
+  return (
+    <ProtectedRoute>
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role={sidebarRole} />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Tax &amp; Shipping</h1>
+            <p className="text-gray-600 mb-8">
+              Changes apply to new POS sales and online orders. Orders already placed keep the amounts they were charged.
+            </p>
+            <PricingRulesForm readOnly={!can('pricing.manage')} />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import ReturnReviewPanel from '@/components/admin/ReturnReviewPanel';
+import { RETURN_STATUS_LABELS } from '@/lib/returns';
+import { useCan } from '@/lib/useCan';
+import { useSidebarRole } from '@/lib/useSidebarRole';
+import returnsService, { ReturnRequest, ReturnStatus } from '@/services/returns';
+
+const STATUS_FILTERS: (ReturnStatus | 'all')[] = ['requested', 'approved', 'refunded', 'rejected', 'all'];
+
+export default function ReturnsPage() {
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | 'all'>('requested');
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [selected, setSelected] = useState<ReturnRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const can = useCan();
+  const sidebarRole = useSidebarRole('admin');
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    returnsService.getReturns(statusFilter === 'all' ? undefined : statusFilter)
+      .then(setRequests)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to fetch return requests'))
+      .finally(() => setLoading(false));
+  }, [statusFilter]);
+
+  const handleUpdated = (request: ReturnRequest) => {
+    setRequests(prev => prev.map(item => (item._id === request._id ? request : item)));
+    setSelected(request);
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role={sidebarRole} />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Returns &amp; Cancellations</h1>
+            <p className="text-gray-600 mb-8">
+              Review customer requests. Approving refunds the approved items through the order&apos;s original payments.
+            </p>
+
+            <div className="flex gap-2 mb-6">
+              {STATUS_FILTERS.map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                    statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                  }`}
+                >
+                  {status === 'all' ? 'All' : RETURN_STATUS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                {loading ? (
+                  <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : error ? (
+                  <p className="p-6 text-red-600">{error}</p>
+                ) : requests.length === 0 ? (
+                  <p className="p-6 text-gray-500 text-center">No requests to show.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Requested</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {requests.map(request => (
+                        <tr
+                          key={request._id}
+                          onClick={() => setSelected(request)}
+                          className={`cursor-pointer hover:bg-gray-50 ${selected?._id === request._id ? 'bg-blue-50' : ''}`}
+                        >
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{request.orderNumber}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {request.kind === 'cancellation' ? 'Cancellation' : 'Return'}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">{request.customer?.name ?? '—'}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">{RETURN_STATUS_LABELS[request.status]}</td>
+                          <td className="px-6 py-4 text-sm text-gray-500">{new Date(request.createdAt).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+                {selected ? (
+                  <ReturnReviewPanel
+                    key={selected._id}
+                    request={selected}
+                    canRefund={can('orders.refund')}
+                    onUpdated={handleUpdated}
+                  />
+                ) : (
+                  <p className="text-gray-500 text-center py-12">Select a request to review it</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
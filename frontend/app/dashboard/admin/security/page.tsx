@@ -0,0 +1,6 @@
+"use client";
+import AccountSecurity from '@/components/auth/AccountSecurity';
+
+export default function AdminSecurityPage() {
+  return <AccountSecurity role="admin" />;
+}
@@ -5,7 +5,10 @@ import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import TwoFactorPolicyCard from '@/components/admin/TwoFactorPolicyCard';
 import userService, { User } from '@/services/user';
+import { PERMISSIONS, Permission, ROLE_PERMISSIONS } from '@/lib/permissions';
+import { useCan } from '@/lib/useCan';
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
@@ -14,7 +17,11 @@ export default function UsersPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [permissionsUser, setPermissionsUser] = useState<User | null>(null);
+  const [selectedPermissions, setSelectedPermissions] = useState<Permission[]>([]);
+  const [savingPermissions, setSavingPermissions] = useState(false);
   const router = useRouter();
+  const can = useCan();
 
   useEffect(() => {
     fetchUsers();
@@ -77,6 +84,55 @@ export default function UsersPage() {
     }
   };
 
+  const handleUnlock = async (user: User) => {
+    try {
+      setError(null);
+      await userService.unlockUser(user._id);
+      toast.success(`${user.firstName} ${user.lastName} can sign in again`);
+      fetchUsers(); // Refresh the list
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      const message = error instanceof Error ? error.message : 'Failed to unlock user';
+      setError(message);
+      toast.error(message);
+    }
+  };
+
+  // When the user's sign-in lockout ends, or null if they are not locked out
+  const getLockedUntil = (user: User): Date | null => {
+    if (!user.lockedUntil) return null;
+    const lockedUntil = new Date(user.lockedUntil);
+    return lockedUntil.getTime() > Date.now() ? lockedUntil : null;
+  };
+
+  const openPermissions = (user: User) => {
+    setPermissionsUser(user);
+    setSelectedPermissions(user.permissions || []);
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setSelectedPermissions(prev =>
+      prev.includes(permission) ? prev.filter(p => p !== permission) : [...prev, permission]
+    );
+  };
+
+  const handleSavePermissions = async () => {
+    if (!permissionsUser) return;
+
+    try {
+      setSavingPermissions(true);
+      await userService.updateUserPermissions(permissionsUser._id, selectedPermissions);
+      toast.success('Permissions updated. They apply from the user\'s next sign-in.');
+      setPermissionsUser(null);
+      fetchUsers(); // Refresh the list
+    } catch (error) {
+      console.error('Error updating permissions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update permissions');
+    } finally {
+      setSavingPermissions(false);
+    }
+  };
+
   const handleEdit = (userId: string) => {
     if (!userId) {
       toast.error('Invalid user ID');
@@ -147,6 +203,8 @@ export default function UsersPage() {
               </div>
             )}
 
+            {can('security.manage') && <TwoFactorPolicyCard />}
+
             {/* Filters */}
             <div className="bg-white rounded-lg shadow p-6 mb-6">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -227,6 +285,14 @@ export default function UsersPage() {
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeColor(user.status)}`}>
                             {formatStatus(user.status)}
                         </span>
+                        {getLockedUntil(user) && (
+                          <span
+                            className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                            title={`Locked until ${getLockedUntil(user)?.toLocaleString()}`}
+                          >
+                            Locked
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'N/A'}
@@ -252,7 +318,25 @@ export default function UsersPage() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex items-center space-x-3">
-                            {['doctor', 'pharmacist', 'delivery'].includes(user.role) && (
+                            {getLockedUntil(user) && can('users.unlock') && (
+                              <button
+                                onClick={() => handleUnlock(user)}
+                                className="text-yellow-600 hover:text-yellow-900 transition-colors duration-200"
+                                title="Unlock sign-in"
+                              >
+                                Unlock
+                              </button>
+                            )}
+                            {['doctor', 'pharmacist', 'delivery'].includes(user.role) && can('permissions.grant') && (
+                              <button
+                                onClick={() => openPermissions(user)}
+                                className="text-blue-600 hover:text-blue-900 transition-colors duration-200"
+                                title="Grant permissions"
+                              >
+                                Permissions
+                              </button>
+                            )}
+                            {['doctor', 'pharmacist', 'delivery'].includes(user.role) && can('users.deactivate') && (
                               user.status === 'active' ? (
                                 <button 
                                   onClick={() => handleStatusChange(user._id, 'inactive')}
@@ -271,7 +355,7 @@ export default function UsersPage() {
                                 </button>
                               )
                             )}
-                            {user.role !== 'admin' && (
+                            {user.role !== 'admin' && can('users.delete') && (
                               <button 
                                 onClick={() => handleDelete(user._id)}
                                 className="text-red-600 hover:text-red-900 transition-colors duration-200"
@@ -288,6 +372,57 @@ export default function UsersPage() {
               </table>
               )}
             </div>
+
+            {/* Permissions Modal */}
+            {permissionsUser && (
+              <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-1">
+                    Permissions for {permissionsUser.firstName} {permissionsUser.lastName}
+                  </h2>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Grants apply on top of what the {formatRole(permissionsUser.role).toLowerCase()} role already allows.
+                  </p>
+                  <div className="space-y-3 mb-6">
+                    {(Object.keys(PERMISSIONS) as Permission[]).map(permission => {
+                      const fromRole = ROLE_PERMISSIONS[permissionsUser.role].includes(permission);
+                      return (
+                        <label key={permission} className="flex items-start gap-3">
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={fromRole || selectedPermissions.includes(permission)}
+                            disabled={fromRole}
+                            onChange={() => togglePermission(permission)}
+                          />
+                          <span>
+                            <span className="block text-sm font-medium text-gray-900">{PERMISSIONS[permission]}</span>
+                            <span className="block text-xs text-gray-500">
+                              {permission}{fromRole && ' (role default)'}
+                            </span>
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <div className="flex justify-end gap-4">
+                    <button
+                      onClick={() => setPermissionsUser(null)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSavePermissions}
+                      disabled={savingPermissions}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {savingPermissions ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </main>
       </div>
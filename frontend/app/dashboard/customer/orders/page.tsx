@@ -5,13 +5,25 @@ import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
+import { assetUrl } from '@/services/api';
 import { getCustomerOrders, Order } from '@/services/orders';
+import { formatTaxLabel } from '@/lib/pricing';
+import { formatPaymentMethod } from '@/lib/tenders';
+import { getAvailableReturnKind, getReturnableQuantities } from '@/lib/returns';
+import returnsService, { ReturnRequest } from '@/services/returns';
+import ReturnRequestForm from '@/components/ReturnRequestForm';
+import ReturnTimeline from '@/components/ReturnTimeline';
+import InvoiceActions from '@/components/InvoiceActions';
+import OrderTimeline from '@/components/OrderTimeline';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
 
 export default function CustomerOrderPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [showReturnForm, setShowReturnForm] = useState(false);
 
   const fetchOrders = async () => {
     try {
@@ -65,6 +77,22 @@ export default function CustomerOrderPage() {
     fetchOrders();
   }, []);
 
+  // Cancellation and return requests for the order being viewed
+  useEffect(() => {
+    setReturns([]);
+    setShowReturnForm(false);
+    if (!selectedOrder?._id) return;
+    returnsService.getOrderReturns(selectedOrder._id)
+      .then(setReturns)
+      .catch(error => console.error('Error fetching return requests:', error));
+  }, [selectedOrder]);
+
+  const returnKind = selectedOrder ? getAvailableReturnKind(selectedOrder) : null;
+  const returnable = selectedOrder ? getReturnableQuantities(selectedOrder, returns) : {};
+  const canRequestReturn = !!selectedOrder?._id && !!returnKind
+    && !returns.some(request => request.status === 'requested')
+    && Object.values(returnable).some(quantity => quantity > 0);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -122,7 +150,8 @@ export default function CustomerOrderPage() {
   const subtotal = selectedOrder?.subtotal ?? selectedOrder?.items.reduce((sum, item) => sum + item.price * item.quantity, 0) ?? 0;
   const shipping = selectedOrder?.shipping ?? 500;
   const tax = selectedOrder?.tax ?? 0;
-  const total = subtotal + shipping + tax;
+  const discount = selectedOrder?.discount ?? 0;
+  const total = subtotal - discount + shipping + tax;
   return (
     <ProtectedRoute role="customer">
       <div className="flex min-h-screen bg-gray-50">
@@ -182,7 +211,7 @@ export default function CustomerOrderPage() {
                         const subtotal = order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
                         const shipping = order.shipping ?? 500;
                         const tax = order.tax ?? 0;
-                        const total = subtotal + shipping + tax;
+                        const total = subtotal - (order.discount ?? 0) + shipping + tax;
                         return (
                           <div
                             key={order.id}
@@ -201,7 +230,7 @@ export default function CustomerOrderPage() {
                               <div className="text-right">
                                 <p className="font-bold text-gray-900">LKR {total.toFixed(2)}</p>
                                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                                  {getStatusIcon(order.status)} {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                  {getStatusIcon(order.status)} {ORDER_STATUS_LABELS[order.status] ?? order.status}
                                 </span>
                               </div>
                             </div>
@@ -209,7 +238,7 @@ export default function CustomerOrderPage() {
                             <div className="flex items-center gap-2 mb-3">
                               <span className="text-sm text-gray-600">{order.items.length} {order.items.length === 1 ? 'item' : 'items'}</span>
                               <span className="text-gray-300">•</span>
-                              <span className="text-sm text-gray-600">{order.paymentMethod}</span>
+                              <span className="text-sm text-gray-600">{formatPaymentMethod(order.paymentMethod)}</span>
                             </div>
                             
                             <div className="flex items-center gap-2 text-sm text-gray-500">
@@ -243,7 +272,7 @@ export default function CustomerOrderPage() {
                         <div className="flex items-center justify-between">
                           <span className="text-gray-600">Status:</span>
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(selectedOrder.status)}`}>
-                            {getStatusIcon(selectedOrder.status)} {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                            {getStatusIcon(selectedOrder.status)} {ORDER_STATUS_LABELS[selectedOrder.status] ?? selectedOrder.status}
                           </span>
                         </div>
 
@@ -264,9 +293,26 @@ export default function CustomerOrderPage() {
                         
                         <div className="flex items-center justify-between">
                           <span className="text-gray-600">Payment:</span>
-                          <span className="text-gray-900">{selectedOrder.paymentMethod}</span>
+                          <span className="text-gray-900">
+                            {formatPaymentMethod(selectedOrder.paymentMethod)}
+                            {selectedOrder.paymentMethod === 'cash_on_delivery' && selectedOrder.paymentStatus !== 'paid' && ' (due on delivery)'}
+                          </span>
                         </div>
                         
+                        {!!selectedOrder.refundedAmount && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-gray-600">Refunded:</span>
+                            <span className="font-semibold text-green-700">LKR {selectedOrder.refundedAmount.toFixed(2)}</span>
+                          </div>
+                        )}
+
+                        {discount > 0 && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-gray-600">Discount{selectedOrder.promoCode && ` (${selectedOrder.promoCode})`}:</span>
+                            <span className="font-semibold text-green-700">- LKR {discount.toFixed(2)}</span>
+                          </div>
+                        )}
+
                           <div className="flex items-center justify-between">
                             <span className="text-gray-600">Shipping:</span>
                             <span className="font-semibold text-gray-900">LKR {shipping.toFixed(2)}</span>
@@ -274,7 +320,7 @@ export default function CustomerOrderPage() {
 
                         {tax > 0 && (
                           <div className="flex items-center justify-between">
-                            <span className="text-gray-600">Tax:</span>
+                            <span className="text-gray-600">{formatTaxLabel(selectedOrder.taxLines ?? [])}:</span>
                             <span className="font-semibold text-gray-900">LKR {tax.toFixed(2)}</span>
                           </div>
                         )}
@@ -288,6 +334,16 @@ export default function CustomerOrderPage() {
                         )}
                       </div>
 
+                      {/* Order Progress */}
+                      <div className="mb-6">
+                        <h4 className="font-medium text-gray-900 mb-3">Order Progress</h4>
+                        <OrderTimeline
+                          status={selectedOrder.status}
+                          history={selectedOrder.statusHistory}
+                          placedAt={selectedOrder.date || selectedOrder.createdAt}
+                        />
+                      </div>
+
                       {/* Order Items */}
                       <div className="mb-6">
                         <h4 className="font-medium text-gray-900 mb-3">Items</h4>
@@ -302,7 +358,7 @@ export default function CustomerOrderPage() {
                                         ? item.image.replace(/\\/g, '/')
                                         : item.image.startsWith('/')
                                           ? item.image.replace(/\\/g, '/')
-                                          : `http://localhost:8000/${item.image.replace(/\\/g, '/')}`
+                                          : assetUrl(item.image)
                                       : '/images/doc1.webp'
                                   }
                                   alt={item.name}
@@ -330,6 +386,43 @@ export default function CustomerOrderPage() {
                           <p className="text-sm text-gray-700">{selectedOrder.shippingAddress}</p>
                         </div>
                       </div>
+
+                      {selectedOrder._id && (
+                        <div className="mt-6">
+                          <InvoiceActions orderId={selectedOrder._id} />
+                        </div>
+                      )}
+
+                      {/* Cancellations and Returns */}
+                      {(returns.length > 0 || canRequestReturn) && (
+                        <div className="mt-6">
+                          <h4 className="font-medium text-gray-900 mb-3">Cancellations &amp; Returns</h4>
+                          <div className="space-y-3">
+                            {returns.map(request => (
+                              <ReturnTimeline key={request._id} request={request} />
+                            ))}
+                            {canRequestReturn && selectedOrder._id && returnKind && (showReturnForm ? (
+                              <ReturnRequestForm
+                                order={{ ...selectedOrder, _id: selectedOrder._id }}
+                                kind={returnKind}
+                                returnable={returnable}
+                                onSubmitted={request => {
+                                  setReturns(prev => [request, ...prev]);
+                                  setShowReturnForm(false);
+                                }}
+                                onCancel={() => setShowReturnForm(false)}
+                              />
+                            ) : (
+                              <button
+                                onClick={() => setShowReturnForm(true)}
+                                className="w-full border border-red-300 text-red-600 py-2 px-4 rounded-lg font-medium hover:bg-red-50 transition-colors"
+                              >
+                                {returnKind === 'cancellation' ? 'Cancel Order' : 'Request a Return'}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-12">
@@ -7,6 +7,7 @@ import { FaFilePrescription, FaUserCircle, FaClipboardList, FaComments, FaHeart,
 import { useEffect, useState } from 'react';
 import { getCustomerOrders } from '@/services/orders';
 import authService from '@/services/auth';
+import prescriptionService from '@/services/prescriptions';
 
 interface CustomerStats {
   totalOrders: number;
@@ -64,10 +65,11 @@ export default function CustomerDashboard() {
         const completedOrders = customerOrders.filter(order => order.status === 'delivered').length;
 
         // Fetch prescriptions for current customer
-        const prescriptionsResponse = await fetch(`http://localhost:8000/api/prescriptions/customer/${user.email}`);
         let prescriptions: Prescription[] = [];
-        if (prescriptionsResponse.ok) {
-          prescriptions = await prescriptionsResponse.json();
+        try {
+          prescriptions = await prescriptionService.getCustomerPrescriptions(user.email);
+        } catch {
+          prescriptions = [];
         }
 
         // Calculate prescription statistics
@@ -5,26 +5,14 @@ import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import PaymentForm from '@/components/PaymentForm';
-
-interface Prescription {
-  _id: string;
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  duration: string;
-  gender: string;
-  allergies: string;
-  hasAllergies: string;
-  payment: string;
-  substitutes: string;
-  frequency: string;
-  notes: string;
-  images: string[];
-  status: 'pending' | 'processing' | 'approved' | 'rejected';
-  createdAt: string;
-}
+import { assetUrl } from '@/services/api';
+import prescriptionService, { Prescription } from '@/services/prescriptions';
+import { confirmOrder, deleteOrder, getPrescriptionOrder, updateOrderItems as saveOrderItems } from '@/services/orders';
+import PrescriptionLines from '@/components/PrescriptionLines';
+import PrescriptionRefills from '@/components/PrescriptionRefills';
+import ReminderSetup from '@/components/ReminderSetup';
+import { isTranscribed } from '@/lib/prescriptions';
+import { draftReminderForItem, draftReminders } from '@/lib/reminders';
 
 interface OrderItem {
   id: string;
@@ -73,9 +61,7 @@ export default function CustomerPrescriptionsPage() {
   const [orderLoading, setOrderLoading] = useState(false);
   const router = useRouter();
   const [showReminderPopup, setShowReminderPopup] = useState(false);
-  const [showDateTimePicker, setShowDateTimePicker] = useState(false);
-  const [reminderDate, setReminderDate] = useState('');
-  const [reminderTime, setReminderTime] = useState('');
+  const [showReminderSetup, setShowReminderSetup] = useState(false);
   const [pendingOrderConfirmation, setPendingOrderConfirmation] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
 
@@ -93,21 +79,10 @@ export default function CustomerPrescriptionsPage() {
       }
 
       const user = JSON.parse(userInfo);
-      const response = await fetch(`http://localhost:8000/api/prescriptions/customer/${user.email}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        let data: Prescription[] = await response.json();
-        // Explicitly sort by createdAt descending (newest first)
-        data = data.sort((a: Prescription, b: Prescription) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        setPrescriptions(data);
-      } else {
-        showToast('Failed to fetch prescriptions', 'error');
-      }
+      let data = await prescriptionService.getCustomerPrescriptions(user.email);
+      // Explicitly sort by createdAt descending (newest first)
+      data = data.sort((a: Prescription, b: Prescription) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      setPrescriptions(data);
     } catch (error) {
       console.error('Error fetching prescriptions:', error);
       showToast('Error fetching prescriptions', 'error');
@@ -123,15 +98,8 @@ export default function CustomerPrescriptionsPage() {
       const userInfo = sessionStorage.getItem('user');
       if (!userInfo) return;
       const user = JSON.parse(userInfo);
-      const response = await fetch(
-        `http://localhost:8000/api/orders/customer?email=${encodeURIComponent(user.email)}&prescriptionId=${prescription._id}`
-      );
-      const data = await response.json();
-      if (data.success && data.data.length > 0) {
-        setOrder(data.data[0]);
-      } else {
-        setOrder(null);
-      }
+      const prescriptionOrder = await getPrescriptionOrder(prescription._id, user.email);
+      setOrder(prescriptionOrder as unknown as Order | null);
     } catch (error) {
       setOrder(null);
     } finally {
@@ -151,7 +119,7 @@ export default function CustomerPrescriptionsPage() {
 
   const handleImageClick = (image: string) => {
     if (isPdfFile(image)) {
-      window.open(`http://localhost:8000${image}`, '_blank');
+      window.open(assetUrl(image), '_blank');
     } else {
       setSelectedImage(image);
       setShowLightbox(true);
@@ -186,13 +154,7 @@ export default function CustomerPrescriptionsPage() {
   };
 
   const getProductImageUrl = (imagePath?: string) => {
-    if (!imagePath) {
-      return '/images/package.png';
-    }
-    if (imagePath.startsWith('http')) {
-      return imagePath.replace(/\\/g, '/');
-    }
-    return `http://localhost:8000/${imagePath.replace(/\\/g, '/')}`;
+    return assetUrl(imagePath, '/images/package.png');
   };
 
   // Add handlers for updating quantity and deleting products
@@ -220,16 +182,11 @@ export default function CustomerPrescriptionsPage() {
   const updateOrderItems = async (updatedItems: OrderItem[]) => {
     if (!order) return;
     try {
-      const response = await fetch(`http://localhost:8000/api/orders/${order.id}/items`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items: updatedItems.map(item => ({
-          product: item.id,
-          quantity: item.quantity,
-          price: item.price
-        })) }),
-      });
-      if (!response.ok) throw new Error('Failed to update order');
+      await saveOrderItems(order.id, updatedItems.map(item => ({
+        product: item.id,
+        quantity: item.quantity,
+        price: item.price
+      })));
       setOrder(prev => prev ? { ...prev, items: updatedItems } : prev);
       showToast('Order updated', 'success');
     } catch (error) {
@@ -237,88 +194,18 @@ export default function CustomerPrescriptionsPage() {
     }
   };
 
-  const createReminder = async (date?: string, time?: string) => {
-    if (!order) return;
-    try {
-      const response = await fetch('http://localhost:8000/api/reminders', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          orderId: order.id,
-          reminderDate: date,
-          reminderTime: time,
-          // Add more fields as needed
-        }),
-      });
-      if (!response.ok) throw new Error('Failed to create reminder');
-      showToast('Reminder set!', 'success');
-    } catch (error) {
-      showToast('Failed to set reminder', 'error');
-    }
-  };
-
-  const handleReminderResponse = async (wantsReminder: boolean, date?: string, time?: string) => {
-    setShowReminderPopup(false);
-    setShowDateTimePicker(false);
-    if (!order) return;
-    if (wantsReminder && date && time) {
-      await createReminder(date, time);
-    }
+  const handleRemindersSet = () => {
+    setShowReminderSetup(false);
+    showToast('Reminders set!', 'success');
     setShowPaymentModal(true);
   };
 
+  // PaymentForm has already charged the order by the time this runs
   const handlePaymentSuccess = async () => {
     if (!order) return;
     try {
-      // --- Save payment in backend payment database ---
-      let orderId = order.id || (order as any)._id;
-      if (!orderId) {
-        // Recursively search for _id in the order object
-        function findId(obj: any): string | undefined {
-          if (!obj || typeof obj !== 'object') return undefined;
-          if (obj._id) return obj._id;
-          for (const key of Object.keys(obj)) {
-            const found = findId(obj[key]);
-            if (found) return found;
-          }
-          return undefined;
-        }
-        orderId = findId(order);
-        if (orderId) {
-          console.warn('OrderId found recursively:', orderId);
-        } else {
-          showToast('Could not find order ID. Payment will not be recorded.', 'error');
-          return;
-        }
-      }
-      try {
-        // Calculate subtotal and shipping for payment amount
-        const subtotal = order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-        const shipping = order.shipping ?? 500;
-        const paymentAmount = subtotal + shipping;
-        await fetch('http://localhost:8000/api/payments', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${sessionStorage.getItem('token')}`
-          },
-          body: JSON.stringify({
-            orderId: orderId,
-            paymentMethod: order.paymentMethod || 'card',
-            amount: paymentAmount,
-            paymentType: 'prescription'
-          })
-        });
-        showToast('Payment recorded in database!', 'success');
-      } catch (err) {
-        showToast('Failed to record payment in database', 'error');
-        console.error('Payment record error:', err);
-        return;
-      }
-      // --- End payment save logic ---
       setPendingOrderConfirmation(true);
-      const response = await fetch(`http://localhost:8000/api/orders/${orderId}/confirm`, { method: 'PATCH' });
-      if (!response.ok) throw new Error('Failed to confirm order');
+      await confirmOrder(order.id);
       showToast('Order confirmed!', 'success');
       setOrder({ ...order, customizationConfirmed: true } as typeof order);
       setShowPaymentModal(false);
@@ -476,7 +363,7 @@ export default function CustomerPrescriptionsPage() {
                               </div>
                             ) : (
                               <Image
-                                src={`http://localhost:8000${image}`}
+                                src={assetUrl(image)}
                                 alt={`Prescription ${index + 1}`}
                                 fill
                                 sizes="(max-width: 768px) 100vw, 50vw"
@@ -488,6 +375,19 @@ export default function CustomerPrescriptionsPage() {
                       </div>
                     </div>
                   </div>
+                  {/* Structured prescription, once the pharmacist has transcribed it */}
+                  {isTranscribed(selectedPrescription) && (
+                    <div className="md:col-span-2 bg-white rounded-2xl shadow-lg p-8 border border-blue-100">
+                      <h4 className="font-semibold text-blue-700 text-xl mb-3">Prescribed Medicines</h4>
+                      <PrescriptionLines prescription={selectedPrescription} />
+                    </div>
+                  )}
+                  {selectedPrescription.status === 'approved' && isTranscribed(selectedPrescription) && (
+                    <div className="md:col-span-2 bg-white rounded-2xl shadow-lg p-8 border border-blue-100">
+                      <h4 className="font-semibold text-blue-700 text-xl mb-3">Refills</h4>
+                      <PrescriptionRefills prescription={selectedPrescription} />
+                    </div>
+                  )}
                   {/* Order Section (if approved) */}
                   {selectedPrescription.status === 'approved' && (
                     <div className="md:col-span-2 bg-white rounded-2xl shadow-lg p-8 border border-blue-100 mt-4">
@@ -525,8 +425,7 @@ export default function CustomerPrescriptionsPage() {
                                 onClick={async () => {
                                   if (!window.confirm('Are you sure you want to cancel and delete this order?')) return;
                                   try {
-                                    const response = await fetch(`http://localhost:8000/api/orders/${order.id}`, { method: 'DELETE' });
-                                    if (!response.ok) throw new Error('Failed to delete order');
+                                    await deleteOrder(order.id);
                                     showToast('Order cancelled and deleted', 'success');
                                     setOrder(null);
                                     setShowModal(false);
@@ -624,7 +523,7 @@ export default function CustomerPrescriptionsPage() {
             <div className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center" onClick={() => setShowLightbox(false)}>
               <div className="relative max-w-4xl max-h-[90vh]">
                 <Image
-                  src={selectedImage.startsWith('http') ? selectedImage : `http://localhost:8000${selectedImage}`}
+                  src={assetUrl(selectedImage)}
                   alt="Prescription"
                   width={800}
                   height={600}
@@ -643,13 +542,13 @@ export default function CustomerPrescriptionsPage() {
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
               <div className="bg-white rounded-lg shadow-lg p-8 max-w-sm w-full text-center">
                 <h2 className="text-xl font-semibold mb-4">Set a Reminder?</h2>
-                <p className="mb-6">Do you want to set a reminder for these medicines again?</p>
+                <p className="mb-6">Do you want reminders to take these medicines?</p>
                 <div className="flex justify-center gap-4">
                   <button
                     className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
                     onClick={() => {
                       setShowReminderPopup(false);
-                      setShowDateTimePicker(true);
+                      setShowReminderSetup(true);
                     }}
                     disabled={pendingOrderConfirmation}
                   >
@@ -669,43 +568,16 @@ export default function CustomerPrescriptionsPage() {
               </div>
             </div>
           )}
-          {showDateTimePicker && (
+          {showReminderSetup && order && selectedPrescription && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
-              <div className="bg-white rounded-lg shadow-lg p-8 max-w-sm w-full text-center">
-                <h2 className="text-xl font-semibold mb-4">Set Reminder Date & Time</h2>
-                <div className="mb-4">
-                  <input
-                    type="date"
-                    className="border rounded px-3 py-2 w-full mb-2"
-                    value={reminderDate}
-                    onChange={e => setReminderDate(e.target.value)}
-                  />
-                  <input
-                    type="time"
-                    className="border rounded px-3 py-2 w-full"
-                    value={reminderTime}
-                    onChange={e => setReminderTime(e.target.value)}
-                  />
-                </div>
-                <div className="flex justify-center gap-4">
-                  <button
-                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                    onClick={async () => {
-                      setShowDateTimePicker(false);
-                      await handleReminderResponse(true, reminderDate, reminderTime);
-                    }}
-                    disabled={!reminderDate || !reminderTime || pendingOrderConfirmation}
-                  >
-                    Set Reminder
-                  </button>
-                  <button
-                    className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400"
-                    onClick={() => setShowDateTimePicker(false)}
-                    disabled={pendingOrderConfirmation}
-                  >
-                    Cancel
-                  </button>
-                </div>
+              <div className="bg-white rounded-lg shadow-lg p-8 max-w-2xl w-full">
+                <ReminderSetup
+                  drafts={isTranscribed(selectedPrescription)
+                    ? draftReminders(selectedPrescription, order.id)
+                    : order.items.map(item => draftReminderForItem(item.name, order.id))}
+                  onDone={handleRemindersSet}
+                  onCancel={() => setShowReminderSetup(false)}
+                />
               </div>
             </div>
           )}
@@ -716,6 +588,7 @@ export default function CustomerPrescriptionsPage() {
                 <div className="flex-1 p-8 flex flex-col justify-center">
                   <h2 className="text-2xl font-bold text-blue-700 mb-6 text-center md:text-left">Payment</h2>
                   <PaymentForm
+                    orderId={order.id}
                     total={order?.totalAmount || order?.total || 0}
                     shipping={order?.shipping ?? 500}
                     tax={order?.tax || 0}
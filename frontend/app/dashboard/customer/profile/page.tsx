@@ -5,6 +5,7 @@ import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { Card, CardContent } from '@/components/ui/card';
 import { useEffect, useState, useRef } from 'react';
 import authService, { User } from '@/services/auth';
+import ActiveSessions from '@/components/auth/ActiveSessions';
 import { 
   Mail, 
   Phone, 
@@ -472,6 +473,11 @@ export default function CustomerProfilePage() {
                   </div>
                     </CardContent>
                   </Card>
+
+                  {/* Sessions */}
+                  <div className="mt-8">
+                    <ActiveSessions />
+                  </div>
                 </div>
               </div>
             )}
@@ -0,0 +1,316 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import reminderService, { getTimeZone, MedicationReminder, ReminderChannels } from '@/services/reminders';
+import { addDays, getFrequencyLabel } from '@/lib/prescriptions';
+import { Dose, DoseState, formatDoseTime, getAdherence, getDoses, getNextDose, SNOOZE_OPTIONS } from '@/lib/reminders';
+
+const DOSE_STATE_STYLES: Record<DoseState, string> = {
+  upcoming: 'bg-gray-100 text-gray-700',
+  due: 'bg-blue-100 text-blue-800',
+  snoozed: 'bg-yellow-100 text-yellow-800',
+  taken: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-200 text-gray-700',
+  missed: 'bg-red-100 text-red-800',
+  paused: 'bg-gray-100 text-gray-500',
+};
+
+const STATUS_STYLES: Record<MedicationReminder['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-gray-100 text-gray-700',
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// Dates are YYYY-MM-DD in the patient's zone; parsing them alone would read them as UTC
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+export default function RemindersPage() {
+  const [reminders, setReminders] = useState<MedicationReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Re-evaluated every minute so doses move from upcoming to due to missed on screen
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    reminderService.getReminders()
+      .then(setReminders)
+      .catch(error => {
+        console.error('Error fetching reminders:', error);
+        toast.error('Failed to load reminders');
+      })
+      .finally(() => setLoading(false));
+    const interval = window.setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const replace = (saved: MedicationReminder) =>
+    setReminders(prev => prev.map(reminder => (reminder._id === saved._id ? saved : reminder)));
+
+  // Runs one change against a reminder, keeping its buttons disabled meanwhile
+  const run = async (id: string, action: () => Promise<MedicationReminder | void>, failure: string) => {
+    try {
+      setBusyId(id);
+      const saved = await action();
+      if (saved) replace(saved);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (reminder: MedicationReminder) => {
+    if (!window.confirm(`Stop reminders for ${reminder.medicine}?`)) return;
+    await run(reminder._id, async () => {
+      await reminderService.deleteReminder(reminder._id);
+      setReminders(prev => prev.filter(item => item._id !== reminder._id));
+    }, 'Failed to delete the reminder');
+  };
+
+  const handleChannels = (reminder: MedicationReminder, channels: ReminderChannels) => {
+    if (!channels.inApp && !channels.email) {
+      toast.error('Keep at least one way to be reminded, or pause the reminder');
+      return;
+    }
+    run(reminder._id, () => reminderService.updateChannels(reminder._id, channels), 'Failed to update the reminder');
+  };
+
+  // Only on request: someone travelling may want to keep home time
+  const handleTimeZone = (reminder: MedicationReminder, timeZone: string) =>
+    run(reminder._id, () => reminderService.updateTimeZone(reminder._id, timeZone), 'Failed to change the time zone');
+
+  const dosesByReminder = new Map(reminders.map(reminder => [reminder._id, getDoses(reminder, now)]));
+  const allDoses = Array.from(dosesByReminder.values()).flat();
+  const overall = getAdherence(allDoses);
+  const today = allDoses
+    .filter(dose => isSameDay(new Date(dose.scheduledFor), now) && dose.state !== 'paused')
+    .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  const sorted = [...reminders].sort((a, b) => Number(a.status === 'completed') - Number(b.status === 'completed'));
+  const browserTimeZone = getTimeZone();
+
+  const renderDoseActions = (dose: Dose) => {
+    const reminder = reminders.find(item => item._id === dose.reminderId);
+    if (!reminder || dose.state === 'taken' || dose.state === 'skipped') return null;
+    const busy = busyId === reminder._id;
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => run(reminder._id, () => reminderService.recordDose(reminder._id, dose.scheduledFor, 'taken'), 'Failed to record the dose')}
+          disabled={busy}
+          className="px-3 py-1 text-xs font-medium rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+        >
+          Taken
+        </button>
+        <button
+          onClick={() => run(reminder._id, () => reminderService.recordDose(reminder._id, dose.scheduledFor, 'skipped'), 'Failed to record the dose')}
+          disabled={busy}
+          className="px-3 py-1 text-xs font-medium rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Skip
+        </button>
+        {(dose.state === 'due' || dose.state === 'snoozed') && (
+          <select
+            value=""
+            onChange={e => run(reminder._id, () => reminderService.snoozeDose(reminder._id, dose.scheduledFor, Number(e.target.value)), 'Failed to snooze the reminder')}
+            disabled={busy}
+            className="text-xs border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Snooze"
+          >
+            <option value="" disabled>Snooze</option>
+            {SNOOZE_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} min</option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <ProtectedRoute role="customer">
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role="customer" />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Medication Reminders</h1>
+              <p className="text-gray-600">Your dose schedule, and how well you have kept to it</p>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+              </div>
+            ) : reminders.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+                No reminders yet. You can set them up when you confirm a prescription order.
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                  {[
+                    ['Adherence', formatRate(overall.rate), 'text-blue-700'],
+                    ['Doses taken', overall.taken, 'text-green-700'],
+                    ['Doses missed', overall.missed, 'text-red-700'],
+                    ['Doses skipped', overall.skipped, 'text-gray-700'],
+                  ].map(([label, value, color]) => (
+                    <div key={label} className="bg-white rounded-lg shadow p-5">
+                      <p className="text-sm text-gray-600">{label}</p>
+                      <p className={`text-3xl font-bold ${color}`}>{value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="bg-white rounded-lg shadow mb-8">
+                  <h2 className="text-lg font-semibold text-gray-900 px-6 py-4 border-b border-gray-200">Today</h2>
+                  {today.length === 0 ? (
+                    <p className="px-6 py-4 text-gray-500">No doses scheduled today.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {today.map(dose => {
+                        const reminder = reminders.find(item => item._id === dose.reminderId);
+                        return (
+                          <li key={`${dose.reminderId}-${dose.scheduledFor}`} className="px-6 py-3 flex items-center justify-between gap-4">
+                            <div>
+                              <p className="font-medium text-gray-900">{reminder?.medicine}</p>
+                              <p className="text-sm text-gray-600">
+                                {reminder?.dose} at {new Date(dose.scheduledFor).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                                {dose.snoozedUntil && ` · snoozed until ${new Date(dose.snoozedUntil).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${DOSE_STATE_STYLES[dose.state]}`}>{dose.state}</span>
+                              {renderDoseActions(dose)}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {sorted.map(reminder => {
+                    const doses = dosesByReminder.get(reminder._id) ?? [];
+                    const adherence = getAdherence(doses);
+                    const next = getNextDose(doses);
+                    const overdue = doses.filter(dose => dose.state === 'missed' && !isSameDay(new Date(dose.scheduledFor), now));
+                    const busy = busyId === reminder._id;
+                    return (
+                      <div key={reminder._id} className="bg-white rounded-lg shadow p-6">
+                        <div className="flex justify-between items-start mb-2">
+                          <div>
+                            <h3 className="text-lg font-semibold text-gray-900">{reminder.medicine}</h3>
+                            <p className="text-sm text-gray-600">
+                              {reminder.dose} · {getFrequencyLabel(reminder.frequency).toLowerCase()} at {reminder.times.join(', ')}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {formatDate(reminder.startDate)} to {formatDate(addDays(reminder.startDate, reminder.durationDays - 1))}
+                            </p>
+                            {reminder.timeZone && reminder.timeZone !== browserTimeZone && (
+                              <p className="text-xs text-gray-500">
+                                Times are in {reminder.timeZone}.
+                                {reminder.status !== 'completed' && (
+                                  <button
+                                    onClick={() => handleTimeZone(reminder, browserTimeZone)}
+                                    disabled={busy}
+                                    className="ml-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                  >
+                                    Use {browserTimeZone}
+                                  </button>
+                                )}
+                              </p>
+                            )}
+                          </div>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[reminder.status]}`}>{reminder.status}</span>
+                        </div>
+
+                        <div className="my-4">
+                          <div className="flex justify-between text-sm text-gray-700 mb-1">
+                            <span>Adherence {formatRate(adherence.rate)}</span>
+                            <span>{adherence.taken} taken · {adherence.missed} missed · {adherence.skipped} skipped of {doses.length}</span>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-green-500" style={{ width: `${Math.round((adherence.rate ?? 0) * 100)}%` }} />
+                          </div>
+                        </div>
+
+                        {reminder.status === 'active' && next && (
+                          <p className="text-sm text-gray-700 mb-3">Next dose: <span className="font-medium">{formatDoseTime(next.scheduledFor)}</span></p>
+                        )}
+                        {overdue.length > 0 && (
+                          <details className="mb-3 text-sm">
+                            <summary className="cursor-pointer text-red-700">{overdue.length} earlier dose{overdue.length === 1 ? '' : 's'} not recorded</summary>
+                            <ul className="mt-2 space-y-2">
+                              {overdue.map(dose => (
+                                <li key={dose.scheduledFor} className="flex items-center justify-between gap-3">
+                                  <span className="text-gray-700">{formatDoseTime(dose.scheduledFor)}</span>
+                                  {renderDoseActions(dose)}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+
+                        {reminder.status !== 'completed' && (
+                          <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+                            <div className="flex gap-4 text-sm text-gray-700">
+                              <label className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={reminder.channels.inApp}
+                                  disabled={busy}
+                                  onChange={e => handleChannels(reminder, { ...reminder.channels, inApp: e.target.checked })}
+                                />
+                                In-app
+                              </label>
+                              <label className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={reminder.channels.email}
+                                  disabled={busy}
+                                  onChange={e => handleChannels(reminder, { ...reminder.channels, email: e.target.checked })}
+                                />
+                                Email
+                              </label>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => run(
+                                  reminder._id,
+                                  () => (reminder.status === 'paused' ? reminderService.resumeReminder(reminder._id) : reminderService.pauseReminder(reminder._id)),
+                                  'Failed to update the reminder',
+                                )}
+                                disabled={busy}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-yellow-100 text-yellow-800 hover:bg-yellow-200 disabled:opacity-50"
+                              >
+                                {reminder.status === 'paused' ? 'Resume' : 'Pause'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(reminder)}
+                                disabled={busy}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-red-100 text-red-700 hover:bg-red-200 disabled:opacity-50"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
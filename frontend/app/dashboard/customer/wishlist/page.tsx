@@ -0,0 +1,43 @@
+"use client";
+import Link from 'next/link';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import SavedForLater from '@/components/SavedForLater';
+import { useCart } from '@/context/CartContext';
+import { isBackInStock } from '@/services/wishlist';
+
+export default function WishlistPage() {
+  const { wishlist } = useCart();
+  const backInStock = wishlist.filter(isBackInStock).length;
+
+  return (
+    <ProtectedRoute role="customer">
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role="customer" />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">My Wishlist</h1>
+              <p className="text-gray-600">Products you saved for later</p>
+            </div>
+
+            {backInStock > 0 && (
+              <div className="mb-6 bg-green-50 border border-green-200 text-green-800 rounded-lg p-4">
+                {backInStock === 1 ? 'One saved item is' : `${backInStock} saved items are`} back in stock.
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <SavedForLater emptyMessage="Your wishlist is empty. Tap the heart on any product to save it here." />
+              <div className="mt-4 text-right">
+                <Link href="/products/viewcart" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                  Go to cart
+                </Link>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -2,19 +2,17 @@
 "use client";
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { useEffect, useState } from 'react';
-import { getOrdersByStatus, updateOrderStatus } from '@/services/orders';
+import { Fragment, useEffect, useState } from 'react';
+import { DeliveryOrder, getOrdersByStatus, OrderStatus, updateOrderStatus } from '@/services/orders';
+import paymentService from '@/services/payments';
 import { Card, CardContent } from '@/components/ui/card';
-import { FaClipboardList, FaUser, FaMapMarkerAlt, FaPhone, FaTruck, FaCheckCircle, FaClock, FaExclamationTriangle, FaRoute, FaFilter, FaSearch } from 'react-icons/fa';
+import OrderTimeline from '@/components/OrderTimeline';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { useOrderTransitions } from '@/lib/useOrderTransitions';
+import { FaClipboardList, FaUser, FaMapMarkerAlt, FaPhone, FaTruck, FaCheckCircle, FaClock, FaExclamationTriangle, FaRoute, FaFilter, FaSearch, FaMoneyBillWave } from 'react-icons/fa';
 
-interface DeliveryOrder {
-  id: string;
-  orderNumber: string;
-  name: string;
-  address: string;
-  phone: string;
-  status: string;
-}
+const isCashDue = (order: DeliveryOrder) =>
+  order.paymentMethod === 'cash_on_delivery' && order.paymentStatus !== 'paid';
 
 export default function AssignedOrderPage() {
   const [orders, setOrders] = useState<DeliveryOrder[]>([]);
@@ -22,13 +20,16 @@ export default function AssignedOrderPage() {
   const [error, setError] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
+  const [timelineOrderId, setTimelineOrderId] = useState<string | null>(null);
+  const allowedTransitions = useOrderTransitions();
 
   useEffect(() => {
     const fetchOrders = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await getOrdersByStatus('pending,shipped');
+        // Orders the pharmacy has packed and is waiting to hand over, and those on the road
+        const data = await getOrdersByStatus('processing,shipped');
         setOrders(data);
       } catch (err: any) {
         setError(err.message || 'Failed to fetch orders');
@@ -39,15 +40,26 @@ export default function AssignedOrderPage() {
     fetchOrders();
   }, []);
 
-  const handleStatusChange = async (orderId: string, newStatus: string) => {
-    const confirmMsg = `Are you sure you want to change the status to '${newStatus.charAt(0).toUpperCase() + newStatus.slice(1)}'?`;
+  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
+    const order = orders.find(o => o.id === orderId);
+    // Cash on delivery orders can only be handed over once the cash is collected
+    const collectCash = newStatus === 'delivered' && !!order && isCashDue(order);
+    const confirmMsg = collectCash
+      ? `Confirm that you have collected Rs. ${(order.total ?? 0).toFixed(2)} in cash from ${order.name}.`
+      : `Are you sure you want to change the status to '${ORDER_STATUS_LABELS[newStatus]}'?`;
     if (!window.confirm(confirmMsg)) return;
     try {
-      await updateOrderStatus(orderId, newStatus);
+      if (collectCash) {
+        await paymentService.confirmCashOnDelivery(orderId);
+        setOrders(prev => prev.map(o => o.id === orderId ? { ...o, paymentStatus: 'paid' } : o));
+      }
+      const updated = await updateOrderStatus(orderId, newStatus);
       if (newStatus === 'delivered') {
         setOrders(prev => prev.filter(order => order.id !== orderId));
       } else {
-        setOrders(prev => prev.map(order => order.id === orderId ? { ...order, status: newStatus } : order));
+        setOrders(prev => prev.map(order => order.id === orderId
+          ? { ...order, status: updated.status, statusHistory: updated.statusHistory }
+          : order));
       }
     } catch (err: any) {
       alert(err.message || 'Failed to update order status');
@@ -64,7 +76,7 @@ export default function AssignedOrderPage() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'pending':
+      case 'processing':
         return 'bg-amber-100 text-amber-800 border-amber-200';
       case 'shipped':
         return 'bg-blue-100 text-blue-800 border-blue-200';
@@ -77,7 +89,7 @@ export default function AssignedOrderPage() {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'pending':
+      case 'processing':
         return <FaClock className="w-4 h-4" />;
       case 'shipped':
         return <FaTruck className="w-4 h-4" />;
@@ -90,7 +102,7 @@ export default function AssignedOrderPage() {
 
   const getPriorityColor = (status: string) => {
     switch (status) {
-      case 'pending':
+      case 'processing':
         return 'bg-amber-500';
       case 'shipped':
         return 'bg-blue-500';
@@ -179,7 +191,7 @@ export default function AssignedOrderPage() {
                         className="px-4 py-2 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-300 focus:border-transparent bg-slate-50 text-slate-700"
                       >
                         <option value="all">All Orders</option>
-                              <option value="pending">Pending</option>
+                              <option value="processing">Processing</option>
                               <option value="shipped">Shipped</option>
                               <option value="delivered">Delivered</option>
                             </select>
@@ -187,7 +199,7 @@ export default function AssignedOrderPage() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
-                    <span className="text-sm text-slate-600">Pending</span>
+                    <span className="text-sm text-slate-600">Processing</span>
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                     <span className="text-sm text-slate-600">Shipped</span>
                     <div className="w-2 h-2 bg-emerald-500 rounded-full"></div>
@@ -266,13 +278,20 @@ export default function AssignedOrderPage() {
                       </thead>
                       <tbody className="bg-white divide-y divide-slate-100">
                         {filteredOrders.map((order) => (
-                          <tr key={order.id} className="hover:bg-slate-50 transition-colors duration-200">
+                          <Fragment key={order.id}>
+                          <tr className="hover:bg-slate-50 transition-colors duration-200">
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="flex items-center space-x-3">
                                 <div className={`w-3 h-3 ${getPriorityColor(order.status)} rounded-full flex-shrink-0`}></div>
                                 <div>
                                   <div className="text-sm font-bold text-slate-900">{order.orderNumber}</div>
                                   <div className="text-xs text-slate-500">Order ID: {order.id}</div>
+                                  {isCashDue(order) && (
+                                    <div className="mt-1 inline-flex items-center space-x-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-semibold">
+                                      <FaMoneyBillWave className="w-3 h-3" />
+                                      <span>Collect Rs. {(order.total ?? 0).toFixed(2)}</span>
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                             </td>
@@ -294,24 +313,40 @@ export default function AssignedOrderPage() {
                               <div className={`inline-flex items-center space-x-2 px-3 py-1 rounded-full border ${getStatusColor(order.status)}`}>
                                 {getStatusIcon(order.status)}
                                 <span className="text-xs font-semibold uppercase tracking-wide">
-                                  {order.status === 'shipped' ? 'Shipped' : order.status}
+                                  {ORDER_STATUS_LABELS[order.status] ?? order.status}
                                 </span>
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap min-w-[140px]">
                               <div className="flex items-center space-x-2">
+                                {/* The current status, then only the moves a driver may make from it */}
                                 <select
                                   value={order.status}
-                                  onChange={(e) => handleStatusChange(order.id, e.target.value)}
+                                  onChange={(e) => handleStatusChange(order.id, e.target.value as OrderStatus)}
+                                  disabled={allowedTransitions(order.status).length === 0}
                                   className="px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-300 focus:border-transparent bg-white text-slate-700 text-sm font-medium shadow-sm hover:border-slate-300 transition-colors"
                                 >
-                                  <option value="pending">Pending </option>
-                                  <option value="shipped">Shipped </option>
-                                  <option value="delivered">Delivered </option>
+                                  {[order.status, ...allowedTransitions(order.status)].map(status => (
+                                    <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                                  ))}
                                 </select>
+                                <button
+                                  onClick={() => setTimelineOrderId(timelineOrderId === order.id ? null : order.id)}
+                                  className="px-3 py-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+                                >
+                                  {timelineOrderId === order.id ? 'Hide' : 'Timeline'}
+                                </button>
                               </div>
                             </td>
                         </tr>
+                          {timelineOrderId === order.id && (
+                            <tr className="bg-slate-50">
+                              <td colSpan={6} className="px-6 py-4">
+                                <OrderTimeline status={order.status} history={order.statusHistory} />
+                              </td>
+                            </tr>
+                          )}
+                          </Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -324,7 +359,7 @@ export default function AssignedOrderPage() {
                         <span>Showing {filteredOrders.length} of {orders.length} orders</span>
                         <div className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
-                          <span>{filteredOrders.filter(o => o.status === 'pending').length} Pending</span>
+                          <span>{filteredOrders.filter(o => o.status === 'processing').length} Processing</span>
                           <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                           <span>{filteredOrders.filter(o => o.status === 'shipped').length} Shipped</span>
                           <div className="w-2 h-2 bg-emerald-500 rounded-full"></div>
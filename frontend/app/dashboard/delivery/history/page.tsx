@@ -3,26 +3,19 @@
 "use client";
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { useEffect, useState } from 'react';
-import { getOrdersByStatus } from '@/services/orders';
+import { Fragment, useEffect, useState } from 'react';
+import { DeliveryOrder, getOrdersByStatus } from '@/services/orders';
 import { Card, CardContent } from '@/components/ui/card';
+import OrderTimeline from '@/components/OrderTimeline';
 import { FaHistory, FaClipboardList, FaUser, FaMapMarkerAlt, FaPhone, FaCheckCircle, FaCalendarAlt, FaExclamationTriangle, FaSearch, FaFilter, FaChartLine, FaTrophy } from 'react-icons/fa';
 
-interface DeliveryOrder {
-  id: string;
-  orderNumber: string;
-  name: string;
-  address: string;
-  phone: string;
-  status: string;
-}
-
 export default function HistoryPage() {
   const [orders, setOrders] = useState<DeliveryOrder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [filterMonth, setFilterMonth] = useState<string>('all');
+  const [timelineOrderId, setTimelineOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -239,7 +232,8 @@ export default function HistoryPage() {
                       </thead>
                       <tbody className="bg-white divide-y divide-slate-100">
                         {filteredOrders.map((order) => (
-                          <tr key={order.id} className="hover:bg-slate-50 transition-colors duration-200">
+                          <Fragment key={order.id}>
+                          <tr className="hover:bg-slate-50 transition-colors duration-200">
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="flex items-center space-x-3">
                                 <div className="w-3 h-3 bg-emerald-500 rounded-full flex-shrink-0"></div>
@@ -268,8 +262,22 @@ export default function HistoryPage() {
                                 <FaCheckCircle className="w-4 h-4" />
                                 <span className="text-xs font-semibold uppercase tracking-wide">Delivered</span>
                               </div>
+                              <button
+                                onClick={() => setTimelineOrderId(timelineOrderId === order.id ? null : order.id)}
+                                className="ml-3 text-sm font-medium text-slate-600 hover:text-slate-900"
+                              >
+                                {timelineOrderId === order.id ? 'Hide' : 'Timeline'}
+                              </button>
                             </td>
                           </tr>
+                          {timelineOrderId === order.id && (
+                            <tr className="bg-slate-50">
+                              <td colSpan={5} className="px-6 py-4">
+                                <OrderTimeline status={order.status} history={order.statusHistory} />
+                              </td>
+                            </tr>
+                          )}
+                          </Fragment>
                         ))}
                       </tbody>
                     </table>
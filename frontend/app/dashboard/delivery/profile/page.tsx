@@ -3,6 +3,8 @@
 "use client";
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
+import ActiveSessions from '@/components/auth/ActiveSessions';
 import { useEffect, useState } from 'react';
 import authService, { User } from '@/services/auth';
 import { Card, CardContent } from '@/components/ui/card';
@@ -292,6 +294,19 @@ export default function DeliveryProfilePage() {
                   </div>
                     </CardContent>
                   </Card>
+
+                  {/* Two-Factor Authentication */}
+                  <div className="mt-8">
+                    <TwoFactorSettings
+                      enabled={!!user.twoFactorEnabled}
+                      onChange={(twoFactorEnabled) => setUser({ ...user, twoFactorEnabled })}
+                    />
+                  </div>
+
+                  {/* Sessions */}
+                  <div className="mt-8">
+                    <ActiveSessions />
+                  </div>
                 </div>
               </div>
             ) : null}
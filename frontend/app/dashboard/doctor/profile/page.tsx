@@ -3,6 +3,8 @@
 "use client";
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
+import ActiveSessions from '@/components/auth/ActiveSessions';
 import { useEffect, useState } from 'react';
 import authService, { User } from '@/services/auth';
 import { 
@@ -289,6 +291,15 @@ export default function DoctorProfilePage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Two-Factor Authentication Card */}
+                  <TwoFactorSettings
+                    enabled={!!user.twoFactorEnabled}
+                    onChange={(twoFactorEnabled) => setUser({ ...user, twoFactorEnabled })}
+                  />
+
+                  {/* Sessions Card */}
+                  <ActiveSessions />
                 </div>
               </div>
             ) : null}
@@ -0,0 +1,180 @@
+"use client";
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { Download } from 'lucide-react';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import ControlledReceiptForm from '@/components/ControlledReceiptForm';
+import authService, { Role } from '@/services/auth';
+import controlledDrugService, { ControlledRegister } from '@/services/controlledDrugs';
+import inventoryService, { InventoryItem } from '@/services/inventory';
+import { CONTROLLED_SCHEDULES, getMaxControlledQuantity } from '@/lib/controlledDrugs';
+import { describeRegisterEntry, getRegisterFilename, REGISTER_ENTRY_LABELS, renderRegisterPdf } from '@/lib/controlledRegister';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const startOfMonth = () => {
+  const today = new Date();
+  return toDateInput(new Date(today.getFullYear(), today.getMonth(), 1));
+};
+
+export default function ControlledDrugsPage() {
+  const [sidebarRole, setSidebarRole] = useState<Role>('pharmacist');
+  const [drugs, setDrugs] = useState<InventoryItem[]>([]);
+  const [from, setFrom] = useState(startOfMonth);
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [productId, setProductId] = useState('');
+  const [register, setRegister] = useState<ControlledRegister | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSidebarRole(authService.getActiveRole() ?? 'pharmacist');
+    inventoryService.getStaffInventory()
+      .then(items => setDrugs(items.filter(item => item.controlled)))
+      .catch(err => console.error('Error fetching inventory:', err));
+  }, []);
+
+  const fetchRegister = useCallback(() => {
+    if (!from || !to || from > to) return;
+    setLoading(true);
+    setError(null);
+    controlledDrugService.getRegister({ from, to, productId: productId || undefined })
+      .then(setRegister)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to fetch the controlled drug register'))
+      .finally(() => setLoading(false));
+  }, [from, to, productId]);
+
+  useEffect(() => {
+    fetchRegister();
+  }, [fetchRegister]);
+
+  const handleDownload = () => {
+    if (!register) return;
+    try {
+      const url = URL.createObjectURL(new Blob([renderRegisterPdf(register)], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getRegisterFilename(register);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error generating register PDF:', err);
+      toast.error('Failed to generate the register report');
+    }
+  };
+
+  return (
+    <ProtectedRoute permission="controlled.register">
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role={sidebarRole} />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Controlled Drug Register</h1>
+            <p className="text-gray-600 mb-8">
+              Every controlled drug received and dispensed, with the balance after each entry. Sales and orders are recorded automatically.
+            </p>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Record Stock Received</h2>
+              <ControlledReceiptForm drugs={drugs} onRecorded={fetchRegister} />
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4 mb-6">
+              <label className="text-sm font-medium text-gray-700">
+                From
+                <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 font-normal" />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                To
+                <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)} className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 font-normal" />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Drug
+                <select value={productId} onChange={e => setProductId(e.target.value)} className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 font-normal">
+                  <option value="">All controlled drugs</option>
+                  {drugs.map(drug => (
+                    <option key={drug._id} value={drug._id}>{drug.name}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleDownload}
+                disabled={!register || loading}
+                className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                Download Register (PDF)
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+              </div>
+            ) : error ? (
+              <p className="p-6 bg-white rounded-xl border border-gray-200 text-red-600">{error}</p>
+            ) : !register || register.drugs.length === 0 ? (
+              <p className="p-6 bg-white rounded-xl border border-gray-200 text-gray-500 text-center">No controlled drugs were recorded in this period.</p>
+            ) : (
+              <div className="space-y-6">
+                {register.drugs.map(drug => {
+                  const item = drugs.find(candidate => candidate._id === drug.productId);
+                  return (
+                    <div key={drug.productId} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-start">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{drug.name} {drug.packSize && <span className="text-gray-500 font-normal">({drug.packSize})</span>}</h3>
+                          <p className="text-sm text-gray-600">
+                            {CONTROLLED_SCHEDULES[drug.schedule].label}
+                            {item?.controlled && ` · at most ${getMaxControlledQuantity(item.controlled)} per order`}
+                          </p>
+                        </div>
+                        <div className="text-right text-sm">
+                          <p className="text-gray-600">Opening balance <span className="font-semibold text-gray-900">{drug.openingBalance}</span></p>
+                          <p className="text-gray-600">Closing balance <span className="font-semibold text-gray-900">{drug.closingBalance}</span></p>
+                        </div>
+                      </div>
+                      {drug.entries.length === 0 ? (
+                        <p className="px-6 py-4 text-sm text-gray-500">No entries in this period.</p>
+                      ) : (
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Entry</th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Supplier / Patient</th>
+                              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">In</th>
+                              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Out</th>
+                              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">By</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {drug.entries.map(entry => (
+                              <tr key={entry._id}>
+                                <td className="px-6 py-3 whitespace-nowrap text-gray-700">{new Date(entry.at).toLocaleString()}</td>
+                                <td className="px-6 py-3 text-gray-900">{REGISTER_ENTRY_LABELS[entry.type]}</td>
+                                <td className="px-6 py-3 text-gray-700">{describeRegisterEntry(entry)}</td>
+                                <td className="px-6 py-3 text-right text-green-700">{entry.quantity > 0 ? entry.quantity : ''}</td>
+                                <td className="px-6 py-3 text-right text-red-700">{entry.quantity < 0 ? -entry.quantity : ''}</td>
+                                <td className="px-6 py-3 text-right font-semibold text-gray-900">{entry.balance}</td>
+                                <td className="px-6 py-3 text-gray-700">{entry.by.name}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -5,9 +5,11 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
-import axios from 'axios';
 import Sidebar from '@/components/layout/Sidebar';
 import Image from 'next/image';
+import { productImageUrl } from '@/services/api';
+import inventoryService from '@/services/inventory';
+import { getUserRoles } from '@/services/auth';
 
 interface User {
   id: string;
@@ -41,11 +43,7 @@ export default function PharmacistInventoryPage() {
 
   const getProductImage = (product: InventoryItem) => {
     const imagePath = product.images && product.images.length > 0 ? product.images[0] : product.image;
-    if (!imagePath) {
-      return '/placeholder.png';
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    return `http://localhost:8000/uploads/products/${filename}`;
+    return productImageUrl(imagePath);
   };
 
   const fetchInventory = useCallback(async () => {
@@ -57,22 +55,13 @@ export default function PharmacistInventoryPage() {
         return;
       }
 
-      const response = await axios.get('http://localhost:8000/api/staff/inventory', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      setInventory(response.data);
+      const data = await inventoryService.getStaffInventory();
+      setInventory(data);
     } catch (error: any) {
       console.error('Fetch error:', error);
-      console.error('Error response:', error.response);
 
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-        router.push('/login');
-        return;
-      }
+      // Expired sessions are handled by the API client
+      if (error.status === 401) return;
 
       toast.error('Failed to fetch inventory');
     } finally {
@@ -88,7 +77,7 @@ export default function PharmacistInventoryPage() {
     }
 
     const userData = JSON.parse(storedUser);
-    if (userData.role !== 'pharmacist') {
+    if (!getUserRoles(userData).includes('pharmacist')) {
       toast.error('Unauthorized access');
       router.push('/login');
       return;
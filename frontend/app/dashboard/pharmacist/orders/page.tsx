@@ -0,0 +1,121 @@
+"use client";
+import { Fragment, useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import OrderTimeline from '@/components/OrderTimeline';
+import { DeliveryOrder, getOrdersByStatus, updateOrderStatus } from '@/services/orders';
+import { formatPaymentMethod } from '@/lib/tenders';
+import { useOrderTransitions } from '@/lib/useOrderTransitions';
+
+// Online orders waiting for the pharmacy. Starting one moves it to processing, which puts
+// it on the delivery team's list once packed.
+export default function PharmacistOrdersPage() {
+  const [orders, setOrders] = useState<DeliveryOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [timelineOrderId, setTimelineOrderId] = useState<string | null>(null);
+  const allowedTransitions = useOrderTransitions();
+
+  useEffect(() => {
+    getOrdersByStatus('pending')
+      .then(setOrders)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to fetch orders'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleStartProcessing = async (order: DeliveryOrder) => {
+    try {
+      setUpdatingId(order.id);
+      await updateOrderStatus(order.id, 'processing');
+      setOrders(prev => prev.filter(item => item.id !== order.id));
+      toast.success(`${order.orderNumber} is now being processed`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update order status');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute role="pharmacist">
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role="pharmacist" />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Online Orders</h1>
+            <p className="text-gray-600 mb-8">
+              New orders waiting to be prepared. Start processing an order when you begin picking it.
+            </p>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+              </div>
+            ) : error ? (
+              <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+            ) : orders.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">No orders are waiting.</div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {orders.map(order => (
+                      <Fragment key={order.id}>
+                        <tr>
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{order.orderNumber}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            <div>{order.name}</div>
+                            <div className="text-xs text-gray-500">{order.address}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {formatPaymentMethod(order.paymentMethod)}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-900">Rs. {(order.total ?? 0).toFixed(2)}</td>
+                          <td className="px-6 py-4 text-right whitespace-nowrap space-x-2">
+                            <button
+                              onClick={() => setTimelineOrderId(timelineOrderId === order.id ? null : order.id)}
+                              className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900"
+                            >
+                              {timelineOrderId === order.id ? 'Hide' : 'Timeline'}
+                            </button>
+                            {allowedTransitions(order.status).includes('processing') && (
+                              <button
+                                onClick={() => handleStartProcessing(order)}
+                                disabled={updatingId === order.id}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {updatingId === order.id ? 'Starting...' : 'Start processing'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {timelineOrderId === order.id && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={5} className="px-6 py-4">
+                              <OrderTimeline status={order.status} history={order.statusHistory} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -5,7 +5,6 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
-import axios from 'axios';
 import Sidebar from '@/components/layout/Sidebar';
 import { 
   FileText, 
@@ -22,6 +21,9 @@ import {
   Users,
   Activity
 } from 'lucide-react';
+import inventoryService from '@/services/inventory';
+import prescriptionService from '@/services/prescriptions';
+import { getUserRoles } from '@/services/auth';
 
 interface User {
   id: string;
@@ -83,7 +85,7 @@ export default function PharmacistDashboardPage() {
     }
 
     const userData = JSON.parse(storedUser);
-    if (userData.role !== 'pharmacist') {
+    if (!getUserRoles(userData).includes('pharmacist')) {
       toast.error('Unauthorized access');
       router.push('/login');
       return;
@@ -103,17 +105,10 @@ export default function PharmacistDashboardPage() {
       }
 
       // Fetch prescriptions
-      const prescriptionsResponse = await axios.get('http://localhost:8000/api/prescriptions');
-      const prescriptions = prescriptionsResponse.data;
+      const prescriptions = await prescriptionService.getPrescriptions();
 
       // Fetch inventory
-      const inventoryResponse = await axios.get('http://localhost:8000/api/staff/inventory', {
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      const inventory = inventoryResponse.data;
+      const inventory = await inventoryService.getStaffInventory();
 
       // Calculate statistics
       const stats: DashboardStats = {
@@ -132,11 +127,8 @@ export default function PharmacistDashboardPage() {
       setLowStockInventory(inventory.filter((item: InventoryItem) => item.stock <= 10 && item.status === 'active').slice(0, 5));
     } catch (error: any) {
       console.error('Dashboard fetch error:', error);
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-        router.push('/login');
-        return;
-      }
+      // Expired sessions are handled by the API client
+      if (error.status === 401) return;
       toast.error('Failed to fetch dashboard data');
     } finally {
       setLoading(false);
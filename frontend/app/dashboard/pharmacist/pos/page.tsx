@@ -5,22 +5,17 @@
 import React, { useState, useEffect } from 'react';
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import axios from 'axios';
 import toast from 'react-hot-toast';
 import Image from 'next/image';
-
-interface Product {
-  _id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  status: "active" | "inactive";
-  prescription: "required" | "not_required";
-  image?: string;
-  images?: string[];
-}
+import api, { BACKEND_URL, productImageUrl } from '@/services/api';
+import inventoryService, { InventoryItem as Product } from '@/services/inventory';
+import { createPosOrder } from '@/services/orders';
+import paymentService, { Tender, TenderMethod } from '@/services/payments';
+import { calculatePricing, formatTaxLabel } from '@/lib/pricing';
+import { formatPaymentMethod, reconcileTenders, TENDER_METHODS } from '@/lib/tenders';
+import InvoiceActions from '@/components/InvoiceActions';
+import { usePricingRules } from '@/lib/usePricingRules';
+import { checkControlledLimits, formatSchedule, getDaysSupply, getMaxControlledQuantity, requiresPrescriptionReference } from '@/lib/controlledDrugs';
 
 interface CartItem {
   product: Product;
@@ -33,17 +28,27 @@ interface Customer {
   email: string;
 }
 
+// A tender line as typed at the till
+interface TenderDraft {
+  method: TenderMethod;
+  amount: string;
+  reference: string;
+}
+
 export default function POSPage() {
   const [products, setProducts] = useState<Product[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [customer, setCustomer] = useState<Customer>({ name: '', phone: '', email: '' });
-  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [tenders, setTenders] = useState<TenderDraft[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingPayment, setProcessingPayment] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptData, setReceiptData] = useState<any>(null);
+  // Prescription the controlled drugs in the sale are dispensed against, for the register
+  const [prescriptionReference, setPrescriptionReference] = useState('');
+  const { rules: pricingRules, loaded: pricingLoaded, error: pricingError } = usePricingRules();
 
   useEffect(() => {
     fetchProducts();
@@ -51,20 +56,13 @@ export default function POSPage() {
 
   const getProductImage = (product: Product) => {
     const imagePath = product.images && product.images.length > 0 ? product.images[0] : product.image;
-    if (!imagePath) {
-      return '/placeholder.png';
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    return `http://localhost:8000/uploads/products/${filename}`;
+    return productImageUrl(imagePath);
   };
 
   const fetchProducts = async () => {
     try {
-      const token = sessionStorage.getItem('token');
-      const response = await axios.get('http://localhost:8000/api/staff/inventory', {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      setProducts(response.data.filter((product: Product) => product.status === 'active'));
+      const inventory = await inventoryService.getStaffInventory();
+      setProducts(inventory.filter((product: Product) => product.status === 'active'));
     } catch (error) {
       toast.error('Failed to fetch products');
     } finally {
@@ -77,31 +75,31 @@ export default function POSPage() {
       console.log('Testing backend connection...');
       
       // Test basic server connection
-      const serverTest = await axios.get('http://localhost:8000/');
+      const serverTest = await api.get(`${BACKEND_URL}/`);
       console.log('Server is running:', serverTest.data);
       
       // Test simple API endpoint
-      const apiTest = await axios.get('http://localhost:8000/api/test');
+      const apiTest = await api.get('/test');
       console.log('API is accessible:', apiTest.data);
       
       // Test POS route
-      const posTest = await axios.get('http://localhost:8000/api/staff/orders/pos-test');
+      const posTest = await api.get('/staff/orders/pos-test');
       console.log('POS route is accessible:', posTest.data);
       
       // Test debug routes (optional)
       try {
-        const debugTest = await axios.get('http://localhost:8000/api/debug/routes');
+        const debugTest = await api.get('/debug/routes');
         console.log('Available routes:', debugTest.data);
       } catch (debugError: any) {
-        console.log('Debug routes not available:', debugError.response?.data);
+        console.log('Debug routes not available:', debugError.data);
       }
       
       toast.success('Backend connection test successful! Check console for details.');
     } catch (error: any) {
       console.error('Backend connection test failed:', error);
-      console.error('Error status:', error.response?.status);
-      console.error('Error message:', error.response?.data);
-      toast.error(`Backend test failed: ${error.response?.status} - ${error.response?.data?.message || error.message}`);
+      console.error('Error status:', error.status);
+      console.error('Error message:', error.data);
+      toast.error(`Backend test failed: ${error.status} - ${error.message}`);
     }
   };
 
@@ -119,6 +117,10 @@ export default function POSPage() {
           toast.error(`Only ${product.stock} items available in stock`);
           return prevCart;
         }
+        if (product.controlled && newQuantity > getMaxControlledQuantity(product.controlled)) {
+          toast.error(`${product.name} is a controlled drug: at most ${getMaxControlledQuantity(product.controlled)} per sale`);
+          return prevCart;
+        }
         return prevCart.map(item =>
           item.product._id === product._id
             ? { ...item, quantity: newQuantity }
@@ -142,6 +144,10 @@ export default function POSPage() {
       toast.error(`Only ${product.stock} items available in stock`);
       return;
     }
+    if (product?.controlled && newQuantity > getMaxControlledQuantity(product.controlled)) {
+      toast.error(`${product.name} is a controlled drug: at most ${getMaxControlledQuantity(product.controlled)} per sale`);
+      return;
+    }
 
     setCart(prevCart =>
       prevCart.map(item =>
@@ -159,19 +165,38 @@ export default function POSPage() {
   const clearCart = () => {
     setCart([]);
     setCustomer({ name: '', phone: '', email: '' });
-    setPaymentMethod('cash');
+    setTenders([]);
+    setPrescriptionReference('');
   };
 
-  const getSubtotal = () => {
-    return cart.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+  const controlledLines = cart.map(item => ({ item: item.product, quantity: item.quantity }));
+  const needsPrescriptionReference = requiresPrescriptionReference(controlledLines);
+
+  // Counter sales are handed over in store, so only tax applies
+  const pricing = calculatePricing(cart.map(item => ({
+    price: item.product.price,
+    quantity: item.quantity,
+    category: item.product.category,
+    prescription: item.product.prescription,
+  })), pricingRules, { delivery: false });
+
+  const payment = reconcileTenders(pricing.total, tenders.map((tender): Tender => ({
+    method: tender.method,
+    amount: Number(tender.amount) || 0,
+    reference: tender.reference.trim() || undefined,
+  })));
+
+  // New tenders start at whatever is still owed
+  const addTender = (method: TenderMethod) => {
+    setTenders(prev => [...prev, { method, amount: payment.balance > 0 ? payment.balance.toFixed(2) : '', reference: '' }]);
   };
 
-  const getTax = () => {
-    return getSubtotal() * 0.05; // 5% tax
+  const updateTender = (index: number, changes: Partial<TenderDraft>) => {
+    setTenders(prev => prev.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
   };
 
-  const getTotal = () => {
-    return getSubtotal() + getTax();
+  const removeTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
   };
 
   const filteredProducts = products.filter(product => {
@@ -198,6 +223,28 @@ export default function POSPage() {
       return;
     }
 
+    if (!pricingLoaded) {
+      toast.error(pricingError ?? 'Tax and shipping rates are still loading');
+      return;
+    }
+
+    const [controlledError] = checkControlledLimits(controlledLines);
+    if (controlledError) {
+      toast.error(controlledError);
+      return;
+    }
+
+    if (needsPrescriptionReference && !prescriptionReference.trim()) {
+      toast.error('Enter the prescription the controlled drugs are dispensed against');
+      return;
+    }
+
+    if (!payment.settled) {
+      toast.error(payment.error || `Rs. ${payment.balance.toFixed(2)} is still due`);
+      return;
+    }
+    const paymentMethod = payment.tenders.length === 1 ? payment.tenders[0].method : 'split';
+
     setProcessingPayment(true);
     try {
       const token = sessionStorage.getItem('token');
@@ -214,68 +261,41 @@ export default function POSPage() {
           price: item.product.price
         })),
         paymentMethod: paymentMethod,
-        subtotal: getSubtotal(),
-        tax: getTax(),
-        total: getTotal(),
-        description: `POS Sale - ${customer.name}`
+        tenders: payment.tenders,
+        subtotal: pricing.subtotal,
+        tax: pricing.tax,
+        taxLines: pricing.taxLines,
+        total: pricing.total,
+        description: `POS Sale - ${customer.name}`,
+        ...(needsPrescriptionReference && { prescriptionReference: prescriptionReference.trim() }),
       };
 
       console.log('Order data being sent:', orderData);
 
-      const response = await axios.post('http://localhost:8000/api/staff/orders/pos', orderData, {
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      const order = await createPosOrder(orderData);
 
-      console.log('Order created successfully:', response.data);
-      console.log('Full order response:', response.data);
-      // Find the correct orderId
-      let orderId = response.data._id || response.data.id || response.data.orderId || response.data.order?._id;
-      if (!orderId) {
-        // Recursively search for _id in the response object
-        function findId(obj: any): string | undefined {
-          if (!obj || typeof obj !== 'object') return undefined;
-          if (obj._id) return obj._id;
-          for (const key of Object.keys(obj)) {
-            const found = findId(obj[key]);
-            if (found) return found;
-          }
-          return undefined;
-        }
-        orderId = findId(response.data);
-        if (orderId) {
-          console.warn('OrderId found recursively:', orderId);
-        } else {
-          console.error('Could not find orderId in order creation response:', response.data);
-          toast.error('Could not find order ID after order creation. Payment will not be recorded.');
-        }
-      }
-      if (orderId) {
-        // Record payment in the Payment model
-        try {
-          await axios.post('http://localhost:8000/api/payments', {
-            orderId: orderId,
-            paymentMethod: paymentMethod,
-            amount: getTotal(),
-            paymentType: 'pos'
-          });
-          toast.success('Payment recorded in database!');
-        } catch (err) {
-          toast.error('Failed to record payment in database');
-          console.error('Payment record error:', err);
-        }
+      console.log('Order created successfully:', order);
+      // Counter payments are taken at the till, so they are recorded rather than charged
+      try {
+        await paymentService.recordTenders(order._id, payment.tenders);
+        toast.success('Payment recorded in database!');
+      } catch (err) {
+        toast.error('Failed to record payment in database');
+        console.error('Payment record error:', err);
       }
 
       setReceiptData({
-        orderId: response.data._id || `POS-${Date.now()}`,
+        orderId: order._id,
         customer: customer,
         items: cart,
         paymentMethod: paymentMethod,
-        subtotal: getSubtotal(),
-        tax: getTax(),
-        total: getTotal(),
+        tenders: payment.tenders,
+        tendered: payment.tendered,
+        change: payment.change,
+        subtotal: pricing.subtotal,
+        tax: pricing.tax,
+        taxLines: pricing.taxLines,
+        total: pricing.total,
         date: new Date().toLocaleString()
       });
 
@@ -294,17 +314,17 @@ export default function POSPage() {
       
     } catch (error: any) {
       console.error('Payment processing failed:', error);
-      console.error('Error response:', error.response?.data);
-      console.error('Error status:', error.response?.status);
+      console.error('Error status:', error.status);
       
-      if (error.response?.status === 401) {
-        toast.error('Authentication failed. Please login again.');
-      } else if (error.response?.status === 400) {
-        toast.error(`Validation error: ${error.response?.data?.message || 'Invalid data provided'}`);
-      } else if (error.response?.status === 500) {
+      if (error.status === 401) {
+        // Expired sessions are handled by the API client
+        return;
+      } else if (error.status === 400) {
+        toast.error(`Validation error: ${error.message || 'Invalid data provided'}`);
+      } else if (error.status === 500) {
         toast.error('Server error. Please try again later.');
       } else {
-        toast.error(error.response?.data?.message || 'Payment failed. Please check your connection and try again.');
+        toast.error(error.message || 'Payment failed. Please check your connection and try again.');
       }
     } finally {
       setProcessingPayment(false);
@@ -414,7 +434,7 @@ export default function POSPage() {
                   <span>Rs. ${receiptData.subtotal.toFixed(2)}</span>
                 </div>
                 <div class="item">
-                  <span>Tax (15%):</span>
+                  <span>${formatTaxLabel(receiptData.taxLines)}:</span>
                   <span>Rs. ${receiptData.tax.toFixed(2)}</span>
                 </div>
                 <div class="item" style="font-size: 14px; border-top: 1px solid #000; padding-top: 5px;">
@@ -424,7 +444,23 @@ export default function POSPage() {
               </div>
               
               <div class="payment-info">
-                <p style="margin: 5px 0;"><strong>Payment Method:</strong> ${receiptData.paymentMethod.toUpperCase()}</p>
+                <p style="margin: 5px 0;"><strong>Payment Method:</strong> ${formatPaymentMethod(receiptData.paymentMethod).toUpperCase()}</p>
+                ${receiptData.tenders.map((tender: Tender) => `
+                  <div class="item">
+                    <span>${formatPaymentMethod(tender.method)}${tender.reference ? ` (${tender.reference})` : ''}</span>
+                    <span>Rs. ${tender.amount.toFixed(2)}</span>
+                  </div>
+                `).join('')}
+                <div class="item">
+                  <span>Tendered:</span>
+                  <span>Rs. ${receiptData.tendered.toFixed(2)}</span>
+                </div>
+                ${receiptData.change > 0 ? `
+                  <div class="item">
+                    <span>Change:</span>
+                    <span>Rs. ${receiptData.change.toFixed(2)}</span>
+                  </div>
+                ` : ''}
                 <p style="margin: 5px 0; font-size: 11px;">✅ Payment Completed Successfully</p>
               </div>
               
@@ -602,7 +638,7 @@ export default function POSPage() {
                         <p className="text-blue-100">{cart.length} items</p>
                       </div>
                       <div className="text-right">
-                        <div className="text-2xl font-bold">Rs. {getTotal().toFixed(2)}</div>
+                        <div className="text-2xl font-bold">Rs. {pricing.total.toFixed(2)}</div>
                         <div className="text-sm text-blue-100">Total Amount</div>
                       </div>
                     </div>
@@ -636,6 +672,11 @@ export default function POSPage() {
                               <div className="flex-1 min-w-0">
                                 <h4 className="text-sm font-semibold text-gray-900 truncate">{item.product.name}</h4>
                                 <p className="text-xs text-gray-500 mb-2">Rs. {item.product.price} each</p>
+                                {item.product.controlled && (
+                                  <p className="text-xs text-purple-700 mb-2">
+                                    {formatSchedule(item.product.controlled)} · {getDaysSupply(item.product.controlled, item.quantity)} days&apos; supply · max {getMaxControlledQuantity(item.product.controlled)}
+                                  </p>
+                                )}
                                 
                                 <div className="flex items-center justify-between">
                                   <div className="flex items-center space-x-2">
@@ -722,32 +763,77 @@ export default function POSPage() {
                         onChange={(e) => setCustomer({ ...customer, email: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       />
+                      {needsPrescriptionReference && (
+                        <input
+                          type="text"
+                          placeholder="Prescription Reference * (controlled drugs)"
+                          value={prescriptionReference}
+                          onChange={(e) => setPrescriptionReference(e.target.value)}
+                          className="w-full px-3 py-2 border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                          required
+                        />
+                      )}
                     </div>
                   </div>
 
-                  {/* Payment Method */}
+                  {/* Payment */}
                   <div className="p-6 border-t border-gray-200">
                     <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
                       <svg className="w-5 h-5 mr-2 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
                       </svg>
-                      Payment Method
+                      Payment
                     </h3>
                     <div className="grid grid-cols-2 gap-3">
-                      {['cash', 'card', 'upi', 'bank_transfer'].map((method) => (
+                      {TENDER_METHODS.map((method) => (
                         <button
                           key={method}
-                          onClick={() => setPaymentMethod(method)}
-                          className={`p-3 rounded-lg border-2 text-sm font-medium transition-colors ${
-                            paymentMethod === method
-                              ? 'border-blue-500 bg-blue-50 text-blue-700'
-                              : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
-                          }`}
+                          onClick={() => addTender(method)}
+                          className="p-3 rounded-lg border-2 text-sm font-medium transition-colors border-gray-200 bg-white text-gray-700 hover:border-blue-500 hover:bg-blue-50"
                         >
-                          {method.charAt(0).toUpperCase() + method.slice(1).replace('_', ' ')}
+                          + {formatPaymentMethod(method)}
                         </button>
                       ))}
                     </div>
+                    {tenders.length > 0 && (
+                      <div className="mt-4 space-y-2">
+                        {tenders.map((tender, index) => (
+                          <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                            <div className="flex items-center gap-2">
+                              <span className="w-24 text-sm font-medium text-gray-700">{formatPaymentMethod(tender.method)}</span>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={tender.amount}
+                                onChange={(e) => updateTender(index, { amount: e.target.value })}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Amount"
+                              />
+                              <button
+                                onClick={() => removeTender(index)}
+                                className="text-red-500 hover:text-red-700 p-1"
+                                title="Remove"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
+                            </div>
+                            {tender.method !== 'cash' && (
+                              <input
+                                type="text"
+                                value={tender.reference}
+                                onChange={(e) => updateTender(index, { reference: e.target.value })}
+                                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Reference (optional)"
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {payment.error && <p className="text-red-500 text-sm mt-2">{payment.error}</p>}
                   </div>
 
                   {/* Billing Summary */}
@@ -761,27 +847,45 @@ export default function POSPage() {
                     <div className="space-y-3">
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Items ({cart.length}):</span>
-                        <span className="font-medium">Rs. {getSubtotal().toFixed(2)}</span>
+                        <span className="font-medium">Rs. {pricing.subtotal.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Tax (5%):</span>
-                        <span className="font-medium">Rs. {getTax().toFixed(2)}</span>
+                        <span className="text-gray-600">{formatTaxLabel(pricing.taxLines)}:</span>
+                        <span className="font-medium">Rs. {pricing.tax.toFixed(2)}</span>
                       </div>
                       <div className="border-t border-gray-300 pt-3">
                         <div className="flex justify-between text-lg font-bold text-gray-900">
                           <span>Total Amount:</span>
-                          <span>Rs. {getTotal().toFixed(2)}</span>
+                          <span>Rs. {pricing.total.toFixed(2)}</span>
                         </div>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Tendered:</span>
+                        <span className="font-medium">Rs. {payment.tendered.toFixed(2)}</span>
+                      </div>
+                      {payment.change > 0 ? (
+                        <div className="flex justify-between text-sm font-semibold text-green-700">
+                          <span>Change Due:</span>
+                          <span>Rs. {payment.change.toFixed(2)}</span>
+                        </div>
+                      ) : (
+                        <div className={`flex justify-between text-sm font-semibold ${payment.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          <span>Balance Due:</span>
+                          <span>Rs. {payment.balance.toFixed(2)}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   {/* Action Buttons */}
                   <div className="p-6 border-t border-gray-200">
                     <div className="space-y-3">
+                      {pricingError && (
+                        <p className="text-sm text-red-600">{pricingError}</p>
+                      )}
                       <button
                         onClick={processPayment}
-                        disabled={cart.length === 0 || processingPayment || !customer.name || !customer.phone}
+                        disabled={!pricingLoaded || cart.length === 0 || processingPayment || !customer.name || !customer.phone || !payment.settled || (needsPrescriptionReference && !prescriptionReference.trim())}
                         className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-4 px-4 rounded-lg font-bold text-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105"
                       >
                         {processingPayment ? (
@@ -797,7 +901,7 @@ export default function POSPage() {
                             <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
                             </svg>
-                            Complete Billing - Rs. {getTotal().toFixed(2)}
+                            Complete Billing - Rs. {pricing.total.toFixed(2)}
                           </div>
                         )}
                       </button>
@@ -892,7 +996,7 @@ export default function POSPage() {
                         <span className="font-medium">Rs. {receiptData.subtotal.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Tax (5%):</span>
+                        <span className="text-gray-600">{formatTaxLabel(receiptData.taxLines)}:</span>
                         <span className="font-medium">Rs. {receiptData.tax.toFixed(2)}</span>
                       </div>
                       <div className="border-t border-gray-300 pt-2">
@@ -907,10 +1011,30 @@ export default function POSPage() {
                     <div className="bg-gray-50 rounded-lg p-3">
                       <div className="text-center text-sm">
                         <p className="text-gray-600">
-                          <span className="font-medium">Payment Method:</span> {receiptData.paymentMethod.toUpperCase()}
+                          <span className="font-medium">Payment Method:</span> {formatPaymentMethod(receiptData.paymentMethod).toUpperCase()}
                         </p>
-                        <p className="text-gray-500 text-xs mt-1">Thank you for your purchase!</p>
                       </div>
+                      <div className="mt-2 space-y-1 text-sm">
+                        {receiptData.tenders.map((tender: Tender, index: number) => (
+                          <div key={index} className="flex justify-between">
+                            <span className="text-gray-600">
+                              {formatPaymentMethod(tender.method)}{tender.reference ? ` (${tender.reference})` : ''}
+                            </span>
+                            <span className="font-medium">Rs. {tender.amount.toFixed(2)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between border-t border-gray-200 pt-1">
+                          <span className="text-gray-600">Tendered:</span>
+                          <span className="font-medium">Rs. {receiptData.tendered.toFixed(2)}</span>
+                        </div>
+                        {receiptData.change > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Change:</span>
+                            <span className="font-medium">Rs. {receiptData.change.toFixed(2)}</span>
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-gray-500 text-xs mt-2 text-center">Thank you for your purchase!</p>
                     </div>
 
                     {/* Footer */}
@@ -920,8 +1044,12 @@ export default function POSPage() {
                     </div>
                   </div>
 
+                  <div className="mt-6">
+                    <InvoiceActions orderId={receiptData.orderId} />
+                  </div>
+
                   {/* Action Buttons */}
-                  <div className="mt-6 flex space-x-3">
+                  <div className="mt-3 flex space-x-3">
                     <button
                       onClick={() => setShowReceipt(false)}
                       className="flex-1 bg-gray-200 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
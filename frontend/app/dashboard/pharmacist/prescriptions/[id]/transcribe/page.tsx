@@ -0,0 +1,358 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { assetUrl } from '@/services/api';
+import inventoryService, { InventoryItem } from '@/services/inventory';
+import prescriptionService, { Prescription, PrescriptionLine, PrescriptionTranscription } from '@/services/prescriptions';
+import {
+  draftTranscription,
+  emptyPrescriptionLine,
+  FREQUENCIES,
+  suggestQuantity,
+  validateTranscription,
+} from '@/lib/prescriptions';
+import { useCan } from '@/lib/useCan';
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Products whose name shares a word with what the prescriber wrote, or everything if none do
+const getProductMatches = (inventory: InventoryItem[], drug: string) => {
+  const words = drug.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+  const matches = inventory.filter(item => words.some(word => item.name.toLowerCase().includes(word)));
+  return matches.length > 0 ? matches : inventory;
+};
+
+export default function TranscribePrescriptionPage() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id;
+  const router = useRouter();
+  const can = useCan();
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+  const [draft, setDraft] = useState<PrescriptionTranscription | null>(null);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [allergyInput, setAllergyInput] = useState('');
+  const [activeImage, setActiveImage] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    Promise.all([prescriptionService.getPrescription(id), inventoryService.getStaffInventory()])
+      .then(([loaded, items]) => {
+        setPrescription(loaded);
+        setDraft(draftTranscription(loaded));
+        setInventory(items.filter(item => item.status === 'active').sort((a, b) => a.name.localeCompare(b.name)));
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'Failed to load the prescription'));
+  }, [id]);
+
+  const editable = !!prescription && (prescription.status === 'pending' || prescription.status === 'processing')
+    && can('prescriptions.approve');
+
+  const updateDraft = (changes: Partial<PrescriptionTranscription>) =>
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const updateLine = (index: number, changes: Partial<PrescriptionLine>) => {
+    if (!draft) return;
+    updateDraft({
+      lines: draft.lines.map((line, i) => {
+        if (i !== index) return line;
+        const updated = { ...line, ...changes };
+        // Keep the quantity in step with the directions until the pharmacist overrides it
+        const before = suggestQuantity(line);
+        if (!('quantity' in changes) && before !== null && line.quantity === before) {
+          updated.quantity = suggestQuantity(updated) ?? updated.quantity;
+        }
+        return updated;
+      }),
+    });
+  };
+
+  const linkProduct = (index: number, productId: string) => {
+    const product = inventory.find(item => item._id === productId);
+    updateLine(index, { productId: product?._id, productName: product?.name });
+  };
+
+  const addAllergy = () => {
+    if (!draft || !allergyInput.trim()) return;
+    updateDraft({ patient: { ...draft.patient, allergies: [...draft.patient.allergies, allergyInput.trim()] } });
+    setAllergyInput('');
+  };
+
+  const handleSave = async () => {
+    if (!draft || !id) return;
+    const problems = validateTranscription(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    try {
+      setSaving(true);
+      await prescriptionService.transcribePrescription(id, draft);
+      toast.success('Prescription transcribed');
+      router.push('/dashboard/pharmacist/prescriptions');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the transcription');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute role="pharmacist">
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role="pharmacist" />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-7xl mx-auto">
+            <Link href="/dashboard/pharmacist/prescriptions" className="text-sm text-blue-600 hover:underline">
+              ← Back to prescriptions
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">Transcribe Prescription</h1>
+            <p className="text-gray-600 mb-8">
+              Enter the prescription as written and link each medicine to the product that will be dispensed.
+            </p>
+
+            {loadError ? (
+              <p className="text-red-600">{loadError}</p>
+            ) : !prescription || !draft ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                {/* Uploaded images */}
+                <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-4 h-fit lg:sticky lg:top-8">
+                  <div className="relative h-[60vh] bg-gray-100 rounded-lg overflow-hidden">
+                    {prescription.images[activeImage]?.toLowerCase().endsWith('.pdf') ? (
+                      <div className="h-full flex items-center justify-center">
+                        <a
+                          href={assetUrl(prescription.images[activeImage])}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          Open PDF in a new tab
+                        </a>
+                      </div>
+                    ) : prescription.images[activeImage] ? (
+                      <Image
+                        src={assetUrl(prescription.images[activeImage])}
+                        alt={`Prescription ${activeImage + 1}`}
+                        fill
+                        sizes="40vw"
+                        className="object-contain"
+                      />
+                    ) : (
+                      <p className="h-full flex items-center justify-center text-gray-500">No images uploaded</p>
+                    )}
+                  </div>
+                  {prescription.images.length > 1 && (
+                    <div className="flex gap-2 mt-3">
+                      {prescription.images.map((_, index) => (
+                        <button
+                          key={index}
+                          onClick={() => setActiveImage(index)}
+                          className={`px-3 py-1 rounded text-sm ${activeImage === index ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                        >
+                          {index + 1}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="mt-4 text-sm text-gray-600 space-y-1">
+                    <p><span className="font-medium">Customer:</span> {prescription.name} ({prescription.phone})</p>
+                    <p><span className="font-medium">Substitutes allowed:</span> {prescription.substitutes}</p>
+                    {prescription.notes && <p><span className="font-medium">Notes:</span> {prescription.notes}</p>}
+                  </div>
+                </div>
+
+                {/* Structured prescription */}
+                <fieldset disabled={!editable} className="lg:col-span-3 space-y-6">
+                  {!editable && (
+                    <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                      This prescription is {prescription.status} and can no longer be changed.
+                    </p>
+                  )}
+
+                  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Prescriber</h2>
+                    <div className="grid grid-cols-2 gap-4">
+                      <input className={inputClass} placeholder="Name" value={draft.prescriber.name}
+                        onChange={e => updateDraft({ prescriber: { ...draft.prescriber, name: e.target.value } })} />
+                      <input className={inputClass} placeholder="Registration number" value={draft.prescriber.registrationNumber}
+                        onChange={e => updateDraft({ prescriber: { ...draft.prescriber, registrationNumber: e.target.value } })} />
+                      <input className={inputClass} placeholder="Clinic or hospital (optional)" value={draft.prescriber.clinic ?? ''}
+                        onChange={e => updateDraft({ prescriber: { ...draft.prescriber, clinic: e.target.value } })} />
+                      <input className={inputClass} placeholder="Phone (optional)" value={draft.prescriber.phone ?? ''}
+                        onChange={e => updateDraft({ prescriber: { ...draft.prescriber, phone: e.target.value } })} />
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Patient</h2>
+                    <div className="grid grid-cols-3 gap-4">
+                      <input className={inputClass} placeholder="Name" value={draft.patient.name}
+                        onChange={e => updateDraft({ patient: { ...draft.patient, name: e.target.value } })} />
+                      <input type="date" className={inputClass} value={draft.patient.dateOfBirth?.slice(0, 10) ?? ''}
+                        onChange={e => updateDraft({ patient: { ...draft.patient, dateOfBirth: e.target.value || undefined } })} />
+                      <select className={inputClass} value={draft.patient.gender ?? ''}
+                        onChange={e => updateDraft({ patient: { ...draft.patient, gender: e.target.value || undefined } })}>
+                        <option value="">Gender</option>
+                        <option value="male">Male</option>
+                        <option value="female">Female</option>
+                        <option value="other">Other</option>
+                      </select>
+                    </div>
+                    <div className="mt-4">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Allergies</p>
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {draft.patient.allergies.length === 0 && <span className="text-sm text-gray-500">None recorded</span>}
+                        {draft.patient.allergies.map((allergy, index) => (
+                          <span key={index} className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-red-50 text-red-700 text-sm">
+                            {allergy}
+                            <button
+                              type="button"
+                              onClick={() => updateDraft({
+                                patient: { ...draft.patient, allergies: draft.patient.allergies.filter((_, i) => i !== index) },
+                              })}
+                              className="text-red-400 hover:text-red-600"
+                            >
+                              ✕
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <input className={inputClass} placeholder="Add an allergy" value={allergyInput}
+                          onChange={e => setAllergyInput(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addAllergy(); } }} />
+                        <button type="button" onClick={addAllergy} className="px-4 py-2 bg-gray-100 rounded-lg text-sm hover:bg-gray-200">
+                          Add
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Validity</h2>
+                    <div className="grid grid-cols-2 gap-4">
+                      <label className="text-sm text-gray-700">
+                        Issued on
+                        <input type="date" className={`${inputClass} mt-1`} value={draft.issuedAt}
+                          onChange={e => updateDraft({ issuedAt: e.target.value })} />
+                      </label>
+                      <label className="text-sm text-gray-700">
+                        Valid until
+                        <input type="date" className={`${inputClass} mt-1`} value={draft.validUntil}
+                          onChange={e => updateDraft({ validUntil: e.target.value })} />
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Medicines</h2>
+                    <div className="space-y-4">
+                      {draft.lines.map((line, index) => (
+                        <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                          <div className="grid grid-cols-2 gap-3">
+                            <input className={inputClass} placeholder="Drug as written" value={line.drug}
+                              onChange={e => updateLine(index, { drug: e.target.value })} />
+                            <select className={inputClass} value={line.productId ?? ''} onChange={e => linkProduct(index, e.target.value)}>
+                              <option value="">Link to a product…</option>
+                              {getProductMatches(inventory, line.drug).map(item => (
+                                <option key={item._id} value={item._id}>
+                                  {item.name}{item.packSize ? ` (${item.packSize})` : ''} · {item.stock} in stock
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="grid grid-cols-3 gap-3">
+                            <input className={inputClass} placeholder="Strength, e.g. 500 mg" value={line.strength}
+                              onChange={e => updateLine(index, { strength: e.target.value })} />
+                            <input className={inputClass} placeholder="Dose, e.g. 1 tablet" value={line.dose}
+                              onChange={e => updateLine(index, { dose: e.target.value })} />
+                            <select className={inputClass} value={line.frequency} onChange={e => updateLine(index, { frequency: e.target.value })}>
+                              {FREQUENCIES.map(frequency => (
+                                <option key={frequency.code} value={frequency.code}>{frequency.code} · {frequency.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="grid grid-cols-3 gap-3">
+                            <label className="text-xs text-gray-600">
+                              Duration (days)
+                              <input type="number" min={1} className={`${inputClass} mt-1`} value={line.durationDays}
+                                onChange={e => updateLine(index, { durationDays: parseInt(e.target.value, 10) || 0 })} />
+                            </label>
+                            <label className="text-xs text-gray-600">
+                              Quantity
+                              <input type="number" min={1} className={`${inputClass} mt-1`} value={line.quantity}
+                                onChange={e => updateLine(index, { quantity: parseInt(e.target.value, 10) || 0 })} />
+                            </label>
+                            <label className="text-xs text-gray-600">
+                              Refills
+                              <input type="number" min={0} className={`${inputClass} mt-1`} value={line.refills}
+                                onChange={e => updateLine(index, { refills: parseInt(e.target.value, 10) || 0 })} />
+                            </label>
+                          </div>
+                          <div className="flex gap-3">
+                            <input className={inputClass} placeholder="Instructions, e.g. after meals (optional)" value={line.instructions ?? ''}
+                              onChange={e => updateLine(index, { instructions: e.target.value })} />
+                            {draft.lines.length > 1 && (
+                              <button
+                                type="button"
+                                onClick={() => updateDraft({ lines: draft.lines.filter((_, i) => i !== index) })}
+                                className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => updateDraft({ lines: [...draft.lines, emptyPrescriptionLine()] })}
+                      className="mt-4 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg text-sm hover:bg-blue-50"
+                    >
+                      + Add medicine
+                    </button>
+                  </div>
+
+                  {errors.length > 0 && (
+                    <ul className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 list-disc list-inside">
+                      {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+
+                  {editable && (
+                    <div className="flex justify-end gap-3">
+                      <Link
+                        href="/dashboard/pharmacist/prescriptions"
+                        className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-medium"
+                      >
+                        Cancel
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+                      >
+                        {saving ? 'Saving...' : 'Save Transcription'}
+                      </button>
+                    </div>
+                  )}
+                </fieldset>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -1,48 +1,23 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import Sidebar from '@/components/layout/Sidebar';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import Image from 'next/image';
-import axios from 'axios';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-
-interface Prescription {
-  _id: string;
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  duration: string;
-  gender: string;
-  allergies: string;
-  hasAllergies: string;
-  payment: string;
-  substitutes: string;
-  frequency: string;
-  notes: string;
-  images: string[];
-  createdAt: string;
-  status: 'pending' | 'processing' | 'approved' | 'rejected';
-  verified?: boolean;
-  verificationStatus?: 'pending' | 'processing' | 'verified';
-  rejectionReason?: string;
-}
-
-interface InventoryItem {
-  _id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  status: "active" | "inactive";
-  prescription: "required" | "not_required";
-  image?: string;
-  images?: string[];
-}
+import { assetUrl, productImageUrl } from '@/services/api';
+import inventoryService, { InventoryItem } from '@/services/inventory';
+import prescriptionService, { Prescription } from '@/services/prescriptions';
+import { createPrescriptionOrder, getCustomerOrders, testOrderAuth } from '@/services/orders';
+import { getUserRoles } from '@/services/auth';
+import { useCan } from '@/lib/useCan';
+import { isPrescriptionExpired, isTranscribed, parseAllergies } from '@/lib/prescriptions';
+import { CheckedProduct, checkInteractions, MIN_OVERRIDE_REASON_LENGTH } from '@/lib/interactions';
+import PrescriptionLines from '@/components/PrescriptionLines';
+import RefillQueue from '@/components/RefillQueue';
+import InteractionWarnings from '@/components/InteractionWarnings';
 
 interface SelectedProduct {
   item: InventoryItem;
@@ -62,11 +37,7 @@ function showToast(message: string, type: 'success' | 'error' = 'error') {
 
 const getProductImage = (product: InventoryItem) => {
   const imagePath = product.images && product.images.length > 0 ? product.images[0] : product.image;
-  if (!imagePath) {
-    return '/placeholder.png';
-  }
-  const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-  return `http://localhost:8000/uploads/products/${filename}`;
+  return productImageUrl(imagePath);
 };
 
 export default function PrescriptionsPage() {
@@ -89,7 +60,11 @@ export default function PrescriptionsPage() {
   const [rejectionReason, setRejectionReason] = useState('');
   const [currentImageIdx, setCurrentImageIdx] = useState(0);
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [orderHistory, setOrderHistory] = useState<CheckedProduct[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
   const router = useRouter();
+  const can = useCan();
 
   useEffect(() => {
     fetchPrescriptions();
@@ -122,9 +97,7 @@ export default function PrescriptionsPage() {
 
   const fetchPrescriptions = async () => {
     try {
-      const response = await fetch('http://localhost:8000/api/prescriptions');
-      if (!response.ok) throw new Error('Failed to fetch prescriptions');
-      const data = await response.json();
+      const data = await prescriptionService.getPrescriptions();
       setPrescriptions(data);
     } catch (error) {
       console.error('Error fetching prescriptions:', error);
@@ -135,8 +108,8 @@ export default function PrescriptionsPage() {
 
   const fetchInventory = async () => {
     try {
-      const token = sessionStorage.getItem('token') || sessionStorage.getItem('staffToken');
-      const user = sessionStorage.getItem('user') || sessionStorage.getItem('staffUser');
+      const token = sessionStorage.getItem('token');
+      const user = sessionStorage.getItem('user');
       
       if (!token || !user) {
         showToast('Please login to access inventory', 'error');
@@ -144,29 +117,19 @@ export default function PrescriptionsPage() {
       }
 
       const userData = JSON.parse(user);
-      if (userData.role !== 'pharmacist') {
+      if (!getUserRoles(userData).includes('pharmacist')) {
         showToast('Unauthorized access', 'error');
         return;
       }
 
-      const response = await axios.get('http://localhost:8000/api/staff/inventory', {
-        headers: { 
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.data) {
-        setInventory(response.data);
+      const data = await inventoryService.getStaffInventory();
+      if (data) {
+        setInventory(data);
       }
     } catch (error: any) {
       console.error('Error fetching inventory:', error);
-      if (error.response?.status === 401) {
-        showToast('Session expired. Please login again', 'error');
-        // Optionally redirect to login
-        // router.push('/login');
-      } else {
-        showToast(error.response?.data?.message || 'Failed to fetch inventory', 'error');
+      if (error.status !== 401) {
+        showToast(error.message || 'Failed to fetch inventory', 'error');
       }
     }
   };
@@ -178,7 +141,7 @@ export default function PrescriptionsPage() {
 
   const handleImageClick = (image: string) => {
     if (isPdfFile(image)) {
-      window.open(`http://localhost:8000${image}`, '_blank');
+      window.open(assetUrl(image), '_blank');
     } else {
       setSelectedImage(image);
       setShowLightbox(true);
@@ -188,10 +151,7 @@ export default function PrescriptionsPage() {
   const handleVerify = async (id: string) => {
     try {
       setIsVerifying(true);
-      const response = await fetch(`http://localhost:8000/api/prescriptions/${id}/verify`, {
-        method: 'PUT',
-      });
-      if (!response.ok) throw new Error('Failed to verify prescription');
+      await prescriptionService.verifyPrescription(id);
       await fetchPrescriptions();
       setShowModal(false);
     } catch (error) {
@@ -203,10 +163,7 @@ export default function PrescriptionsPage() {
 
   const handleApprove = async (id: string) => {
     try {
-      const response = await fetch(`http://localhost:8000/api/prescriptions/${id}/approve`, {
-        method: 'PUT',
-      });
-      if (!response.ok) throw new Error('Failed to approve prescription');
+      await prescriptionService.approvePrescription(id);
       await fetchPrescriptions();
       setShowModal(false);
     } catch (error) {
@@ -220,12 +177,7 @@ export default function PrescriptionsPage() {
       return;
     }
     try {
-      const response = await fetch(`http://localhost:8000/api/prescriptions/${id}/reject`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ rejectionReason }),
-      });
-      if (!response.ok) throw new Error('Failed to reject prescription');
+      await prescriptionService.rejectPrescription(id, rejectionReason);
       await fetchPrescriptions();
       setShowModal(false);
       setShowRejectModal(false);
@@ -242,13 +194,7 @@ export default function PrescriptionsPage() {
 
     try {
       setIsDeleting(true);
-      const response = await fetch(`http://localhost:8000/api/prescriptions/${id}`, {
-        method: 'DELETE',
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to delete prescription');
-      }
+      await prescriptionService.deletePrescription(id);
 
       await fetchPrescriptions();
       setShowModal(false);
@@ -281,9 +227,34 @@ export default function PrescriptionsPage() {
   const handleProductSelection = (prescription: Prescription) => {
     setSelectedPrescription(prescription);
     setShowProductSelection(true);
-    setSelectedProducts([]);
+    // Start from the products linked when the prescription was transcribed
+    setSelectedProducts((prescription.lines ?? []).flatMap(line => {
+      const item = inventory.find(product => product._id === line.productId);
+      return item && item.stock > 0 ? [{ item, quantity: Math.min(line.quantity, item.stock) }] : [];
+    }));
+    setOverrideReason('');
+    setOrderHistory([]);
+    setHistoryError(null);
+    // What the patient has bought recently is checked for interactions too
+    getCustomerOrders(undefined, prescription.email)
+      .then(orders => setOrderHistory(orders
+        .filter(order => order.status !== 'cancelled')
+        .flatMap(order => order.items.map(item => ({ name: item.name, orderedAt: order.date ?? order.createdAt })))))
+      .catch(() => setHistoryError("The patient's recent orders could not be loaded, so they were not checked."));
   };
 
+  const interactionWarnings = useMemo(() => {
+    if (!selectedPrescription) return [];
+    return checkInteractions(
+      selectedProducts.map(({ item }) => ({ name: item.name, description: item.description, tags: item.tags })),
+      selectedPrescription.patient?.allergies ?? parseAllergies(selectedPrescription),
+      orderHistory,
+    );
+  }, [selectedPrescription, selectedProducts, orderHistory]);
+
+  // Orders with warnings need the pharmacist to record why they are going ahead
+  const needsOverrideReason = interactionWarnings.length > 0 && overrideReason.trim().length < MIN_OVERRIDE_REASON_LENGTH;
+
   const handleQuantityChange = (item: InventoryItem, change: number) => {
     setSelectedProducts(prev => {
       const existing = prev.find(p => p.item._id === item._id);
@@ -310,40 +281,6 @@ export default function PrescriptionsPage() {
     return selectedProducts.reduce((total, { item, quantity }) => total + (item.price * quantity), 0);
   };
 
-  const testModelSchema = async () => {
-    try {
-      const response = await axios.get('http://localhost:8000/api/orders/test-model');
-      console.log('Order model schema:', response.data);
-      return response.data;
-    } catch (error: any) {
-      console.error('Error testing model schema:', error.response?.data);
-      return null;
-    }
-  };
-
-  const testAuthentication = async () => {
-    try {
-      const token = sessionStorage.getItem('token') || sessionStorage.getItem('staffToken');
-      if (!token) {
-        console.log('No token found');
-        return false;
-      }
-
-      const response = await axios.get('http://localhost:8000/api/orders/test-auth', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      console.log('Authentication test successful:', response.data);
-      return true;
-    } catch (error: any) {
-      console.error('Authentication test failed:', error.response?.data);
-      return false;
-    }
-  };
-
   const handleProceedToOrder = async () => {
     try {
       setIsPlacingOrder(true);
@@ -354,82 +291,54 @@ export default function PrescriptionsPage() {
       }
 
       // Test authentication first
-      const authTest = await testAuthentication();
+      const authTest = await testOrderAuth();
       if (!authTest) {
         showToast('Authentication failed. Please login again.', 'error');
         setIsPlacingOrder(false);
         return;
       }
 
-      // Test model schema to see what fields are required
-      const modelTest = await testModelSchema();
-      if (modelTest) {
-        console.log('Required fields:', modelTest.requiredPaths);
-      }
-
-      const token = sessionStorage.getItem('token') || sessionStorage.getItem('staffToken');
-      if (!token) {
-        showToast('Please login to create order', 'error');
-        setIsPlacingOrder(false);
-        return;
-      }
-
       const orderData = {
         prescriptionId: selectedPrescription._id,
         items: selectedProducts.map(product => ({
           productId: product.item._id,
           quantity: product.quantity
         })),
-        paymentMethod: selectedPrescription.payment
+        paymentMethod: selectedPrescription.payment,
+        ...(interactionWarnings.length > 0 && {
+          interactionOverride: {
+            reason: overrideReason.trim(),
+            warnings: interactionWarnings.map(warning => warning.message),
+          },
+        }),
       };
 
       console.log('Sending order data:', orderData);
-      console.log('Using token:', token ? 'Token exists' : 'No token');
 
-      const response = await axios.post('http://localhost:8000/api/orders', orderData, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      console.log('Order creation response:', response.data);
+      await createPrescriptionOrder(orderData);
 
-      if (response.data.success) {
-        showToast('Order created successfully', 'success');
-        setShowProductSelection(false);
-        setSelectedProducts([]);
-        // Optionally refresh the prescriptions list
-        fetchPrescriptions();
-        setIsPlacingOrder(false);
-      } else {
-        showToast(response.data.message || 'Failed to create order', 'error');
-        setIsPlacingOrder(false);
-      }
+      showToast('Order created successfully', 'success');
+      setShowProductSelection(false);
+      setSelectedProducts([]);
+      // Optionally refresh the prescriptions list
+      fetchPrescriptions();
+      setIsPlacingOrder(false);
     } catch (error: any) {
       console.log('Error creating order:', error);
-      console.error('Error response:', error.response?.data);
-      console.error('Error status:', error.response?.status);
-      console.error('Validation errors:', error.response?.data?.error);
-      console.error('Full error response:', JSON.stringify(error.response?.data, null, 2));
-      
-      if (error.response?.status === 401) {
-        showToast('Authentication failed. Please login again.', 'error');
-        // Optionally redirect to login
-        // router.push('/login');
-      } else if (error.response?.status === 400) {
-        const errorMessage = error.response.data.error 
-          ? Array.isArray(error.response.data.error) 
-            ? error.response.data.error.join(', ') 
-            : error.response.data.error
-          : error.response.data.message || 'Invalid order data';
-        showToast(errorMessage, 'error');
-      } else if (error.response?.status === 404) {
-        showToast(error.response.data.message || 'Prescription or product not found', 'error');
-      } else if (error.response?.status === 500) {
+      console.error('Error status:', error.status);
+      console.error('Full error response:', JSON.stringify(error.data, null, 2));
+
+      if (error.status === 401) {
+        // Expired sessions are handled by the API client
+        return;
+      } else if (error.status === 400) {
+        showToast(error.message || 'Invalid order data', 'error');
+      } else if (error.status === 404) {
+        showToast(error.message || 'Prescription or product not found', 'error');
+      } else if (error.status === 500) {
         showToast('Server error. Please try again later.', 'error');
       } else {
-        showToast(error.response?.data?.message || 'Failed to create order', 'error');
+        showToast(error.message || 'Failed to create order', 'error');
       }
       setIsPlacingOrder(false);
     }
@@ -529,6 +438,12 @@ export default function PrescriptionsPage() {
               </div>
             </div>
 
+            <RefillQueue
+              prescriptions={prescriptions}
+              canApprove={can('prescriptions.fulfil')}
+              onApproved={fetchPrescriptions}
+            />
+
             {/* Prescriptions Table */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
               <div className="px-6 py-4 border-b border-gray-200">
@@ -578,8 +493,22 @@ export default function PrescriptionsPage() {
                           <div className="text-sm text-gray-500">{prescription.city}</div>
                         </td>
                         <td className="px-6 py-4">
-                          <div className="text-sm text-gray-900">{prescription.duration}</div>
-                          <div className="text-sm text-gray-500">{prescription.frequency}</div>
+                          {isTranscribed(prescription) ? (
+                            <>
+                              <div className="text-sm text-gray-900">
+                                {prescription.lines!.length} medicine{prescription.lines!.length === 1 ? '' : 's'}
+                              </div>
+                              <div className={`text-sm ${isPrescriptionExpired(prescription) ? 'text-red-600' : 'text-gray-500'}`}>
+                                {prescription.prescriber?.name}
+                                {isPrescriptionExpired(prescription) && ' · Expired'}
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <div className="text-sm text-gray-900">{prescription.duration}</div>
+                              <div className="text-sm text-amber-600">Not transcribed</div>
+                            </>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
@@ -609,7 +538,15 @@ export default function PrescriptionsPage() {
                               </svg>
                               View
                             </button>
-                            {prescription.status === 'approved' && (
+                            {(prescription.status === 'pending' || prescription.status === 'processing') && can('prescriptions.approve') && (
+                              <Link
+                                href={`/dashboard/pharmacist/prescriptions/${prescription._id}/transcribe`}
+                                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-purple-700 bg-purple-100 hover:bg-purple-200 transition-colors"
+                              >
+                                {isTranscribed(prescription) ? 'Edit Transcription' : 'Transcribe'}
+                              </Link>
+                            )}
+                            {prescription.status === 'approved' && can('prescriptions.fulfil') && (
                               <button
                                 onClick={() => handleProductSelection(prescription)}
                                 className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
@@ -788,7 +725,7 @@ export default function PrescriptionsPage() {
                                 </div>
                               ) : (
                                 <Image
-                                  src={`http://localhost:8000${image}`}
+                                  src={assetUrl(image)}
                                   alt={`Prescription ${index + 1}`}
                                   fill
                                   priority
@@ -805,12 +742,34 @@ export default function PrescriptionsPage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Structured prescription */}
+                  <div className="mt-6 bg-gray-50 rounded-xl p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h4 className="text-lg font-semibold text-gray-900">Transcribed Prescription</h4>
+                      {(selectedPrescription.status === 'pending' || selectedPrescription.status === 'processing') && can('prescriptions.approve') && (
+                        <Link
+                          href={`/dashboard/pharmacist/prescriptions/${selectedPrescription._id}/transcribe`}
+                          className="text-sm font-medium text-blue-600 hover:underline"
+                        >
+                          {isTranscribed(selectedPrescription) ? 'Edit transcription' : 'Transcribe now'}
+                        </Link>
+                      )}
+                    </div>
+                    {isTranscribed(selectedPrescription) ? (
+                      <PrescriptionLines prescription={selectedPrescription} />
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        Not transcribed yet. It must be transcribed before it can be approved.
+                      </p>
+                    )}
+                  </div>
                 </div>
 
                 {/* Action Buttons */}
                 <div className="bg-gray-50 px-6 py-4 border-t border-gray-200">
                   <div className="flex justify-end space-x-3">
-                    {selectedPrescription.status === 'pending' && (
+                    {selectedPrescription.status === 'pending' && can('prescriptions.approve') && (
                       <button
                         onClick={() => handleVerify(selectedPrescription._id)}
                         className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
@@ -827,7 +786,7 @@ export default function PrescriptionsPage() {
                         ) : 'Verify Document'}
                       </button>
                     )}
-                    {selectedPrescription.status === 'processing' && (
+                    {selectedPrescription.status === 'processing' && can('prescriptions.approve') && (
                       <>
                         <button
                           onClick={() => setShowRejectModal(true)}
@@ -837,7 +796,9 @@ export default function PrescriptionsPage() {
                         </button>
                         <button
                           onClick={() => handleApprove(selectedPrescription._id)}
-                          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                          disabled={!isTranscribed(selectedPrescription) || isPrescriptionExpired(selectedPrescription)}
+                          title={!isTranscribed(selectedPrescription) ? 'Transcribe the prescription first' : undefined}
+                          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
                         >
                           Approve
                         </button>
@@ -924,7 +885,7 @@ export default function PrescriptionsPage() {
                                 </div>
                               ) : (
                                 <Image
-                                  src={`http://localhost:8000${selectedPrescription.images[currentImageIdx]}`}
+                                  src={assetUrl(selectedPrescription.images[currentImageIdx])}
                                   alt={`Prescription ${currentImageIdx + 1}`}
                                   fill
                                   priority
@@ -1111,6 +1072,17 @@ export default function PrescriptionsPage() {
                         )}
                       </div>
 
+                      {selectedProducts.length > 0 && (
+                        <div className="mt-6">
+                          <InteractionWarnings
+                            warnings={interactionWarnings}
+                            historyError={historyError}
+                            overrideReason={overrideReason}
+                            onOverrideReasonChange={setOverrideReason}
+                          />
+                        </div>
+                      )}
+
                       <div className="mt-6 flex justify-end gap-3 border-t pt-6">
                         <button
                           onClick={() => setShowProductSelection(false)}
@@ -1120,8 +1092,8 @@ export default function PrescriptionsPage() {
                         </button>
                         <button
                           onClick={handleProceedToOrder}
-                          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center justify-center gap-2"
-                          disabled={selectedProducts.length === 0 || isPlacingOrder}
+                          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center justify-center gap-2 disabled:opacity-50"
+                          disabled={selectedProducts.length === 0 || isPlacingOrder || needsOverrideReason}
                         >
                           {isPlacingOrder ? (
                             <>
@@ -1192,13 +1164,13 @@ export default function PrescriptionsPage() {
                 <div className="relative w-4/5 h-4/5">
                   {isPdfFile(selectedImage) ? (
                     <iframe
-                      src={`http://localhost:8000${selectedImage}`}
+                      src={assetUrl(selectedImage)}
                       className="w-full h-full"
                       title="PDF Viewer"
                     />
                   ) : (
                     <Image
-                      src={`http://localhost:8000${selectedImage}`}
+                      src={assetUrl(selectedImage)}
                       alt="Prescription"
                       fill
                       priority
@@ -1,6 +1,8 @@
 import './globals.css';
 import { CartProvider } from '../context/CartContext';
 import { Toaster } from 'react-hot-toast';
+import SessionWatcher from '../components/auth/SessionWatcher';
+import ImpersonationBanner from '../components/auth/ImpersonationBanner';
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
@@ -8,6 +10,8 @@ export default function RootLayout({ children }: { children: React.ReactNode })
       <body>
         <CartProvider>
           <Toaster position="top-right" reverseOrder={false} />
+          <SessionWatcher />
+          <ImpersonationBanner />
           <main>{children}</main>
         </CartProvider>
       </body>
@@ -1,11 +1,14 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable react/no-unescaped-entities */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import authService from '@/services/auth';
+import authService, { User } from '@/services/auth';
+import { isTwoFactorChallenge, TwoFactorChallenge } from '@/services/twoFactor';
+import TwoFactorLoginStep from '@/components/auth/TwoFactorLoginStep';
+import { AttemptStatus, getAttemptStatus } from '@/services/attempts';
+import { formatCountdown } from '@/lib/utils';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import { Dialog } from '@headlessui/react';
@@ -32,6 +35,16 @@ export default function LoginPage() {
   const [forgotSuccess, setForgotSuccess] = useState('');
   const { setIsLoggedIn } = useCart();
   const [rememberMe, setRememberMe] = useState(false);
+  const sessionExpired = searchParams.get('reason') === 'expired';
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [loginAttempts, setLoginAttempts] = useState<AttemptStatus | null>(null);
+  const [otpExpiresAt, setOtpExpiresAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const loginLockedFor = loginAttempts?.lockedUntil ? loginAttempts.lockedUntil - now : 0;
+  const loginWaitFor = loginAttempts?.retryAt ? loginAttempts.retryAt - now : 0;
+  const otpRemaining = otpExpiresAt ? otpExpiresAt - now : 0;
+  const otpExpired = otpExpiresAt !== null && otpRemaining <= 0;
 
   // Prefill email if remembered
   useEffect(() => {
@@ -43,6 +56,23 @@ export default function LoginPage() {
     }
   }, []);
 
+  // Show earlier failures for the typed email so a reload does not hide a lockout
+  useEffect(() => {
+    setNow(Date.now());
+    setLoginAttempts(formData.email ? getAttemptStatus('login', formData.email) : null);
+  }, [formData.email]);
+
+  // Tick while a lockout, retry delay or reset code countdown is on screen
+  const countingDown = loginLockedFor > 0 || loginWaitFor > 0 || otpRemaining > 0;
+  useEffect(() => {
+    if (!countingDown) return;
+    const interval = window.setInterval(() => {
+      setNow(Date.now());
+      if (formData.email) setLoginAttempts(getAttemptStatus('login', formData.email));
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [countingDown, formData.email]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -79,6 +109,44 @@ export default function LoginPage() {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Runs once the user is fully signed in, with or without a second factor
+  const finishLogin = (user: User) => {
+    // Check if user is active
+    if (user.status === 'inactive') {
+      throw new Error('Your account is inactive. Please contact support.');
+    }
+
+    // Set isLoggedIn to true so CartContext fetches the cart
+    setIsLoggedIn(true);
+
+    // Redirect based on user role
+    switch (user.role) {
+      case 'admin':
+        router.push('/dashboard/admin');
+        break;
+      case 'customer': {
+        const redirect = searchParams.get('redirect');
+        if (redirect) {
+          router.push(redirect);
+        } else {
+          router.push('/dashboard/customer');
+        }
+        break;
+      }
+      case 'doctor':
+        router.push('/dashboard/doctor');
+        break;
+      case 'pharmacist':
+        router.push('/dashboard/pharmacist');
+        break;
+      case 'delivery':
+        router.push('/dashboard/delivery');
+        break;
+      default:
+        throw new Error('Invalid user role');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -103,47 +171,22 @@ export default function LoginPage() {
       }
       
       const response = await authService.login(formData.email, formData.password);
-      
-      // Check if user is active
-      if (response.user.status === 'inactive') {
-        throw new Error('Your account is inactive. Please contact support.');
-      }
 
-      // Set isLoggedIn to true so CartContext fetches the cart
-      setIsLoggedIn(true);
-
-      // Redirect based on user role
-      switch (response.user.role) {
-        case 'admin':
-          router.push('/dashboard/admin');
-          break;
-        case 'customer': {
-          const redirect = searchParams.get('redirect');
-          if (redirect) {
-            router.push(redirect);
-          } else {
-            router.push('/dashboard/customer');
-          }
-          break;
-        }
-        case 'doctor':
-          router.push('/dashboard/doctor');
-          break;
-        case 'pharmacist':
-          router.push('/dashboard/pharmacist');
-          break;
-        case 'delivery':
-          router.push('/dashboard/delivery');
-          break;
-        default:
-          throw new Error('Invalid user role');
+      // Staff with 2FA continue with a second step before a session exists
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response);
+        return;
       }
+
+      finishLogin(response.user);
     } catch (err: unknown) {
       if (err instanceof Error) {
         setError(err.message);
       } else {
         setError('An error occurred during login. Please try again.');
       }
+      setNow(Date.now());
+      setLoginAttempts(getAttemptStatus('login', formData.email));
       // Clear any partial auth data
       authService.logout();
     } finally {
@@ -151,16 +194,29 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactorVerified = (user: User) => {
+    try {
+      finishLogin(user);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred during login. Please try again.');
+      authService.logout();
+      setTwoFactorChallenge(null);
+    }
+  };
+
   const handleForgotPassword = async () => {
     setForgotError('');
     setForgotSuccess('');
     setForgotLoading(true);
     try {
-      await authService.forgotPassword(forgotEmail);
+      const { expiresAt } = await authService.forgotPassword(forgotEmail);
+      setNow(Date.now());
+      setOtpExpiresAt(expiresAt);
+      setForgotOTP('');
       setForgotSuccess('OTP sent to your email.');
       setForgotStep(2);
-    } catch (err: any) {
-      setForgotError(err?.response?.data?.message || 'Failed to send OTP.');
+    } catch (err: unknown) {
+      setForgotError(err instanceof Error ? err.message : 'Failed to send OTP.');
     } finally {
       setForgotLoading(false);
     }
@@ -174,8 +230,8 @@ export default function LoginPage() {
       await authService.verifyOTP(forgotEmail, forgotOTP);
       setForgotSuccess('OTP verified. Please enter your new password.');
       setForgotStep(3);
-    } catch (err: any) {
-      setForgotError(err?.response?.data?.message || 'Invalid or expired OTP.');
+    } catch (err: unknown) {
+      setForgotError(err instanceof Error ? err.message : 'Invalid or expired OTP.');
     } finally {
       setForgotLoading(false);
     }
@@ -196,9 +252,10 @@ export default function LoginPage() {
         setForgotNewPassword('');
         setForgotError('');
         setForgotSuccess('');
+        setOtpExpiresAt(null);
       }, 2000);
-    } catch (err: any) {
-      setForgotError(err?.response?.data?.message || 'Failed to reset password.');
+    } catch (err: unknown) {
+      setForgotError(err instanceof Error ? err.message : 'Failed to reset password.');
     } finally {
       setForgotLoading(false);
     }
@@ -238,6 +295,39 @@ export default function LoginPage() {
                 </div>
               )}
 
+                {/* Session Expired Notice */}
+                {sessionExpired && !error && (
+                  <div className="mb-6 bg-yellow-50 border-l-4 border-yellow-400 p-4">
+                    <p className="text-sm text-yellow-800">Your session has expired. Please log in again.</p>
+                  </div>
+                )}
+
+                {/* Failed Attempts Notice */}
+                {!twoFactorChallenge && loginLockedFor > 0 ? (
+                  <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4">
+                    <p className="text-sm text-red-700">
+                      Too many failed sign-in attempts. You can try again in {formatCountdown(loginLockedFor)}.
+                    </p>
+                  </div>
+                ) : !twoFactorChallenge && loginAttempts && loginAttempts.failures > 0 && (
+                  <div className="mb-6 bg-yellow-50 border-l-4 border-yellow-400 p-4">
+                    <p className="text-sm text-yellow-800">
+                      {loginAttempts.remainingAttempts} attempt{loginAttempts.remainingAttempts === 1 ? '' : 's'} remaining before sign-in is locked.
+                      {loginWaitFor > 0 && ` Please wait ${formatCountdown(loginWaitFor)} before trying again.`}
+                    </p>
+                  </div>
+                )}
+
+                {twoFactorChallenge ? (
+                  <TwoFactorLoginStep
+                    challenge={twoFactorChallenge}
+                    onVerified={handleTwoFactorVerified}
+                    onCancel={() => {
+                      setTwoFactorChallenge(null);
+                      setFormData(prev => ({ ...prev, password: '' }));
+                    }}
+                  />
+                ) : (
                 <form onSubmit={handleSubmit} className="space-y-6">
                   {/* Email Field */}
                   <div>
@@ -331,9 +421,9 @@ export default function LoginPage() {
                   {/* Submit Button */}
                   <button
                   type="submit"
-                  disabled={loading}
+                  disabled={loading || loginLockedFor > 0 || loginWaitFor > 0}
                     className={`w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
-                      loading ? 'opacity-75 cursor-not-allowed' : ''
+                      loading || loginLockedFor > 0 || loginWaitFor > 0 ? 'opacity-75 cursor-not-allowed' : ''
                     }`}
                   >
                     {loading ? (
@@ -357,6 +447,7 @@ export default function LoginPage() {
                     </Link>
                   </p>
                 </form>
+                )}
               </div>
 
               {/* Right Side - Professional Info Panel */}
@@ -495,17 +586,30 @@ export default function LoginPage() {
                   placeholder="Enter OTP"
                   value={forgotOTP}
                   onChange={e => setForgotOTP(e.target.value)}
-                  disabled={forgotLoading}
+                  disabled={forgotLoading || otpExpired}
                 />
+                  {otpExpiresAt && (
+                    <p className={`mt-2 text-xs ${otpExpired ? 'text-red-600' : 'text-gray-500'}`}>
+                      {otpExpired ? 'This code has expired.' : `Code expires in ${formatCountdown(otpRemaining)}`}
+                    </p>
+                  )}
                 </div>
                 <button
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg py-2 font-semibold focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 shadow-sm transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
                   onClick={handleVerifyOTP}
-                  disabled={forgotLoading || !forgotOTP}
+                  disabled={forgotLoading || !forgotOTP || otpExpired}
                   type="button"
                 >
                   {forgotLoading ? 'Verifying...' : 'Verify OTP'}
                 </button>
+                <button
+                  className="w-full text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                  onClick={handleForgotPassword}
+                  disabled={forgotLoading}
+                  type="button"
+                >
+                  Send a new code
+                </button>
               </div>
             )}
             {forgotStep === 3 && (
@@ -518,13 +622,28 @@ export default function LoginPage() {
                   placeholder="Enter new password"
                   value={forgotNewPassword}
                   onChange={e => setForgotNewPassword(e.target.value)}
-                  disabled={forgotLoading}
+                  disabled={forgotLoading || otpExpired}
                 />
+                  {/* The verified code is sent again with the new password, so it must still be valid */}
+                  {otpExpiresAt && (
+                    <p className={`mt-2 text-xs ${otpExpired ? 'text-red-600' : 'text-gray-500'}`}>
+                      {otpExpired ? (
+                        <>
+                          Your code has expired.{' '}
+                          <button type="button" className="font-medium text-blue-600 hover:text-blue-700" onClick={() => setForgotStep(1)}>
+                            Start again
+                          </button>
+                        </>
+                      ) : (
+                        `Complete the reset within ${formatCountdown(otpRemaining)}`
+                      )}
+                    </p>
+                  )}
                 </div>
                 <button
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg py-2 font-semibold focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 shadow-sm transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
                   onClick={handleResetPassword}
-                  disabled={forgotLoading || !forgotNewPassword}
+                  disabled={forgotLoading || !forgotNewPassword || otpExpired}
                   type="button"
                 >
                   {forgotLoading ? 'Resetting...' : 'Reset Password'}
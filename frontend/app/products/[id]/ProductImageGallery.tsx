@@ -2,6 +2,7 @@
 
 import Image from "next/image";
 import { useState, MouseEvent } from "react";
+import { productImageUrl } from "@/services/api";
 
 interface ProductImageGalleryProps {
     images: string[];
@@ -13,11 +14,7 @@ export const ProductImageGallery: React.FC<ProductImageGalleryProps> = ({ images
     const [position, setPosition] = useState({ x: 0, y: 0 });
 
     const getImageUrl = (imagePath: string) => {
-        if (!imagePath) return '';
-        if (imagePath.startsWith('http')) return imagePath;
-        
-        const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-        return `http://localhost:8000/uploads/products/${filename}`;
+        return productImageUrl(imagePath, '');
     }
 
     const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
@@ -2,9 +2,12 @@
 
 import { useState } from 'react';
 import { useCart } from '@/context/CartContext';
-import { useRouter, usePathname } from 'next/navigation';
+import { useRouter } from 'next/navigation';
 import { FaFacebookF, FaInstagram, FaTwitter, FaShareAlt } from "react-icons/fa";
 import { toast } from 'react-hot-toast';
+import { assetUrl } from '@/services/api';
+import WishlistButton from '@/components/WishlistButton';
+import type { ControlledDrug } from '@/services/inventory';
 
 interface Product {
     _id: string;
@@ -16,6 +19,8 @@ interface Product {
     category: string;
     brand?: string;
     packSize?: string;
+    weightKg?: number;
+    controlled?: ControlledDrug;
     tags?: string[];
     image?: string;
     prescription?: 'required' | 'not_required';
@@ -29,7 +34,6 @@ export const ProductInfo: React.FC<ProductInfoProps> = ({ product }) => {
     const [quantity, setQuantity] = useState(1);
     const { addToCart } = useCart();
     const router = useRouter();
-    const pathname = usePathname();
 
     const handleActionClick = () => {
         // Prevent adding out-of-stock products
@@ -38,25 +42,10 @@ export const ProductInfo: React.FC<ProductInfoProps> = ({ product }) => {
             return;
         }
 
-        const token = sessionStorage.getItem('token');
-        if (!token) {
-            router.push(`/login?redirect=${pathname}`);
-            return;
-        }
-
         if (product.prescription === 'required') {
             router.push(`/upload-prescription?product_id=${product._id}`);
         } else {
-            const getProductImage = (product: Product) => {
-                let imageUrl = '/placeholder.png';
-                if (product.image) {
-                    imageUrl = product.image;
-                }
-                if (imageUrl && !imageUrl.startsWith('http')) {
-                    return `http://localhost:8000/${imageUrl.replace(/\\/g, '/')}`;
-                }
-                return imageUrl;
-            };
+            const getProductImage = (product: Product) => assetUrl(product.image);
 
             addToCart({
                 id: product._id,
@@ -64,6 +53,9 @@ export const ProductInfo: React.FC<ProductInfoProps> = ({ product }) => {
                 price: product.packPrice || product.price,
                 quantity: quantity,
                 image: getProductImage(product),
+                category: product.category,
+                weightKg: product.weightKg,
+                controlled: product.controlled,
             });
             toast.success(`${quantity} x ${product.name} added to cart!`);
         }
@@ -76,7 +68,10 @@ export const ProductInfo: React.FC<ProductInfoProps> = ({ product }) => {
                 {product.stock > 0 ? 'In Stock' : 'Out of Stock'}
             </span>
           </div>
-          <h1 className="text-2xl md:text-3xl font-bold mb-2">{product.name}</h1>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-2xl md:text-3xl font-bold mb-2">{product.name}</h1>
+            <WishlistButton productId={product._id} className="flex-shrink-0 border border-gray-200" />
+          </div>
           
           <div className="text-2xl text-[#1A5CFF] font-bold mb-4">
             {product.packPrice 
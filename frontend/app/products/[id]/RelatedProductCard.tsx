@@ -3,8 +3,10 @@
 import Image from "next/image";
 import Link from "next/link";
 import { useCart } from '@/context/CartContext';
-import { useRouter, usePathname } from 'next/navigation';
+import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
+import { assetUrl } from '@/services/api';
+import type { ControlledDrug } from '@/services/inventory';
 
 // Duplicating interface to make component self-contained
 interface Product {
@@ -15,6 +17,9 @@ interface Product {
     image?: string;
     prescription?: 'required' | 'not_required';
     stock: number;
+    category?: string;
+    weightKg?: number;
+    controlled?: ControlledDrug;
 }
 
 interface RelatedProductCardProps {
@@ -24,22 +29,13 @@ interface RelatedProductCardProps {
 const RelatedProductCard: React.FC<RelatedProductCardProps> = ({ product }) => {
     const { cartItems, addToCart, updateQuantity, removeFromCart } = useCart();
     const router = useRouter();
-    const pathname = usePathname();
 
     const cartItem = cartItems.find(item => item.id === product._id);
 
-    const imageUrl = product.image
-        ? `http://localhost:8000/${product.image.replace(/\\/g, '/')}`
-        : '/placeholder.png';
+    const imageUrl = assetUrl(product.image);
 
     const handleAddToCart = (e: React.MouseEvent<HTMLButtonElement>) => {
         e.preventDefault(); // Prevent Link navigation
-        
-        const token = sessionStorage.getItem('token');
-        if (!token) {
-            router.push(`/login?redirect=${pathname}`);
-            return;
-        }
 
         if (product.prescription === 'required') {
             router.push(`/upload-prescription?product_id=${product._id}`);
@@ -57,6 +53,9 @@ const RelatedProductCard: React.FC<RelatedProductCardProps> = ({ product }) => {
             price: product.packPrice || product.price,
             quantity: 1,
             image: imageUrl,
+            category: product.category,
+            weightKg: product.weightKg,
+            controlled: product.controlled,
         });
         toast.success(`1 x ${product.name} added to cart!`);
     };
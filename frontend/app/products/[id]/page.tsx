@@ -11,22 +11,7 @@ import RelatedProductCard from './RelatedProductCard';
 import { useCart } from '@/context/CartContext';
 import CartSidebar from '@/components/CartSidebar';
 import Loader from '@/components/Loader';
-
-interface Product {
-    _id: string;
-    name: string;
-    description: string;
-    price: number;
-    packPrice?: number;
-    stock: number;
-    category: string;
-    brand?: string;
-    packSize?: string;
-    tags?: string[];
-    image?: string;
-    images?: string[];
-    prescription?: 'required' | 'not_required';
-}
+import productService, { Product } from '@/services/products';
 
 interface SupportItem {
     icon: JSX.Element;
@@ -70,39 +55,6 @@ const SupportInfoBox = () => {
   )
 };
 
-async function getProduct(id: string): Promise<Product | undefined> {
-  try {
-    const res = await fetch(`http://localhost:8000/api/products/${id}`, { 
-      cache: 'no-store',
-      signal: AbortSignal.timeout(5000) // 5 second timeout
-    });
-    if (!res.ok) {
-      console.warn(`Product endpoint returned ${res.status}: ${res.statusText}`);
-      return undefined;
-    }
-    return res.json();
-  } catch {
-    // Don't log the error to console to avoid the fetch failed error
-    return undefined;
-  }
-}
-
-async function getRelatedProducts(id: string): Promise<Product[]> {
-  try {
-    const res = await fetch(`http://localhost:8000/api/products/${id}/related`, { 
-      cache: 'no-store',
-      signal: AbortSignal.timeout(5000)
-    });
-    if (!res.ok) {
-      console.warn(`Related products endpoint returned ${res.status}: ${res.statusText}`);
-      return [];
-    }
-    return res.json();
-  } catch {
-    return [];
-  }
-}
-
 export default function ProductDetailPage() {
     const params = useParams();
     const id = params.id as string;
@@ -116,22 +68,14 @@ export default function ProductDetailPage() {
     React.useEffect(() => {
         const fetchProductData = async () => {
             try {
-                const productRes = await fetch(`http://localhost:8000/api/products/${id}`, { 
-                    cache: 'no-store'
-                });
-                if (!productRes.ok) {
-                    notFound();
-                    return;
-                }
-                const productData = await productRes.json();
+                const productData = await productService.getProduct(id);
                 setProduct(productData);
 
-                const relatedRes = await fetch(`http://localhost:8000/api/products/${id}/related`, { 
-                    cache: 'no-store'
-                });
-                if (relatedRes.ok) {
-                    const relatedData = await relatedRes.json();
+                try {
+                    const relatedData = await productService.getRelatedProducts(id);
                     setRelatedProducts(relatedData);
+                } catch {
+                    // Related products are optional
                 }
             } catch (error) {
                 console.error("Failed to fetch product data", error);
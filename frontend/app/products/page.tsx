@@ -9,6 +9,12 @@ import CartSidebar from '@/components/CartSidebar';
 import { toast } from 'react-hot-toast';
 import { useCart } from '@/context/CartContext';
 import Loader from '@/components/Loader';
+import { productImageUrl } from '@/services/api';
+import type { ControlledDrug } from '@/services/inventory';
+import productService from '@/services/products';
+import { categoryValueMap } from '@/lib/categories';
+import WishlistButton from '@/components/WishlistButton';
+import { isBackInStock } from '@/services/wishlist';
 
 // List of categories (should match sidebar)
 const categories = [
@@ -32,26 +38,6 @@ const categories = [
   'Instant Powdered Mixes'
 ];
 
-// Mapping from display name to backend value
-const categoryValueMap: { [key: string]: string } = {
-  'Adult Care': 'adult_care',
-  'Diabetic Care': 'diabetic_care',
-  'Hair Care': 'hair_care',
-  'Ayurveda': 'ayurveda',
-  'Skin Care': 'skin_care',
-  'Mother & Baby Care': 'mother_and_baby_care',
-  'Health & Wellness': 'health_and_wellness',
-  'Beauty Accessories': 'beauty_accessories',
-  'Cosmetics': 'cosmetics',
-  'Food Items': 'food_items',
-  'Health Monitoring Devices': 'health_monitoring_devices',
-  'Kids': 'kids',
-  'Household Remedies': 'household_remedies',
-  'Pet Care': 'pet_care',
-  'Beverages': 'beverages',
-  'Sexual Wellness': 'sexual_wellness',
-  'Instant Powdered Mixes': 'instant_powdered_mixes',
-};
 
 interface InventoryItem {
   _id: string;
@@ -61,6 +47,9 @@ interface InventoryItem {
   price: number;
   packPrice?: number;
   stock: number;
+  availableStock?: number;
+  weightKg?: number;
+  controlled?: ControlledDrug;
   status: 'active' | 'inactive';
   prescription: 'required' | 'not_required';
   image?: string;
@@ -89,7 +78,7 @@ export default function ProductPage() {
   const [originalStock, setOriginalStock] = useState<{[key: string]: number}>({});
 
   // Cart state from context
-  const { cartItems, addToCart, updateQuantity, removeFromCart, isLoggedIn } = useCart();
+  const { cartItems, addToCart, updateQuantity, removeFromCart, isLoggedIn, wishlist } = useCart();
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [hasHydrated, setHasHydrated] = useState(false);
 
@@ -101,34 +90,20 @@ export default function ProductPage() {
   // Helper function to get the correct image URL
   const getProductImage = (product: InventoryItem) => {
     const imagePath = product.images && product.images.length > 0 ? product.images[0] : product.image;
-    if (!imagePath) {
-      return '/placeholder.png';
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    return `http://localhost:8000/uploads/products/${filename}`;
+    return productImageUrl(imagePath);
   };
 
   // Fetch products from backend
   useEffect(() => {
     const fetchProducts = async () => {
       try {
-        const response = await fetch('http://localhost:8000/api/products', {
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch products');
-        }
-
-        const data = await response.json();
+        const data = await productService.getProducts();
         setProducts(data);
         
-        // Store original stock values
+        // Store original stock values, leaving out what other shoppers have reserved
         const stockMap: {[key: string]: number} = {};
         data.forEach((product: InventoryItem) => {
-          stockMap[product._id] = product.stock;
+          stockMap[product._id] = product.availableStock ?? product.stock;
         });
         setOriginalStock(stockMap);
         
@@ -173,19 +148,17 @@ export default function ProductPage() {
   // Helper to check login (now from context)
   // const isLoggedIn = () => { ... } // REMOVE
 
-  // Update handleAddToCart to redirect back to products page after login
+  // Guests can add to cart too; their cart is merged into the account at sign-in
   const handleAddToCart = (product: InventoryItem) => {
-    if (!isLoggedIn) {
-      toast.error('Please login to add items to cart');
-      router.push(`/login?redirect=${pathname}`);
-      return;
-    }
     addToCart({
       id: product._id,
       name: product.name,
       price: product.price,
       image: getProductImage(product),
       quantity: 1,
+      category: product.category,
+      weightKg: product.weightKg,
+      controlled: product.controlled,
     });
     toast.success('Added to cart');
   };
@@ -495,6 +468,7 @@ export default function ProductPage() {
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
             {getSortedAndFilteredProducts().map((product, index) => {
               const cartItem = cartItems.find((item) => item.id === product._id);
+              const savedItem = wishlist.find((item) => item.product === product._id);
               return (
                 <div 
                   key={product._id} 
@@ -507,6 +481,12 @@ export default function ProductPage() {
                       <span className="bg-red-600 text-white font-semibold px-2 py-1 text-xs rounded-r">Out of Stock</span>
                     </div>
                   )}
+                  {savedItem && isBackInStock(savedItem) && (
+                    <div className="absolute top-2 left-2 z-10">
+                      <span className="bg-green-600 text-white font-semibold px-2 py-1 text-xs rounded-r">Back in Stock</span>
+                    </div>
+                  )}
+                  <WishlistButton productId={product._id} className="absolute top-2 right-2 z-10" />
                   <div className="p-4 flex flex-col h-full">
                     <div className="flex justify-center mb-4">
                       <div className="relative h-48 w-full overflow-hidden rounded-t-lg bg-gray-200">
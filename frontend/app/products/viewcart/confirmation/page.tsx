@@ -5,6 +5,9 @@ import { useEffect, useState } from 'react';
 import Image from 'next/image';
 import { useCart } from '@/context/CartContext';
 import Loader from '@/components/Loader';
+import { productImageUrl } from '@/services/api';
+import { formatPaymentMethod } from '@/lib/tenders';
+import InvoiceActions from '@/components/InvoiceActions';
 
 interface OrderConfirmationData {
   orderNumber: string;
@@ -62,12 +65,7 @@ export default function OrderConfirmationPage() {
     if (!imagePath) {
       return '/images/package.png';
     }
-    if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
-      return imagePath;
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    const fullUrl = `http://localhost:8000/uploads/products/${filename}`;
-    return fullUrl;
+    return productImageUrl(imagePath);
   };
 
   // Calculate estimated delivery date (2-3 weekdays from now)
@@ -277,7 +275,7 @@ export default function OrderConfirmationPage() {
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-gray-600 font-medium">Payment Method:</span>
-                      <span className="font-semibold text-gray-800">{orderData.paymentMethod}</span>
+                      <span className="font-semibold text-gray-800">{formatPaymentMethod(orderData.paymentMethod)}</span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-gray-600 font-medium">Total Amount:</span>
@@ -386,6 +384,7 @@ export default function OrderConfirmationPage() {
 
               {/* Action Buttons with enhanced styling */}
               <div className="space-y-4">
+                {orderData.orderId && <InvoiceActions orderId={orderData.orderId} />}
                 <button
                   onClick={handleViewOrders}
                   className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 shadow-xl hover:shadow-2xl"
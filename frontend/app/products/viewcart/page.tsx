@@ -4,14 +4,31 @@ import { useCart } from '@/context/CartContext';
 import { useEffect, useState } from 'react';
 import Image from 'next/image';
 import Loader from '@/components/Loader';
+import { assetUrl } from '@/services/api';
+import { toast } from 'react-hot-toast';
+import authService from '@/services/auth';
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice';
+import PromoCodeInput from '@/components/PromoCodeInput';
+import SavedForLater from '@/components/SavedForLater';
+import { calculatePricing, formatTaxLabel } from '@/lib/pricing';
+import { usePricingRules } from '@/lib/usePricingRules';
+import { checkControlledLimits, getMaxControlledQuantity } from '@/lib/controlledDrugs';
 
 export default function ViewCartPage() {
   //const { cartItems: contextCartItems, removeFromCart, updateQuantity: updateContextQuantity } = useCart();
-  const { cartItems: contextCartItems, removeFromCart, updateQuantity, isLoggedIn, hasHydrated: contextHydrated } = useCart();
+  const { cartItems: contextCartItems, removeFromCart, updateQuantity, isLoggedIn, hasHydrated: contextHydrated, promo, saveForLater } = useCart();
   const [cartItems, setCartItems] = useState(contextCartItems);
   const [hasHydrated, setHasHydrated] = useState(false);
   const router = useRouter();
   const [loading, setLoading] = useState(true);
+  // Email of a signed-in customer who still has to verify; checkout stays closed until they do
+  const [unverifiedEmail, setUnverifiedEmail] = useState('');
+  const { rules: pricingRules } = usePricingRules();
+
+  useEffect(() => {
+    const user = authService.getCurrentUser();
+    setUnverifiedEmail(user && !authService.isEmailVerified() ? user.email : '');
+  }, [isLoggedIn]);
 
 // Debug: Log login state and cart context
   useEffect(() => {
@@ -29,29 +46,14 @@ export default function ViewCartPage() {
       console.log('Cart page - Context cart items:', contextCartItems);
       
 
-      if (token) {
-        setCartItems(contextCartItems);
-         console.log('Cart page - Using context cart items:', contextCartItems);
-          
-      } else {
-        // const stored = sessionStorage.getItem("cart");
-        // setCartItems(stored ? JSON.parse(stored) : []);
-        const stored = sessionStorage.getItem("cart");
-        const parsedCart = stored ? JSON.parse(stored) : [];
-        setCartItems(parsedCart);
-        console.log('Cart page - Using stored cart:', parsedCart);
-      }
+      // Guest carts are loaded from localStorage by the context as well
+      setCartItems(contextCartItems);
       setHasHydrated(true);
     }
     setLoading(false);
   }, [contextCartItems]);
 
-  const getImageUrl = (path: string) => {
-    if (path && !path.startsWith('http')) {
-      return `http://localhost:8000/${path.replace(/\\/g, '/')}`;
-    }
-    return path || '/placeholder.png';
-  };
+  const getImageUrl = (path: string) => assetUrl(path);
 
   const handleLocalQuantityChange = (id: string, newQuantity: number) => {
     setCartItems(currentItems =>
@@ -70,9 +72,23 @@ export default function ViewCartPage() {
     });
   };
 
+  const handleSaveForLater = async (id: string, name: string) => {
+    try {
+      await saveForLater(id);
+      toast.success(`${name} saved for later`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save for later');
+    }
+  };
+
   const isDirty = JSON.stringify(cartItems) !== JSON.stringify(contextCartItems);
 
-  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  // Checked against the saved cart, since that is what checkout orders
+  const controlledErrors = checkControlledLimits(contextCartItems.map(item => ({ item, quantity: item.quantity })));
+
+  // Shipping needs the delivery city, so it is only added at checkout
+  const pricing = calculatePricing(cartItems, pricingRules, { discount: promo?.discount, delivery: false });
+  const { subtotal, discount, tax, total } = pricing;
 
   if (loading) {
     return <Loader />;
@@ -181,10 +197,24 @@ export default function ViewCartPage() {
                           <button
                             className="w-10 h-10 bg-white border rounded-lg flex items-center justify-center text-slate-700 hover:bg-slate-100 transition-colors duration-200 font-bold text-xl"
                             onClick={() => handleLocalQuantityChange(item.id, item.quantity + 1)}
+                            disabled={!!item.controlled && item.quantity >= getMaxControlledQuantity(item.controlled)}
                           >
                             +
                           </button>
                         </div>
+                        {item.controlled && (
+                          <p className="mt-1 text-xs text-slate-500">
+                            Controlled medicine: at most {getMaxControlledQuantity(item.controlled)} per order
+                          </p>
+                        )}
+                        {isLoggedIn && (
+                          <button
+                            onClick={() => handleSaveForLater(item.id, item.name)}
+                            className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            Save for later
+                          </button>
+                        )}
                       </div>
                       <div className="flex flex-col items-end ml-6">
                         <span className="text-lg font-bold text-slate-800 mb-1">LKR {(item.price * item.quantity).toFixed(2)}</span>
@@ -209,6 +239,12 @@ export default function ViewCartPage() {
                 </div>
               )}
             </div>
+            {isLoggedIn && (
+              <div className="bg-white rounded-3xl shadow-2xl p-8 mb-6">
+                <h2 className="text-2xl font-bold text-slate-800 mb-2">Saved for Later</h2>
+                <SavedForLater />
+              </div>
+            )}
           </div>
           {/* Right: Order Summary */}
           <div className="w-full md:w-96 flex-shrink-0">
@@ -227,17 +263,46 @@ export default function ViewCartPage() {
                   <span className="font-medium text-slate-700">Subtotal</span>
                   <span className="font-semibold text-slate-800 text-lg">LKR {subtotal.toFixed(2)}</span>
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between items-center mb-4">
+                    <span className="font-medium text-emerald-700">Discount ({promo?.code})</span>
+                    <span className="font-semibold text-emerald-700">- LKR {discount.toFixed(2)}</span>
+                  </div>
+                )}
+                {tax > 0 && (
+                  <div className="flex justify-between items-center mb-4">
+                    <span className="font-medium text-slate-700">{formatTaxLabel(pricing.taxLines)}</span>
+                    <span className="font-semibold text-slate-800">LKR {tax.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center mb-4">
                   <span className="font-medium text-slate-700">Shipping</span>
-                  <span className="text-slate-500 text-sm">Calculated at checkout</span>
+                  <span className="text-slate-500 text-sm">{promo?.freeShipping ? 'Free' : 'Calculated at checkout'}</span>
                 </div>
                 <div className="border-t border-slate-200 pt-4 flex justify-between items-center">
                   <span className="font-bold text-lg text-slate-800">Total</span>
-                  <span className="font-bold text-xl text-slate-900">LKR {subtotal.toFixed(2)}</span>
+                  <span className="font-bold text-xl text-slate-900">LKR {total.toFixed(2)}</span>
                 </div>
               </div>
+              <div className="mb-6">
+                <PromoCodeInput />
+              </div>
+              {unverifiedEmail && (
+                <div className="mb-4">
+                  <EmailVerificationNotice
+                    email={unverifiedEmail}
+                    message="Verify your email address to place orders."
+                  />
+                </div>
+              )}
+              {controlledErrors.length > 0 && (
+                <ul className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 space-y-1">
+                  {controlledErrors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              )}
               <button
-                className="w-full bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 shadow-lg"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 shadow-lg disabled:bg-gray-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                disabled={!!unverifiedEmail || controlledErrors.length > 0}
                 onClick={() => {
                   console.log('Checkout button clicked - Current cart items:', cartItems);
                   console.log('Checkout button clicked - Context cart items:', contextCartItems);
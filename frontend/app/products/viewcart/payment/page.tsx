@@ -1,12 +1,22 @@
 "use client";
 import { useRouter } from "next/navigation";
 import { useCart } from '@/context/CartContext';
-import { useEffect, useState } from 'react';
-import { createOnlineOrder, CreateOrderData } from '@/services/orders';
+import { useEffect, useRef, useState } from 'react';
+import { createOnlineOrder, CreateOrderData, OnlinePaymentMethod, PlacedOrder } from '@/services/orders';
 import { toast } from 'react-hot-toast';
 import Image from 'next/image';
 import Loader from '@/components/Loader';
 import type { CartItem } from '@/context/CartContext';
+import { productImageUrl } from '@/services/api';
+import { CardBrand, CardFields, CardFieldsState, CardToken, chargeOrder, PaymentDeclinedError } from '@/services/paymentGateway';
+import CardFieldsElement from '@/components/CardFieldsElement';
+import authService from '@/services/auth';
+import { isReservationActive } from '@/services/reservations';
+import { formatCountdown } from '@/lib/utils';
+import { calculatePricing, formatTaxLabel } from '@/lib/pricing';
+import { usePricingRules } from '@/lib/usePricingRules';
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice';
+import { checkControlledLimits } from '@/lib/controlledDrugs';
 
 interface CustomerInfo {
   name: string;
@@ -17,25 +27,8 @@ interface CustomerInfo {
   postalCode: string;
 }
 
-interface CardInfo {
-  cardNumber: string;
-  expiryDate: string;
-  cvv: string;
-  cardholderName: string;
-}
-
-// Card type detection function
-const getCardType = (cardNumber: string): string => {
-  const cleanNumber = cardNumber.replace(/\s/g, '');
-  if (cleanNumber.startsWith('4')) return 'visa';
-  if (cleanNumber.startsWith('5')) return 'mastercard';
-  if (cleanNumber.startsWith('34') || cleanNumber.startsWith('37')) return 'amex';
-  if (cleanNumber.startsWith('6')) return 'discover';
-  return 'generic';
-};
-
 // Card type configuration
-const cardTypes = {
+const cardTypes: Record<CardBrand, { name: string; color: string; icon: React.ReactNode; pattern: RegExp }> = {
   visa: {
     name: 'Visa',
     color: 'from-blue-600 to-blue-800',
@@ -96,7 +89,7 @@ const cardTypes = {
 };
 
 export default function PaymentPage() {
-  const { cartItems, clearCart, hasHydrated } = useCart();
+  const { cartItems, clearCart, hasHydrated, reservation, reserveStock, setCheckingOut, promo } = useCart();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [orderPlaced, setOrderPlaced] = useState(false);
@@ -108,23 +101,52 @@ export default function PaymentPage() {
     city: '',
     postalCode: ''
   });
-  const [cardInfo, setCardInfo] = useState<CardInfo>({
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardholderName: ''
-  });
-  const [paymentMethod] = useState('card_payment'); // Only card payment now
-  const [errors, setErrors] = useState<Partial<CustomerInfo & CardInfo>>({});
+  const cardFields = useRef<CardFields | null>(null);
+  const [cardState, setCardState] = useState<CardFieldsState | null>(null);
+  const [cardError, setCardError] = useState('');
+  const placedOrder = useRef<PlacedOrder | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<OnlinePaymentMethod>('card_payment');
+  const [errors, setErrors] = useState<Partial<CustomerInfo>>({});
+  const [unverifiedEmail, setUnverifiedEmail] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const { rules: pricingRules, loaded: pricingLoaded, error: pricingError } = usePricingRules();
+  const reservationRemaining = reservation ? new Date(reservation.expiresAt).getTime() - now : 0;
+
+  // Hold the cart for the length of checkout. The context re-reserves with the checkout
+  // hold while this is set, including when the cart reloads on window focus.
+  useEffect(() => {
+    setCheckingOut(true);
+    return () => setCheckingOut(false);
+  }, [setCheckingOut]);
+
+  useEffect(() => {
+    if (!reservation) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [reservation]);
 
-  // Calculate totals
-  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const shipping = 500; // Fixed shipping cost
-  const total = subtotal + shipping;
+  useEffect(() => {
+    const user = authService.getCurrentUser();
+    setUnverifiedEmail(user && !authService.isEmailVerified() ? user.email : '');
+  }, []);
+
+  // Shipping depends on the delivery city, so totals update as the address is typed
+  const pricing = calculatePricing(cartItems, pricingRules, {
+    discount: promo?.discount,
+    freeShipping: promo?.freeShipping,
+    city: customerInfo.city,
+  });
+  const { subtotal, discount, shipping, tax, total } = pricing;
 
   // Get current card type
-  const currentCardType = getCardType(cardInfo.cardNumber);
-  const cardConfig = cardTypes[currentCardType as keyof typeof cardTypes];
+  const cardConfig = cardTypes[cardState?.brand ?? 'generic'];
+
+  // A different basket or payment method needs a new order. The cart reloads as a new
+  // array on window focus, so compare what is in it rather than the array itself.
+  const basketKey = cartItems.map(item => `${item.id}:${item.quantity}`).sort().join(',');
+  useEffect(() => {
+    placedOrder.current = null;
+  }, [basketKey, paymentMethod]);
 
   // Function to get the correct image URL
   const getProductImage = (product: CartItem) => {
@@ -132,42 +154,12 @@ export default function PaymentPage() {
       if (!imagePath) {
         return '/images/package.png';
       }
-      if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
-        return imagePath;
-    }
-    const filename = imagePath.replace(/\\/g, '/').split('/').pop();
-    const fullUrl = `http://localhost:8000/uploads/products/${filename}`;
-    return fullUrl;
-  };
-
-  // Format card number with spaces
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = matches && matches[0] || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return v;
-    }
-  };
-
-  // Format expiry date
-  const formatExpiryDate = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    if (v.length >= 2) {
-      return v.substring(0, 2) + '/' + v.substring(2, 4);
-    }
-    return v;
+    return productImageUrl(imagePath);
   };
 
   // Validate form
   const validateForm = (): boolean => {
-    const newErrors: Partial<CustomerInfo & CardInfo> = {};
+    const newErrors: Partial<CustomerInfo> = {};
     
     // Customer info validation
     if (!customerInfo.name.trim()) newErrors.name = 'Name is required';
@@ -178,17 +170,12 @@ export default function PaymentPage() {
     if (!customerInfo.city.trim()) newErrors.city = 'City is required';
     if (!customerInfo.postalCode.trim()) newErrors.postalCode = 'Postal code is required';
     
-    // Card info validation
-    if (!cardInfo.cardNumber.replace(/\s/g, '').trim()) newErrors.cardNumber = 'Card number is required';
-    else if (cardInfo.cardNumber.replace(/\s/g, '').length < 16) newErrors.cardNumber = 'Card number must be 16 digits';
-    if (!cardInfo.expiryDate.trim()) newErrors.expiryDate = 'Expiry date is required';
-    else if (!/^\d{2}\/\d{2}$/.test(cardInfo.expiryDate)) newErrors.expiryDate = 'Invalid expiry date format (MM/YY)';
-    if (!cardInfo.cvv.trim()) newErrors.cvv = 'CVV is required';
-    else if (cardInfo.cvv.length < 3) newErrors.cvv = 'CVV must be 3-4 digits';
-    if (!cardInfo.cardholderName.trim()) newErrors.cardholderName = 'Cardholder name is required';
-    
+    // The card fields validate themselves; only their verdict is visible here
+    const payByCard = paymentMethod === 'card_payment';
+    setCardError(!payByCard || cardState?.complete ? '' : cardState?.error || 'Card details are required');
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0 && (!payByCard || !!cardState?.complete);
   };
 
   // Handle form submission
@@ -197,7 +184,6 @@ export default function PaymentPage() {
     console.log('=== PAYMENT FORM SUBMISSION START ===');
     console.log('Cart items before submission:', cartItems);
     console.log('Customer info:', customerInfo);
-    console.log('Card info:', cardInfo);
     
     if (!validateForm()) {
       toast.error('Please fix the errors in the form');
@@ -207,83 +193,80 @@ export default function PaymentPage() {
       toast.error('Your cart is empty');
       return;
     }
+    if (!pricingLoaded) {
+      toast.error(pricingError ?? 'Tax and shipping rates are still loading');
+      return;
+    }
+    if (!authService.isEmailVerified()) {
+      toast.error('Please verify your email address before placing an order');
+      return;
+    }
+    const [controlledError] = checkControlledLimits(cartItems.map(item => ({ item, quantity: item.quantity })));
+    if (controlledError) {
+      toast.error(controlledError);
+      return;
+    }
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-      const userInfo = token ? JSON.parse(sessionStorage.getItem("userInfo") || sessionStorage.getItem("user") || '{}') : null;
-      const customerId = userInfo?._id || userInfo?.id;
-      const orderData: CreateOrderData = {
-        customer: {
-          name: customerInfo.name,
-          email: customerInfo.email,
-          phone: customerInfo.phone,
-          billingAddress: customerInfo.billingAddress,
-          city: customerInfo.city,
-          postalCode: customerInfo.postalCode
-        },
-        items: cartItems.map(item => ({
-          id: item.id,
-          name: item.name,
-          price: item.price,
-          quantity: item.quantity,
-          image: item.image
-        })),
-        paymentMethod: paymentMethod,
-        subtotal: subtotal,
-        shipping: shipping,
-        tax: 0, // No tax
-        total: total,
-        customerId: customerId
-      };
-      console.log('Order data being sent:', orderData);
-      
-      const order = await createOnlineOrder(orderData);
-      console.log('Order created successfully:', order);
+      let card: CardToken | null = null;
+      if (paymentMethod === 'card_payment') {
+        if (!cardFields.current) throw new Error('The card form is not ready yet');
+        card = await cardFields.current.tokenize();
+      }
 
-      // --- Save payment in backend payment database ---
-      // Robustly extract orderId
-      let orderId = (order as any)._id || (order as any).id || (order as any).orderId || (order as any).order?._id;
-      if (!orderId) {
-        // Recursively search for _id in the order object
-        function findId(obj: any): string | undefined {
-          if (!obj || typeof obj !== 'object') return undefined;
-          if (obj._id) return obj._id;
-          for (const key of Object.keys(obj)) {
-            const found = findId(obj[key]);
-            if (found) return found;
-          }
-          return undefined;
-        }
-        orderId = findId(order);
-        if (orderId) {
-          console.warn('OrderId found recursively:', orderId);
-        } else {
-          console.error('Could not find orderId in order creation response:', order);
-          toast.error('Could not find order ID after order creation. Payment will not be recorded.');
+      // A declined card leaves the order in place, so a retry only charges it again
+      if (!placedOrder.current) {
+        // Renew a lapsed hold; if stock ran out meanwhile the context trims the cart
+        const activeReservation = isReservationActive(reservation) && reservation.checkout
+          ? reservation
+          : await reserveStock(true);
+        if (activeReservation?.items.some(line => line.reserved < line.requested)) {
+          toast.error('Some items are no longer available. Please review your cart.');
+          return;
         }
+
+        const token = sessionStorage.getItem("token");
+        const userInfo = token ? JSON.parse(sessionStorage.getItem("userInfo") || sessionStorage.getItem("user") || '{}') : null;
+        const customerId = userInfo?._id || userInfo?.id;
+        const orderData: CreateOrderData = {
+          customer: {
+            name: customerInfo.name,
+            email: customerInfo.email,
+            phone: customerInfo.phone,
+            billingAddress: customerInfo.billingAddress,
+            city: customerInfo.city,
+            postalCode: customerInfo.postalCode
+          },
+          items: cartItems.map(item => ({
+            id: item.id,
+            name: item.name,
+            price: item.price,
+            quantity: item.quantity,
+            image: item.image
+          })),
+          paymentMethod: paymentMethod,
+          subtotal: subtotal,
+          discount: discount,
+          promoCode: promo?.code,
+          shipping: shipping,
+          tax: tax,
+          taxLines: pricing.taxLines,
+          total: total,
+          customerId: customerId,
+          reservationId: activeReservation?._id
+        };
+        console.log('Order data being sent:', orderData);
+      
+        placedOrder.current = await createOnlineOrder(orderData);
+        console.log('Order created successfully:', placedOrder.current);
       }
-      if (orderId) {
-        try {
-          await fetch('http://localhost:8000/api/payments', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${sessionStorage.getItem('token')}`
-            },
-            body: JSON.stringify({
-              orderId: orderId,
-              paymentMethod: paymentMethod,
-              amount: total,
-              paymentType: 'online'
-            })
-          });
-          toast.success('Payment recorded in database!');
-        } catch (err) {
-          toast.error('Failed to record payment in database');
-          console.error('Payment record error:', err);
-        }
+      const order = placedOrder.current;
+
+      // Cash on delivery orders are paid when the driver hands them over
+      if (card) {
+        await chargeOrder(order._id, card);
       }
-      // --- End payment save logic ---
+      placedOrder.current = null;
       
       toast.success('Order placed successfully! You will receive a confirmation email shortly.');
       setOrderPlaced(true); // Set flag to prevent redirect
@@ -295,7 +278,7 @@ export default function PaymentPage() {
       // Store order data for confirmation page
       const confirmationData = {
         orderNumber: order.orderNumber || `ORD-${Date.now()}`,
-        orderId: order._id || order.id,
+        orderId: order._id,
         total: total,
         items: cartItems,
         customer: customerInfo,
@@ -315,7 +298,11 @@ export default function PaymentPage() {
     } catch (error) {
       console.error('=== PAYMENT FORM SUBMISSION ERROR ===');
       console.error('Error creating order:', error);
-      toast.error('Failed to place order. Please try again.');
+      if (error instanceof PaymentDeclinedError) {
+        toast.error(`${error.message}. Please try another card.`);
+      } else {
+        toast.error(error instanceof Error && error.message ? error.message : 'Failed to place order. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -373,6 +360,21 @@ export default function PaymentPage() {
                 </div>
                 <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Customer Information</h2>
               </div>
+              {reservation && (
+                <div className={`mb-8 rounded-xl px-4 py-3 text-sm ${
+                  reservationRemaining > 60000 ? 'bg-blue-50 text-blue-800' : 'bg-amber-50 text-amber-800'
+                }`}>
+                  Your items are reserved for {formatCountdown(reservationRemaining)}. Complete payment before then to keep them.
+                </div>
+              )}
+              {unverifiedEmail && (
+                <div className="mb-8">
+                  <EmailVerificationNotice
+                    email={unverifiedEmail}
+                    message="Verify your email address to place orders."
+                  />
+                </div>
+              )}
               <form onSubmit={handleSubmit} className="space-y-8">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                   <div>
@@ -442,17 +444,17 @@ export default function PaymentPage() {
                     {errors.postalCode && <p className="text-red-500 text-sm mt-1">{errors.postalCode}</p>}
                   </div>
                 </div>
-                {/* Payment Method - Card Payment */}
+                {/* Payment Method */}
                 <div className="border-t border-slate-200 pt-8">
                   <h3 className="text-xl font-bold text-slate-800 mb-4">Payment Method</h3>
                   <div className="space-y-3">
-                    <div className="flex items-center p-5 border-2 border-blue-200 rounded-2xl bg-blue-50 shadow-sm">
+                    <label className={`flex items-center p-5 border-2 rounded-2xl shadow-sm cursor-pointer ${paymentMethod === 'card_payment' ? 'border-blue-200 bg-blue-50' : 'border-slate-200 bg-white'}`}>
                       <input
                         type="radio"
                         name="paymentMethod"
                         value="card_payment"
-                        checked
-                        readOnly
+                        checked={paymentMethod === 'card_payment'}
+                        onChange={() => setPaymentMethod('card_payment')}
                         className="w-5 h-5 text-blue-600 border-blue-300 focus:ring-blue-500 accent-blue-600"
                       />
                       <div className="ml-4">
@@ -464,163 +466,108 @@ export default function PaymentPage() {
                         </div>
                         <p className="text-sm text-slate-600">Pay securely with your card</p>
                       </div>
-                    </div>
+                    </label>
+                    <label className={`flex items-center p-5 border-2 rounded-2xl shadow-sm cursor-pointer ${paymentMethod === 'cash_on_delivery' ? 'border-blue-200 bg-blue-50' : 'border-slate-200 bg-white'}`}>
+                      <input
+                        type="radio"
+                        name="paymentMethod"
+                        value="cash_on_delivery"
+                        checked={paymentMethod === 'cash_on_delivery'}
+                        onChange={() => setPaymentMethod('cash_on_delivery')}
+                        className="w-5 h-5 text-blue-600 border-blue-300 focus:ring-blue-500 accent-blue-600"
+                      />
+                      <div className="ml-4">
+                        <div className="flex items-center gap-2">
+                          <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+                          </svg>
+                          <span className="font-semibold text-slate-800 text-lg">Cash on Delivery</span>
+                        </div>
+                        <p className="text-sm text-slate-600">Pay the driver in cash when your order arrives</p>
+                      </div>
+                    </label>
                   </div>
                 </div>
                 {/* Card Details */}
-                <div className="border-t border-slate-200 pt-8">
-                  <h3 className="text-xl font-bold text-slate-800 mb-6">Card Details</h3>
+                {paymentMethod === 'card_payment' && (
+                  <div className="border-t border-slate-200 pt-8">
+                    <h3 className="text-xl font-bold text-slate-800 mb-6">Card Details</h3>
                   
-                  {/* Card Preview */}
-                  <div className="mb-8">
-                    <div className={`relative w-full h-56 bg-gradient-to-br ${cardConfig.color} rounded-2xl p-6 text-white shadow-2xl transform transition-all duration-300 hover:scale-105`}>
-                      {/* Card Background Pattern */}
-                      <div className="absolute inset-0 bg-black/10 rounded-2xl"></div>
+                    {/* Card Preview */}
+                    <div className="mb-8">
+                      <div className={`relative w-full h-56 bg-gradient-to-br ${cardConfig.color} rounded-2xl p-6 text-white shadow-2xl transform transition-all duration-300 hover:scale-105`}>
+                        {/* Card Background Pattern */}
+                        <div className="absolute inset-0 bg-black/10 rounded-2xl"></div>
                       
-                      {/* Card Content */}
-                      <div className="relative z-10 h-full flex flex-col justify-between">
-                        {/* Top Section */}
-                        <div className="flex justify-between items-start">
-                          <div className="flex items-center gap-2">
+                        {/* Card Content */}
+                        <div className="relative z-10 h-full flex flex-col justify-between">
+                          {/* Top Section */}
+                          <div className="flex justify-between items-start">
+                            <div className="flex items-center gap-2">
+                              <div className="w-12 h-8 bg-white/20 rounded-lg flex items-center justify-center">
+                                {cardConfig.icon}
+                              </div>
+                              <span className="font-semibold text-lg">{cardConfig.name}</span>
+                            </div>
                             <div className="w-12 h-8 bg-white/20 rounded-lg flex items-center justify-center">
-                              {cardConfig.icon}
+                              <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                                <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/>
+                              </svg>
                             </div>
-                            <span className="font-semibold text-lg">{cardConfig.name}</span>
-                          </div>
-                          <div className="w-12 h-8 bg-white/20 rounded-lg flex items-center justify-center">
-                            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
-                              <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/>
-                            </svg>
                           </div>
-                        </div>
                         
-                        {/* Middle Section - Card Number */}
-                        <div className="text-center">
-                          <div className="text-2xl font-mono tracking-wider mb-2">
-                            {cardInfo.cardNumber || '•••• •••• •••• ••••'}
-                          </div>
-                          <div className="text-sm opacity-80">Card Number</div>
-                        </div>
-                        
-                        {/* Bottom Section */}
-                        <div className="flex justify-between items-end">
-                          <div>
-                            <div className="text-sm opacity-80 mb-1">Cardholder Name</div>
-                            <div className="font-semibold">
-                              {cardInfo.cardholderName || 'YOUR NAME'}
+                          {/* Middle Section - Card Number */}
+                          <div className="text-center">
+                            <div className="text-2xl font-mono tracking-wider mb-2">
+                              •••• •••• •••• {cardState?.last4 || '••••'}
                             </div>
+                            <div className="text-sm opacity-80">Card Number</div>
                           </div>
-                          <div className="text-right">
-                            <div className="text-sm opacity-80 mb-1">Expires</div>
-                            <div className="font-semibold">
-                              {cardInfo.expiryDate || 'MM/YY'}
+                        
+                          {/* Bottom Section */}
+                          <div className="flex justify-between items-end">
+                            <div className="text-sm opacity-80">
+                              {cardState?.complete ? 'Ready to pay' : 'Enter your card details below'}
                             </div>
                           </div>
                         </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Card Input Fields */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div className="md:col-span-2">
-                      <label className="block text-sm font-semibold text-slate-700 mb-2">Card Number *</label>
-                      <div className="relative">
-                        <input
-                          type="text"
-                          value={cardInfo.cardNumber}
-                          onChange={(e) => setCardInfo({...cardInfo, cardNumber: formatCardNumber(e.target.value)})}
-                          className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors text-lg bg-slate-50 pr-12 ${errors.cardNumber ? 'border-red-400' : 'border-slate-200'}`}
-                          placeholder="1234 5678 9012 3456"
-                          maxLength={19}
-                        />
-                        <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                          {cardInfo.cardNumber ? cardConfig.icon : (
-                            <div className="flex items-center gap-1">
-                              {cardTypes.visa.icon}
-                              {cardTypes.mastercard.icon}
-                              {cardTypes.amex.icon}
-                              {cardTypes.discover.icon}
-                            </div>
-                          )}
+                    {/* Card Input Fields, mounted by the payment provider */}
+                    <CardFieldsElement fieldsRef={cardFields} onChange={setCardState} />
+                    {cardError && <p className="text-red-500 text-sm mt-2">{cardError}</p>}
+
+                    {/* Supported Cards */}
+                    <div className="mt-6 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                      <p className="text-sm font-medium text-slate-700 mb-3">Supported Payment Methods:</p>
+                      <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-2">
+                          {cardTypes.visa.icon}
+                          <span className="text-xs font-medium text-slate-600">Visa</span>
                         </div>
-                      </div>
-                      {errors.cardNumber && <p className="text-red-500 text-sm mt-1">{errors.cardNumber}</p>}
-                    </div>
-                    
-                    <div className="md:col-span-2">
-                      <label className="block text-sm font-semibold text-slate-700 mb-2">Cardholder Name *</label>
-                      <input
-                        type="text"
-                        value={cardInfo.cardholderName}
-                        onChange={(e) => setCardInfo({...cardInfo, cardholderName: e.target.value.toUpperCase()})}
-                        className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors text-lg bg-slate-50 ${errors.cardholderName ? 'border-red-400' : 'border-slate-200'}`}
-                        placeholder="NAME ON CARD"
-                      />
-                      {errors.cardholderName && <p className="text-red-500 text-sm mt-1">{errors.cardholderName}</p>}
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-semibold text-slate-700 mb-2">Expiry Date *</label>
-                      <input
-                        type="text"
-                        value={cardInfo.expiryDate}
-                        onChange={(e) => setCardInfo({...cardInfo, expiryDate: formatExpiryDate(e.target.value)})}
-                        className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors text-lg bg-slate-50 ${errors.expiryDate ? 'border-red-400' : 'border-slate-200'}`}
-                        placeholder="MM/YY"
-                        maxLength={5}
-                      />
-                      {errors.expiryDate && <p className="text-red-500 text-sm mt-1">{errors.expiryDate}</p>}
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-semibold text-slate-700 mb-2">CVV *</label>
-                      <div className="relative">
-                        <input
-                          type="text"
-                          value={cardInfo.cvv}
-                          onChange={(e) => setCardInfo({...cardInfo, cvv: e.target.value.replace(/\D/g, '')})}
-                          className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors text-lg bg-slate-50 pr-12 ${errors.cvv ? 'border-red-400' : 'border-slate-200'}`}
-                          placeholder="123"
-                          maxLength={4}
-                        />
-                        <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                          <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                          </svg>
+                        <div className="flex items-center gap-2">
+                          {cardTypes.mastercard.icon}
+                          <span className="text-xs font-medium text-slate-600">Mastercard</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {cardTypes.amex.icon}
+                          <span className="text-xs font-medium text-slate-600">American Express</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {cardTypes.discover.icon}
+                          <span className="text-xs font-medium text-slate-600">Discover</span>
                         </div>
-                      </div>
-                      {errors.cvv && <p className="text-red-500 text-sm mt-1">{errors.cvv}</p>}
-                    </div>
-                  </div>
-
-                  {/* Supported Cards */}
-                  <div className="mt-6 p-4 bg-slate-50 rounded-xl border border-slate-200">
-                    <p className="text-sm font-medium text-slate-700 mb-3">Supported Payment Methods:</p>
-                    <div className="flex items-center gap-4">
-                      <div className="flex items-center gap-2">
-                        {cardTypes.visa.icon}
-                        <span className="text-xs font-medium text-slate-600">Visa</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        {cardTypes.mastercard.icon}
-                        <span className="text-xs font-medium text-slate-600">Mastercard</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        {cardTypes.amex.icon}
-                        <span className="text-xs font-medium text-slate-600">American Express</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        {cardTypes.discover.icon}
-                        <span className="text-xs font-medium text-slate-600">Discover</span>
                       </div>
                     </div>
                   </div>
-                </div>
+                )}
+                {pricingError && (
+                  <p className="mt-8 text-sm text-red-600 text-center">{pricingError}</p>
+                )}
                 <button
                   type="submit"
-                  disabled={loading}
+                  disabled={loading || !!unverifiedEmail || !pricingLoaded}
                   className="w-full mt-8 bg-gradient-to-r from-blue-600 to-blue-400 hover:from-blue-700 hover:to-blue-500 disabled:bg-gray-400 text-white py-4 rounded-2xl font-bold text-xl flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 shadow-xl disabled:cursor-not-allowed animate-fade-in"
                 >
                   {loading ? (
@@ -636,7 +583,7 @@ export default function PaymentPage() {
                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
                       </svg>
-                      Pay LKR {total.toFixed(2)}
+                      {paymentMethod === 'card_payment' ? `Pay LKR ${total.toFixed(2)}` : `Place Order - LKR ${total.toFixed(2)}`}
                     </>
                   )}
                 </button>
@@ -693,9 +640,23 @@ export default function PaymentPage() {
                     <span className="font-medium text-slate-700">Subtotal</span>
                     <span className="font-semibold text-slate-800">LKR {subtotal.toFixed(2)}</span>
                   </div>
+                  {promo && discount > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-emerald-700">Discount ({promo.code})</span>
+                      <span className="font-semibold text-emerald-700">- LKR {discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {tax > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-slate-700">{formatTaxLabel(pricing.taxLines)}</span>
+                      <span className="font-semibold text-slate-800">LKR {tax.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="font-medium text-slate-700">Shipping</span>
-                    <span className="font-semibold text-slate-800">LKR {shipping.toFixed(2)}</span>
+                    <span className="font-semibold text-slate-800">
+                      {shipping === 0 ? 'Free' : `LKR ${shipping.toFixed(2)}`}
+                    </span>
                   </div>
                   <div className="border-t border-slate-200 pt-3 flex justify-between items-center">
                     <span className="font-bold text-lg text-slate-800">Total</span>
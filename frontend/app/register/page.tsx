@@ -5,6 +5,7 @@ import Link from 'next/link';
 import authService from '@/services/auth';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice';
 
 interface FormData {
   firstName: string;
@@ -50,6 +51,8 @@ export default function RegisterPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  // Set once the account exists; the form is replaced by a check-your-email step
+  const [registeredEmail, setRegisteredEmail] = useState('');
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrength>({
     score: 0,
     feedback: [],
@@ -193,15 +196,9 @@ export default function RegisterPage() {
         address: formData.address,
       };
 
-      await authService.register(registerData);
-      // Clear any existing auth data
-      authService.logout();
-      // Show success message
-      setSuccess('Registration successful! Redirecting to login...');
-      // Redirect to login page after a short delay
-      setTimeout(() => {
-        router.push('/login');
-      }, 2000);
+      const response = await authService.register(registerData);
+      setSuccess(response.message || 'Registration successful! Please check your email to verify your account.');
+      setRegisteredEmail(response.email);
     } catch (err: unknown) {
       if (err instanceof Error) {
         // Check if it's a duplicate email error
@@ -394,6 +391,20 @@ export default function RegisterPage() {
                   </div>
                 )}
 
+                {registeredEmail ? (
+                  <div className="space-y-6">
+                    <EmailVerificationNotice
+                      email={registeredEmail}
+                      message="Follow the link in the email to activate your account before signing in."
+                    />
+                    <p className="text-center text-sm text-gray-600">
+                      Already verified?{' '}
+                      <Link href="/login" className="font-medium text-blue-600 hover:text-blue-700">
+                        Sign in
+                      </Link>
+                    </p>
+                  </div>
+                ) : (
                 <form onSubmit={handleSubmit} className="space-y-6">
                   {/* Name Fields */}
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -679,6 +690,7 @@ export default function RegisterPage() {
                     </Link>
                   </p>
                 </form>
+                )}
               </div>
             </div>
           </div>
@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 "use client";
 import { useRef, useState, useEffect } from "react";
 import type React from "react";
@@ -7,6 +6,9 @@ import Footer from "@/components/layout/Footer";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import Loader from '@/components/Loader';
+import prescriptionService from '@/services/prescriptions';
+import { getUserRoles } from '@/services/auth';
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice';
 
 // Toast implementation with color
 function showToast(message: string, type: 'success' | 'error' = 'error') {
@@ -39,6 +41,7 @@ export default function UploadPrescriptionPage() {
   });
   const [submitting, setSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [unverifiedEmail, setUnverifiedEmail] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const slides = [
@@ -92,10 +95,11 @@ export default function UploadPrescriptionPage() {
     }
     try {
       const userData = JSON.parse(user);
-      if (userData.role !== "customer") {
+      if (!getUserRoles(userData).includes("customer")) {
         router.push("/dashboard");
         return;
       }
+      setUnverifiedEmail(userData.emailVerified === false ? userData.email : '');
       setLoading(false);
     } catch {
       router.push("/login");
@@ -151,6 +155,11 @@ export default function UploadPrescriptionPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (unverifiedEmail) {
+      showToast('Please verify your email address before uploading a prescription.', 'error');
+      return;
+    }
+
     // Require at least one prescription image
     if (files.length === 0) {
       showToast('Please upload at least one prescription image.', 'error');
@@ -235,16 +244,7 @@ export default function UploadPrescriptionPage() {
       }
 
       // Send the request directly to the backend
-      const response = await fetch('http://localhost:8000/api/prescriptions', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to upload prescription');
-      }
-
-      const data = await response.json();
+      await prescriptionService.uploadPrescription(formData);
       showToast('Prescription submitted successfully!', 'success');
       
       // Reset form
@@ -414,6 +414,14 @@ export default function UploadPrescriptionPage() {
                 </p>
               </div>
             </div>
+            {unverifiedEmail && (
+              <div className="px-6 pb-6">
+                <EmailVerificationNotice
+                  email={unverifiedEmail}
+                  message="Verify your email address to upload prescriptions."
+                />
+              </div>
+            )}
             {/* Form */}
             <form onSubmit={handleSubmit} className="px-6 pb-6">
               <div className="space-y-6">
@@ -631,7 +639,7 @@ export default function UploadPrescriptionPage() {
                           name="allergies"
                           value={form.allergies}
                           onChange={handleChange}
-                          placeholder="Please describe your allergies in detail"
+                          placeholder="List each allergy, separated by commas"
                           className="w-full border border-gray-300 rounded-lg px-4 py-3 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200 text-gray-800"
                         />
                   )}
@@ -723,7 +731,7 @@ export default function UploadPrescriptionPage() {
               <button
                 type="submit"
                   className="w-full flex justify-center items-center py-4 px-6 border border-transparent rounded-xl shadow-lg text-lg font-bold text-white bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 focus:outline-none focus:ring-4 focus:ring-blue-300 transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed disabled:transform-none transform hover:scale-[1.02]"
-                disabled={submitting}
+                disabled={submitting || !!unverifiedEmail}
               >
                   {submitting ? (
                     <>
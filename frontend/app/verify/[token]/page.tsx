@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import authService from '@/services/auth';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice';
+
+type VerifyStatus = 'verifying' | 'success' | 'error';
+
+export default function VerifyEmailPage() {
+  const params = useParams<{ token: string }>();
+  const token = params?.token;
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [message, setMessage] = useState('');
+  const [email, setEmail] = useState('');
+  const [resendEmail, setResendEmail] = useState('');
+  // Verification tokens are single use, so guard against the effect running twice
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authService.verifyEmail(decodeURIComponent(token))
+      .then(response => {
+        setMessage(response.message || 'Your email address has been verified.');
+        setStatus('success');
+      })
+      .catch(error => {
+        setMessage(error instanceof Error ? error.message : 'This verification link is invalid or has expired.');
+        setStatus('error');
+      });
+  }, [token]);
+
+  const handleResendSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setResendEmail(email.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-xl p-8 text-center">
+          {status === 'verifying' && (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Verifying your email address...</p>
+            </>
+          )}
+
+          {status === 'success' && (
+            <>
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">Email verified</h1>
+              <p className="text-gray-600 mb-6">{message}</p>
+              <Link
+                href="/login"
+                className="inline-block bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Continue to login
+              </Link>
+            </>
+          )}
+
+          {status === 'error' && (
+            <>
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">Verification failed</h1>
+              <p className="text-red-600 mb-6">{message}</p>
+
+              {resendEmail ? (
+                <div className="text-left">
+                  <EmailVerificationNotice
+                    email={resendEmail}
+                    message="Request a new link below if the previous one has expired."
+                  />
+                </div>
+              ) : (
+                <form onSubmit={handleResendSubmit} className="space-y-4 text-left">
+                  <label htmlFor="resend-email" className="block text-sm font-medium text-gray-700">
+                    Enter your email to get a new verification link
+                  </label>
+                  <input
+                    id="resend-email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="you@example.com"
+                  />
+                  <button
+                    type="submit"
+                    className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Continue
+                  </button>
+                </form>
+              )}
+
+              <Link href="/login" className="inline-block mt-6 text-sm text-blue-600 hover:text-blue-700">
+                Back to login
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
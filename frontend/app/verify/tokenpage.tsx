@@ -1,4 +0,0 @@
-// app/chatbot/page.tsx
-export default function VerifyPage() {
-  return <div>Chatbot page placeholder</div>;
-}
@@ -0,0 +1,28 @@
+"use client";
+import { useEffect, useRef } from "react";
+import { CardFields, CardFieldsState, getPaymentProvider } from "@/services/paymentGateway";
+
+interface CardFieldsElementProps {
+  // Receives the mounted fields so the parent can tokenise them on submit
+  fieldsRef: React.MutableRefObject<CardFields | null>;
+  onChange: (state: CardFieldsState) => void;
+}
+
+// Container for the payment provider's own card inputs. React never sees what is typed.
+export default function CardFieldsElement({ fieldsRef, onChange }: CardFieldsElementProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const fields = getPaymentProvider().mountCardFields(containerRef.current, state => onChangeRef.current(state));
+    fieldsRef.current = fields;
+    return () => {
+      fields.destroy();
+      fieldsRef.current = null;
+    };
+  }, [fieldsRef]);
+
+  return <div ref={containerRef} />;
+}
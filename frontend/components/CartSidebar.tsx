@@ -4,6 +4,8 @@ import { useEffect, useState } from "react";
 import Image from "next/image";
 import { useRouter } from 'next/navigation';
 import { useCart } from '@/context/CartContext';
+import type { CartAdjustment } from '@/services/cart';
+import { LOW_STOCK_THRESHOLD } from '@/services/reservations';
 
 export interface CartItem {
   id: string;
@@ -18,9 +20,30 @@ interface CartSidebarProps {
   onClose: () => void;
 }
 
+const describeAdjustment = (adjustment: CartAdjustment) => {
+  switch (adjustment.reason) {
+    case 'unavailable':
+      return `${adjustment.name} is no longer available and was removed.`;
+    case 'limited':
+      return `${adjustment.name} was reduced from ${adjustment.requested} to ${adjustment.quantity}, the quantity in stock.`;
+    case 'combined':
+      return `${adjustment.name} was already in your cart; the quantity is now ${adjustment.quantity}.`;
+  }
+};
+
 export default function CartSidebar({ isOpen, onClose }: CartSidebarProps) {
   const router = useRouter();
-  const { cartItems, removeFromCart, updateQuantity } = useCart();
+  const {
+    cartItems,
+    removeFromCart,
+    updateQuantity,
+    cartNotices,
+    dismissCartNotices,
+    reservation,
+    reservationExpired,
+    reserveStock,
+  } = useCart();
+  const getReservedLine = (id: string) => reservation?.items.find(line => line.product === id);
   const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
   useEffect(() => {
@@ -66,6 +89,42 @@ export default function CartSidebar({ isOpen, onClose }: CartSidebarProps) {
 
       {/* Cart Items */}
       <div className="p-6 flex-1 overflow-y-auto" style={{ maxHeight: 'calc(100vh - 280px)' }}>
+        {/* Changes made while merging the guest cart at sign-in */}
+        {cartNotices.length > 0 && (
+          <div className="mb-4 bg-amber-50 border border-amber-200 rounded-xl p-4">
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <p className="font-semibold text-amber-900 text-sm">We updated your cart</p>
+              <button
+                onClick={dismissCartNotices}
+                className="text-amber-700 hover:text-amber-900 text-lg leading-none"
+                title="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+            <ul className="space-y-1 text-xs text-amber-800 list-disc pl-4">
+              {cartNotices.map(adjustment => (
+                <li key={adjustment.id}>{describeAdjustment(adjustment)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Stock hold for the items below */}
+        {cartItems.length > 0 && reservation && (
+          <p className="mb-4 text-xs text-slate-600 bg-slate-100 rounded-lg px-3 py-2">
+            Items reserved until {new Date(reservation.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+        {cartItems.length > 0 && !reservation && reservationExpired && (
+          <div className="mb-4 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 flex items-center justify-between gap-2">
+            <span>Your reservation expired, so these items are no longer held.</span>
+            <button onClick={() => reserveStock()} className="font-semibold text-blue-600 hover:text-blue-700 whitespace-nowrap">
+              Reserve again
+            </button>
+          </div>
+        )}
+
         {cartItems.length === 0 ? (
           <div className="text-center py-12">
             <div className="w-20 h-20 mx-auto mb-4 bg-gradient-to-br from-slate-200 to-slate-300 rounded-full flex items-center justify-center">
@@ -97,6 +156,11 @@ export default function CartSidebar({ isOpen, onClose }: CartSidebarProps) {
                   
                   <div className="flex-1 min-w-0">
                     <h3 className="font-semibold text-slate-800 text-base mb-3 truncate">{item.name}</h3>
+                    {(getReservedLine(item.id)?.available ?? Infinity) <= LOW_STOCK_THRESHOLD && (
+                      <p className="-mt-2 mb-2 text-xs font-medium text-red-600">
+                        Only {getReservedLine(item.id)?.available} left
+                      </p>
+                    )}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         <button
@@ -111,6 +175,7 @@ export default function CartSidebar({ isOpen, onClose }: CartSidebarProps) {
                         <button
                           className="w-8 h-8 bg-gradient-to-r from-slate-100 to-slate-200 rounded-lg flex items-center justify-center text-slate-700 hover:from-slate-200 hover:to-slate-300 transition-all duration-200 font-bold text-sm"
                           onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          disabled={(getReservedLine(item.id)?.available ?? Infinity) <= item.quantity}
                         >
                           +
                         </button>
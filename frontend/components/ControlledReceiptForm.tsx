@@ -0,0 +1,106 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import controlledDrugService from "@/services/controlledDrugs";
+import type { InventoryItem } from "@/services/inventory";
+
+interface ControlledReceiptFormProps {
+  drugs: InventoryItem[];
+  onRecorded: () => void;
+}
+
+const emptyReceipt = { productId: "", quantity: "", supplier: "", invoiceNumber: "", note: "" };
+
+// Records controlled drugs arriving from a supplier, which also adds them to stock
+export default function ControlledReceiptForm({ drugs, onRecorded }: ControlledReceiptFormProps) {
+  const [receipt, setReceipt] = useState(emptyReceipt);
+  const [saving, setSaving] = useState(false);
+
+  const quantity = Number(receipt.quantity);
+  const valid = !!receipt.productId && Number.isInteger(quantity) && quantity > 0
+    && !!receipt.supplier.trim() && !!receipt.invoiceNumber.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    try {
+      setSaving(true);
+      await controlledDrugService.recordReceipt({
+        productId: receipt.productId,
+        quantity,
+        supplier: receipt.supplier.trim(),
+        invoiceNumber: receipt.invoiceNumber.trim(),
+        note: receipt.note.trim() || undefined,
+      });
+      toast.success("Receipt recorded");
+      setReceipt(emptyReceipt);
+      onRecorded();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record the receipt");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+      <label className="md:col-span-2 text-sm font-medium text-gray-700">
+        Drug
+        <select
+          value={receipt.productId}
+          onChange={e => setReceipt({ ...receipt, productId: e.target.value })}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-normal"
+          required
+        >
+          <option value="">Select a drug</option>
+          {drugs.map(drug => (
+            <option key={drug._id} value={drug._id}>{drug.name}{drug.packSize ? ` (${drug.packSize})` : ""}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Quantity
+        <input
+          type="number"
+          min="1"
+          step="1"
+          value={receipt.quantity}
+          onChange={e => setReceipt({ ...receipt, quantity: e.target.value })}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-normal"
+          required
+        />
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Supplier
+        <input
+          value={receipt.supplier}
+          onChange={e => setReceipt({ ...receipt, supplier: e.target.value })}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-normal"
+          required
+        />
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Invoice No
+        <input
+          value={receipt.invoiceNumber}
+          onChange={e => setReceipt({ ...receipt, invoiceNumber: e.target.value })}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-normal"
+          required
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={!valid || saving}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? "Recording..." : "Record Receipt"}
+      </button>
+      <input
+        value={receipt.note}
+        onChange={e => setReceipt({ ...receipt, note: e.target.value })}
+        placeholder="Note (optional), e.g. batch number"
+        className="md:col-span-6 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+      />
+    </form>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+import { AlertTriangle } from "lucide-react";
+import { InteractionWarning, MIN_OVERRIDE_REASON_LENGTH } from "@/lib/interactions";
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  // Set when the patient's recent orders could not be loaded, so they were not checked
+  historyError?: string | null;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+const SEVERITY_STYLES: Record<InteractionWarning["severity"], string> = {
+  major: "bg-red-100 text-red-800",
+  moderate: "bg-amber-100 text-amber-800",
+  minor: "bg-gray-100 text-gray-700",
+};
+
+const KIND_LABELS: Record<InteractionWarning["kind"], string> = {
+  interaction: "Interaction",
+  allergy: "Allergy",
+  history: "Recent order",
+};
+
+// Interaction and allergy warnings for the products being dispensed, with the override
+// reason the pharmacist must give to go ahead anyway
+export default function InteractionWarnings({ warnings, historyError, overrideReason, onOverrideReasonChange }: InteractionWarningsProps) {
+  if (warnings.length === 0) {
+    return (
+      <div className="text-sm">
+        <p className="text-green-700">No interactions or allergy conflicts found.</p>
+        {historyError && <p className="text-amber-700">{historyError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-red-200 rounded-lg p-4 bg-red-50 space-y-3">
+      <h5 className="flex items-center gap-2 font-semibold text-red-800">
+        <AlertTriangle className="w-5 h-5" />
+        {warnings.length} warning{warnings.length === 1 ? "" : "s"} to review
+      </h5>
+      <ul className="space-y-2">
+        {warnings.map((warning, index) => (
+          <li key={index} className="bg-white rounded-md p-3 text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${SEVERITY_STYLES[warning.severity]}`}>
+                {warning.severity}
+              </span>
+              <span className="text-xs text-gray-500">{KIND_LABELS[warning.kind]}</span>
+              <span className="font-medium text-gray-900">{warning.products.join(" + ")}</span>
+            </div>
+            <p className="text-gray-700">{warning.message}</p>
+          </li>
+        ))}
+      </ul>
+      {historyError && <p className="text-sm text-amber-700">{historyError}</p>}
+      <label className="block text-sm font-medium text-gray-800">
+        Override reason
+        <textarea
+          value={overrideReason}
+          onChange={e => onOverrideReasonChange(e.target.value)}
+          rows={2}
+          placeholder="Why it is still appropriate to dispense, e.g. confirmed with the prescriber"
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-normal"
+        />
+      </label>
+      {overrideReason.trim().length < MIN_OVERRIDE_REASON_LENGTH && (
+        <p className="text-xs text-red-700">
+          Enter a reason of at least {MIN_OVERRIDE_REASON_LENGTH} characters to place the order.
+        </p>
+      )}
+    </div>
+  );
+}
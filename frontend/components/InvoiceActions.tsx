@@ -0,0 +1,60 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Download, Mail } from "lucide-react";
+import { downloadInvoice, emailInvoice } from "@/services/invoices";
+
+interface InvoiceActionsProps {
+  orderId: string;
+}
+
+// Download and email buttons for an order's PDF invoice
+export default function InvoiceActions({ orderId }: InvoiceActionsProps) {
+  const [busy, setBusy] = useState<"download" | "email" | null>(null);
+
+  const handleDownload = async () => {
+    setBusy("download");
+    try {
+      await downloadInvoice(orderId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download the invoice");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    setBusy("email");
+    try {
+      const email = await emailInvoice(orderId);
+      toast.success(email ? `Invoice sent to ${email}` : "Invoice sent");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to email the invoice");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-3">
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={busy !== null}
+        className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        {busy === "download" ? "Preparing..." : "Download Invoice"}
+      </button>
+      <button
+        type="button"
+        onClick={handleEmail}
+        disabled={busy !== null}
+        className="flex-1 flex items-center justify-center gap-2 border border-blue-300 text-blue-700 py-2 px-4 rounded-lg font-medium hover:bg-blue-50 disabled:opacity-50 transition-colors"
+      >
+        <Mail className="w-4 h-4" />
+        {busy === "email" ? "Sending..." : "Email Invoice"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Bell } from "lucide-react";
+import notificationService, { AppNotification } from "@/services/notifications";
+
+const POLL_INTERVAL = 60 * 1000;
+
+// Shows the signed-in user's in-app notifications, checking for new ones every minute
+export default function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const load = () =>
+      notificationService.getNotifications()
+        .then(setNotifications)
+        .catch(error => console.error("Error fetching notifications:", error));
+    load();
+    const interval = window.setInterval(load, POLL_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const unread = notifications.filter(notification => !notification.readAt).length;
+
+  const markLocallyRead = (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification => (ids.includes(notification._id) && !notification.readAt ? { ...notification, readAt } : notification)));
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.readAt) {
+      markLocallyRead([notification._id]);
+      notificationService.markRead(notification._id).catch(error => console.error("Error marking notification read:", error));
+    }
+    if (notification.link) router.push(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      markLocallyRead(notifications.map(notification => notification._id));
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="relative p-2 rounded-lg text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+        aria-label={unread > 0 ? `Notifications, ${unread} unread` : "Notifications"}
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {unread > 9 ? "9+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">Notifications</h3>
+            {unread > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification._id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50"}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    <p className="text-sm text-gray-600">{notification.message}</p>
+                    <p className="text-xs text-gray-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
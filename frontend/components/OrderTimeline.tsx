@@ -0,0 +1,43 @@
+"use client";
+import { getOrderTimeline, ORDER_STATUS_LABELS } from "@/lib/orderStatus";
+import type { OrderStatus, OrderStatusEvent } from "@/services/orders";
+
+interface OrderTimelineProps {
+  status: OrderStatus;
+  history?: OrderStatusEvent[];
+  // When the order was placed, for orders from before status history was recorded
+  placedAt?: string;
+}
+
+// Each status on the order's path, with when it was reached and by whom
+export default function OrderTimeline({ status, history, placedAt }: OrderTimelineProps) {
+  const steps = getOrderTimeline(status, history, placedAt);
+
+  return (
+    <ol className="border-l-2 border-gray-200 ml-1.5 pl-4 space-y-3">
+      {steps.map(step => (
+        <li key={step.status} className="relative text-sm">
+          <span
+            className={`absolute -left-[23px] top-1 w-3 h-3 rounded-full border-2 ${
+              !step.reached
+                ? "bg-white border-gray-300"
+                : step.status === "cancelled"
+                  ? "bg-red-500 border-red-500"
+                  : "bg-green-500 border-green-500"
+            }`}
+          />
+          <div className="flex justify-between gap-2">
+            <span className={`font-medium ${step.reached ? "text-gray-900" : "text-gray-400"}`}>
+              {ORDER_STATUS_LABELS[step.status]}
+            </span>
+            {step.event && (
+              <span className="text-gray-500 text-xs whitespace-nowrap">{new Date(step.event.at).toLocaleString()}</span>
+            )}
+          </div>
+          {step.event?.note && <p className="text-gray-600">{step.event.note}</p>}
+          {step.event?.by && <p className="text-gray-400 text-xs">by {step.event.by.name} ({step.event.by.role})</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,150 +1,50 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { toast } from 'react-hot-toast';
+import CardFieldsElement from '@/components/CardFieldsElement';
+import { CardFields, CardFieldsState, chargeOrder } from '@/services/paymentGateway';
+import type { PaymentIntent } from '@/services/payments';
 
 interface PaymentFormProps {
+  // The backend charges this order's total; the amounts below are only shown
+  orderId: string;
   total: number;
   shipping: number;
   tax: number;
-  onSuccess: () => void;
+  onSuccess: (payment: PaymentIntent) => void;
 }
 
-interface CardInfo {
-  cardNumber: string;
-  expiryDate: string;
-  cvv: string;
-  cardholderName: string;
-}
-
-const getCardType = (cardNumber: string): string => {
-  const cleanNumber = cardNumber.replace(/\s/g, '');
-  if (cleanNumber.startsWith('4')) return 'visa';
-  if (cleanNumber.startsWith('5')) return 'mastercard';
-  if (cleanNumber.startsWith('34') || cleanNumber.startsWith('37')) return 'amex';
-  if (cleanNumber.startsWith('6')) return 'discover';
-  return 'generic';
-};
-
-const cardTypes = {
-  visa: { name: 'Visa', color: 'from-blue-600 to-blue-800' },
-  mastercard: { name: 'Mastercard', color: 'from-orange-500 to-red-600' },
-  amex: { name: 'American Express', color: 'from-green-600 to-green-800' },
-  discover: { name: 'Discover', color: 'from-orange-400 to-orange-600' },
-  generic: { name: 'Credit Card', color: 'from-gray-600 to-gray-800' },
-};
-
-export default function PaymentForm({ total, shipping, tax, onSuccess }: PaymentFormProps) {
-  const [cardInfo, setCardInfo] = useState<CardInfo>({
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardholderName: ''
-  });
-  const [errors, setErrors] = useState<Partial<CardInfo>>({});
+export default function PaymentForm({ orderId, total, shipping, tax, onSuccess }: PaymentFormProps) {
+  const cardFields = useRef<CardFields | null>(null);
+  const [cardState, setCardState] = useState<CardFieldsState | null>(null);
+  const [showCardError, setShowCardError] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  const currentCardType = getCardType(cardInfo.cardNumber);
-  const cardConfig = cardTypes[currentCardType as keyof typeof cardTypes];
-
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = matches && matches[0] || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return v;
-    }
-  };
-
-  const formatExpiryDate = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    if (v.length >= 2) {
-      return v.substring(0, 2) + '/' + v.substring(2, 4);
-    }
-    return v;
-  };
-
-  const validateForm = (): boolean => {
-    const newErrors: Partial<CardInfo> = {};
-    if (!cardInfo.cardNumber.replace(/\s/g, '').trim()) newErrors.cardNumber = 'Card number is required';
-    else if (cardInfo.cardNumber.replace(/\s/g, '').length < 16) newErrors.cardNumber = 'Card number must be 16 digits';
-    if (!cardInfo.expiryDate.trim()) newErrors.expiryDate = 'Expiry date is required';
-    else if (!/^\d{2}\/\d{2}$/.test(cardInfo.expiryDate)) newErrors.expiryDate = 'Invalid expiry date format (MM/YY)';
-    if (!cardInfo.cvv.trim()) newErrors.cvv = 'CVV is required';
-    else if (cardInfo.cvv.length < 3) newErrors.cvv = 'CVV must be 3-4 digits';
-    if (!cardInfo.cardholderName.trim()) newErrors.cardholderName = 'Cardholder name is required';
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!validateForm()) {
+    if (!cardFields.current || !cardState?.complete) {
+      setShowCardError(true);
       toast.error('Please fix the errors in the form');
       return;
     }
     setLoading(true);
-    setTimeout(() => {
-      setLoading(false);
+    try {
+      const card = await cardFields.current.tokenize();
+      const payment = await chargeOrder(orderId, card);
+      cardFields.current.clear();
       toast.success('Payment successful!');
-      onSuccess();
-    }, 1500);
+      onSuccess(payment);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Payment failed');
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="mb-4">
-        <label className="block text-sm font-semibold text-slate-700 mb-2">Card Number *</label>
-        <input
-          type="text"
-          value={cardInfo.cardNumber}
-          onChange={e => setCardInfo({ ...cardInfo, cardNumber: formatCardNumber(e.target.value) })}
-          className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 text-lg bg-slate-50 ${errors.cardNumber ? 'border-red-400' : 'border-slate-200'}`}
-          placeholder="1234 5678 9012 3456"
-          maxLength={19}
-        />
-        {errors.cardNumber && <p className="text-red-500 text-sm mt-1">{errors.cardNumber}</p>}
-      </div>
-      <div className="mb-4">
-        <label className="block text-sm font-semibold text-slate-700 mb-2">Cardholder Name *</label>
-        <input
-          type="text"
-          value={cardInfo.cardholderName}
-          onChange={e => setCardInfo({ ...cardInfo, cardholderName: e.target.value.toUpperCase() })}
-          className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 text-lg bg-slate-50 ${errors.cardholderName ? 'border-red-400' : 'border-slate-200'}`}
-          placeholder="NAME ON CARD"
-        />
-        {errors.cardholderName && <p className="text-red-500 text-sm mt-1">{errors.cardholderName}</p>}
-      </div>
-      <div className="mb-4 flex gap-4">
-        <div className="flex-1">
-          <label className="block text-sm font-semibold text-slate-700 mb-2">Expiry Date *</label>
-          <input
-            type="text"
-            value={cardInfo.expiryDate}
-            onChange={e => setCardInfo({ ...cardInfo, expiryDate: formatExpiryDate(e.target.value) })}
-            className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 text-lg bg-slate-50 ${errors.expiryDate ? 'border-red-400' : 'border-slate-200'}`}
-            placeholder="MM/YY"
-            maxLength={5}
-          />
-          {errors.expiryDate && <p className="text-red-500 text-sm mt-1">{errors.expiryDate}</p>}
-        </div>
-        <div className="flex-1">
-          <label className="block text-sm font-semibold text-slate-700 mb-2">CVV *</label>
-          <input
-            type="text"
-            value={cardInfo.cvv}
-            onChange={e => setCardInfo({ ...cardInfo, cvv: e.target.value.replace(/\D/g, '') })}
-            className={`w-full px-5 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 text-lg bg-slate-50 ${errors.cvv ? 'border-red-400' : 'border-slate-200'}`}
-            placeholder="123"
-            maxLength={4}
-          />
-          {errors.cvv && <p className="text-red-500 text-sm mt-1">{errors.cvv}</p>}
-        </div>
+        <CardFieldsElement fieldsRef={cardFields} onChange={setCardState} />
+        {showCardError && cardState?.error && <p className="text-red-500 text-sm mt-2">{cardState.error}</p>}
       </div>
       <div className="mb-6">
         <div className="flex justify-between items-center">
@@ -169,4 +69,4 @@ export default function PaymentForm({ total, shipping, tax, onSuccess }: Payment
       </button>
     </form>
   );
-} 
\ No newline at end of file
+}
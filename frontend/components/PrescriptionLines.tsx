@@ -0,0 +1,79 @@
+"use client";
+import { formatPrescriptionLine, isPrescriptionExpired } from "@/lib/prescriptions";
+import type { Prescription } from "@/services/prescriptions";
+
+interface PrescriptionLinesProps {
+  prescription: Prescription;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+// The structured prescription as transcribed by the pharmacist
+export default function PrescriptionLines({ prescription }: PrescriptionLinesProps) {
+  const { prescriber, patient, lines = [] } = prescription;
+  const expired = isPrescriptionExpired(prescription);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {prescriber && (
+          <div>
+            <p className="font-medium text-gray-600">Prescriber</p>
+            <p className="text-gray-900">{prescriber.name}</p>
+            <p className="text-gray-500">Reg. No. {prescriber.registrationNumber}</p>
+            {prescriber.clinic && <p className="text-gray-500">{prescriber.clinic}</p>}
+          </div>
+        )}
+        {patient && (
+          <div>
+            <p className="font-medium text-gray-600">Patient</p>
+            <p className="text-gray-900">{patient.name}</p>
+            {patient.dateOfBirth && <p className="text-gray-500">Born {formatDate(patient.dateOfBirth)}</p>}
+            <p className={patient.allergies.length > 0 ? "text-red-600" : "text-gray-500"}>
+              Allergies: {patient.allergies.length > 0 ? patient.allergies.join(", ") : "None recorded"}
+            </p>
+          </div>
+        )}
+        {prescription.issuedAt && prescription.validUntil && (
+          <div>
+            <p className="font-medium text-gray-600">Validity</p>
+            <p className="text-gray-900">Issued {formatDate(prescription.issuedAt)}</p>
+            <p className={expired ? "text-red-600 font-medium" : "text-gray-500"}>
+              {expired ? "Expired" : "Valid until"} {formatDate(prescription.validUntil)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Medicine</th>
+            <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Directions</th>
+            <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Qty</th>
+            <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Refills</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 bg-white">
+          {lines.map((line, index) => (
+            <tr key={line._id ?? index}>
+              <td className="px-3 py-2">
+                <p className="font-medium text-gray-900">{line.drug} {line.strength}</p>
+                {line.productName && line.productName !== line.drug && (
+                  <p className="text-xs text-gray-500">Dispensed as {line.productName}</p>
+                )}
+              </td>
+              <td className="px-3 py-2 text-gray-700">
+                {formatPrescriptionLine(line)}
+                {line.instructions && <p className="text-xs text-gray-500">{line.instructions}</p>}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-900">{line.quantity}</td>
+              <td className="px-3 py-2 text-right text-gray-900">{line.refills}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { getRefillEligibility } from "@/lib/prescriptions";
+import prescriptionService, { Prescription, RefillRequest } from "@/services/prescriptions";
+
+interface PrescriptionRefillsProps {
+  prescription: Prescription;
+}
+
+const REFILL_STATUS_STYLES: Record<RefillRequest["status"], string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const REFILL_STATUS_LABELS: Record<RefillRequest["status"], string> = {
+  requested: "Awaiting pharmacist",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// Refills left on each medicine, with a form to request the next one
+export default function PrescriptionRefills({ prescription }: PrescriptionRefillsProps) {
+  const [refills, setRefills] = useState<RefillRequest[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    prescriptionService.getRefills(prescription._id)
+      .then(setRefills)
+      .catch(error => console.error("Error fetching refills:", error));
+  }, [prescription._id]);
+
+  const lines = prescription.lines ?? [];
+  const pending = refills.some(refill => refill.status === "requested");
+
+  const toggleLine = (lineId: string) =>
+    setSelected(prev => (prev.includes(lineId) ? prev.filter(id => id !== lineId) : [...prev, lineId]));
+
+  const handleRequest = async () => {
+    if (selected.length === 0) return;
+    try {
+      setSubmitting(true);
+      const refill = await prescriptionService.requestRefill(prescription._id, selected, note.trim() || undefined);
+      setRefills(prev => [refill, ...prev]);
+      setSelected([]);
+      setNote("");
+      toast.success("Refill requested. We'll let you know once the pharmacist has reviewed it.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to request a refill");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {lines.map((line, index) => {
+          const eligibility = getRefillEligibility(prescription, line);
+          return (
+            <li key={line._id ?? index} className="flex items-center gap-3 p-3">
+              <input
+                type="checkbox"
+                disabled={!eligibility.eligible || pending}
+                checked={!!line._id && selected.includes(line._id)}
+                onChange={() => line._id && toggleLine(line._id)}
+                className="h-4 w-4"
+              />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{line.drug} {line.strength}</p>
+                <p className="text-sm text-gray-500">
+                  {eligibility.remaining} of {line.refills} refill{line.refills === 1 ? "" : "s"} left
+                  {line.lastDispensedAt && ` · last dispensed ${new Date(line.lastDispensedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {!eligibility.eligible && <span className="text-xs text-gray-500">{eligibility.reason}</span>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {pending ? (
+        <p className="text-sm text-gray-600">A refill request is waiting for the pharmacist.</p>
+      ) : (
+        <div className="flex gap-3">
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note for the pharmacist (optional)"
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+          <button
+            onClick={handleRequest}
+            disabled={selected.length === 0 || submitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? "Requesting..." : "Request Refill"}
+          </button>
+        </div>
+      )}
+
+      {refills.length > 0 && (
+        <ul className="space-y-2">
+          {refills.map(refill => (
+            <li key={refill._id} className="p-3 bg-gray-50 rounded-lg text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-700">
+                  {refill.lineIds.map(id => lines.find(line => line._id === id)?.drug ?? "Medicine").join(", ")}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REFILL_STATUS_STYLES[refill.status]}`}>
+                  {REFILL_STATUS_LABELS[refill.status]}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">Requested {new Date(refill.createdAt).toLocaleString()}</p>
+              {refill.status === "approved" && refill.orderId && (
+                <p className="text-xs text-gray-600">An order was created for this refill. Confirm and pay for it under Order Summary.</p>
+              )}
+              {refill.rejectionReason && <p className="text-red-600">{refill.rejectionReason}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { useCart } from "@/context/CartContext";
+
+// Applies or removes the cart's promo code; the backend decides whether it is valid
+export default function PromoCodeInput() {
+  const { promo, applyPromo, removePromo, cartItems } = useCart();
+  const [code, setCode] = useState("");
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setApplying(true);
+    setError("");
+    try {
+      const applied = await applyPromo(code);
+      setCode("");
+      toast.success(`Promo code ${applied.code} applied`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "This promo code is not valid");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (promo) {
+    return (
+      <div className="flex items-start justify-between gap-3 bg-emerald-50 border border-emerald-200 rounded-xl px-4 py-3">
+        <div>
+          <p className="font-semibold text-emerald-800 text-sm">{promo.code}</p>
+          <p className="text-xs text-emerald-700">{promo.description}</p>
+        </div>
+        <button onClick={removePromo} className="text-xs font-medium text-slate-500 hover:text-red-600">
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply}>
+      <label className="block text-sm font-medium text-slate-700 mb-2">Promo code</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder="Enter code"
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={applying || cartItems.length === 0}
+        />
+        <button
+          type="submit"
+          disabled={applying || !code.trim() || cartItems.length === 0}
+          className="px-4 py-2 bg-slate-800 text-white rounded-lg font-semibold hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {applying ? "Applying..." : "Apply"}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
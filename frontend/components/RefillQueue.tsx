@@ -0,0 +1,186 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import InteractionWarnings from "@/components/InteractionWarnings";
+import { CheckedProduct, checkInteractions, MIN_OVERRIDE_REASON_LENGTH } from "@/lib/interactions";
+import { getRefillEligibility, parseAllergies } from "@/lib/prescriptions";
+import { getCustomerOrders } from "@/services/orders";
+import prescriptionService, { Prescription, PrescriptionLine, RefillRequest } from "@/services/prescriptions";
+
+interface RefillQueueProps {
+  prescriptions: Prescription[];
+  canApprove: boolean;
+  // Called after an approval, since it uses up refills on the prescription
+  onApproved: () => void;
+}
+
+// The refill lines as products to check, named after what will be dispensed
+const toCheckedProducts = (lines: PrescriptionLine[]): CheckedProduct[] =>
+  lines.map(line => ({ name: line.productName ?? line.drug, description: `${line.drug} ${line.strength}` }));
+
+// Refill requests waiting for a pharmacist. Approving one creates its prescription order,
+// so it is checked for interactions and allergies first, like any other prescription order.
+export default function RefillQueue({ prescriptions, canApprove, onApproved }: RefillQueueProps) {
+  const [refills, setRefills] = useState<RefillRequest[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [orderHistory, setOrderHistory] = useState<CheckedProduct[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  useEffect(() => {
+    prescriptionService.getRefillQueue()
+      .then(setRefills)
+      .catch(error => console.error("Error fetching refill requests:", error));
+  }, []);
+
+  const handleReview = (refill: RefillRequest, prescription: Prescription) => {
+    setReviewingId(refill._id);
+    setOverrideReason("");
+    setOrderHistory([]);
+    setHistoryError(null);
+    setHistoryLoading(true);
+    // What the patient has bought recently is checked for interactions too
+    getCustomerOrders(undefined, prescription.email)
+      .then(orders => setOrderHistory(orders
+        .filter(order => order.status !== "cancelled")
+        .flatMap(order => order.items.map(item => ({ name: item.name, orderedAt: order.date ?? order.createdAt })))))
+      .catch(() => setHistoryError("The patient's recent orders could not be loaded, so they were not checked."))
+      .finally(() => setHistoryLoading(false));
+  };
+
+  const handleApprove = async (refill: RefillRequest, warnings: string[]) => {
+    try {
+      setBusyId(refill._id);
+      const { order } = await prescriptionService.approveRefill(
+        refill._id,
+        warnings.length > 0 ? { reason: overrideReason.trim(), warnings } : undefined,
+      );
+      setRefills(prev => prev.filter(item => item._id !== refill._id));
+      setReviewingId(null);
+      toast.success(`Refill approved. Order ${order.orderNumber} is waiting for the customer to confirm.`);
+      onApproved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to approve the refill");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (refill: RefillRequest) => {
+    const reason = window.prompt("Why is this refill being rejected?");
+    if (!reason?.trim()) return;
+    try {
+      setBusyId(refill._id);
+      await prescriptionService.rejectRefill(refill._id, reason.trim());
+      setRefills(prev => prev.filter(item => item._id !== refill._id));
+      toast.success("Refill rejected");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reject the refill");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (refills.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Refill Requests</h2>
+        <p className="text-sm text-gray-600 mt-1">{refills.length} waiting for review</p>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {refills.map(refill => {
+          const prescription = prescriptions.find(item => item._id === refill.prescriptionId);
+          const lines = (prescription?.lines ?? []).filter(line => line._id && refill.lineIds.includes(line._id));
+          // Checked again here in case the prescription expired or refills ran out since the request
+          const blocked = !prescription || lines.length === 0
+            ? "Prescription not found"
+            : lines.map(line => getRefillEligibility(prescription, line))
+              .find(eligibility => !eligibility.eligible)?.reason;
+          const reviewing = reviewingId === refill._id && !!prescription;
+          const warnings = reviewing
+            ? checkInteractions(
+              toCheckedProducts(lines),
+              prescription.patient?.allergies ?? parseAllergies(prescription),
+              orderHistory,
+            )
+            : [];
+          // Approvals with warnings need the pharmacist to record why they are going ahead
+          const needsOverrideReason = warnings.length > 0 && overrideReason.trim().length < MIN_OVERRIDE_REASON_LENGTH;
+
+          return (
+            <li key={refill._id} className="px-6 py-4">
+              <div className="flex items-start justify-between gap-6">
+                <div className="text-sm">
+                  <p className="font-semibold text-gray-900">{prescription?.patient?.name ?? prescription?.name ?? "Unknown patient"}</p>
+                  <ul className="text-gray-700 mt-1">
+                    {lines.map(line => (
+                      <li key={line._id}>
+                        {line.drug} {line.strength} × {line.quantity}
+                        <span className="text-gray-500"> · {line.refills - (line.refillsUsed ?? 0)} of {line.refills} refills left</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {refill.note && <p className="text-gray-600 mt-1">&ldquo;{refill.note}&rdquo;</p>}
+                  <p className="text-xs text-gray-500 mt-1">Requested {new Date(refill.createdAt).toLocaleString()}</p>
+                  {blocked && <p className="text-red-600 mt-1">{blocked}</p>}
+                </div>
+                {canApprove && !reviewing && (
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleReject(refill)}
+                      disabled={busyId === refill._id}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => prescription && handleReview(refill, prescription)}
+                      disabled={busyId === refill._id || !!blocked}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 disabled:opacity-50"
+                    >
+                      Approve &amp; Create Order
+                    </button>
+                  </div>
+                )}
+              </div>
+              {canApprove && reviewing && (
+                <div className="mt-4 space-y-3">
+                  {historyLoading ? (
+                    <p className="text-sm text-gray-500">Checking the patient&apos;s recent orders...</p>
+                  ) : (
+                    <InteractionWarnings
+                      warnings={warnings}
+                      historyError={historyError}
+                      overrideReason={overrideReason}
+                      onOverrideReasonChange={setOverrideReason}
+                    />
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setReviewingId(null)}
+                      disabled={busyId === refill._id}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleApprove(refill, warnings.map(warning => warning.message))}
+                      disabled={busyId === refill._id || !!blocked || historyLoading || needsOverrideReason}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {busyId === refill._id ? "Approving..." : "Confirm Approval"}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
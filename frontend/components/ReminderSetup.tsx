@@ -0,0 +1,157 @@
+"use client";
+import { useState } from "react";
+import { FREQUENCIES } from "@/lib/prescriptions";
+import { DEFAULT_DOSE_TIMES, isSchedulable, validateReminder } from "@/lib/reminders";
+import reminderService, { ReminderData } from "@/services/reminders";
+
+interface ReminderSetupProps {
+  drafts: ReminderData[];
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+const SCHEDULABLE_FREQUENCIES = FREQUENCIES.filter(frequency => isSchedulable(frequency.code));
+
+// Lets the customer check the dose times worked out from their prescription before saving them
+export default function ReminderSetup({ drafts, onDone, onCancel }: ReminderSetupProps) {
+  const [reminders, setReminders] = useState<ReminderData[]>(drafts);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const update = (index: number, changes: Partial<ReminderData>) =>
+    setReminders(prev => prev.map((reminder, i) => (i === index ? { ...reminder, ...changes } : reminder)));
+
+  const updateTime = (index: number, timeIndex: number, value: string) =>
+    update(index, { times: reminders[index].times.map((time, i) => (i === timeIndex ? value : time)) });
+
+  const handleSave = async () => {
+    const problems = reminders.flatMap(validateReminder);
+    setErrors(problems);
+    if (problems.length > 0 || reminders.length === 0) return;
+    try {
+      setSaving(true);
+      await reminderService.createReminders(reminders);
+      onDone();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : "Failed to set reminders"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="text-left">
+      <h2 className="text-xl font-semibold mb-1">Medication Reminders</h2>
+      <p className="text-sm text-gray-600 mb-4">We&apos;ll remind you at each dose time for the length of the course.</p>
+
+      {reminders.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">None of these medicines are taken on a regular schedule.</p>
+      ) : (
+        <ul className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+          {reminders.map((reminder, index) => (
+            <li key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex gap-3">
+                <input
+                  value={reminder.medicine}
+                  onChange={e => update(index, { medicine: e.target.value })}
+                  className="flex-1 border rounded px-3 py-2 font-medium"
+                  aria-label="Medicine"
+                />
+                <button
+                  type="button"
+                  onClick={() => setReminders(prev => prev.filter((_, i) => i !== index))}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <label className="text-gray-700">
+                  Dose
+                  <input value={reminder.dose} onChange={e => update(index, { dose: e.target.value })} className="mt-1 w-full border rounded px-2 py-1" />
+                </label>
+                <label className="text-gray-700">
+                  How often
+                  <select
+                    value={reminder.frequency}
+                    onChange={e => update(index, { frequency: e.target.value, times: DEFAULT_DOSE_TIMES[e.target.value] })}
+                    className="mt-1 w-full border rounded px-2 py-1"
+                  >
+                    {SCHEDULABLE_FREQUENCIES.map(frequency => (
+                      <option key={frequency.code} value={frequency.code}>{frequency.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-gray-700">
+                  For (days)
+                  <input
+                    type="number"
+                    min="1"
+                    value={reminder.durationDays}
+                    onChange={e => update(index, { durationDays: Number(e.target.value) })}
+                    className="mt-1 w-full border rounded px-2 py-1"
+                  />
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="text-gray-700">
+                  Starting
+                  <input type="date" value={reminder.startDate} onChange={e => update(index, { startDate: e.target.value })} className="ml-2 border rounded px-2 py-1" />
+                </label>
+                <span className="text-gray-700">at</span>
+                {reminder.times.map((time, timeIndex) => (
+                  <input
+                    key={timeIndex}
+                    type="time"
+                    value={time}
+                    onChange={e => updateTime(index, timeIndex, e.target.value)}
+                    className="border rounded px-2 py-1"
+                    aria-label={`Dose ${timeIndex + 1} time`}
+                  />
+                ))}
+              </div>
+              <div className="flex gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={reminder.channels.inApp}
+                    onChange={e => update(index, { channels: { ...reminder.channels, inApp: e.target.checked } })}
+                  />
+                  In-app notification
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={reminder.channels.email}
+                    onChange={e => update(index, { channels: { ...reminder.channels, email: e.target.checked } })}
+                  />
+                  Email
+                </label>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-4 text-sm text-red-600 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button type="button" onClick={onCancel} disabled={saving} className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || reminders.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Set Reminders"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import type { PlacedOrder } from "@/services/orders";
+import returnsService, { ReturnKind, ReturnRequest } from "@/services/returns";
+
+interface ReturnRequestFormProps {
+  order: PlacedOrder;
+  kind: ReturnKind;
+  // Units of each item that can still be requested
+  returnable: Record<string, number>;
+  onSubmitted: (request: ReturnRequest) => void;
+  onCancel: () => void;
+}
+
+// Customer request to cancel an order or return some of its items
+export default function ReturnRequestForm({ order, kind, returnable, onSubmitted, onCancel }: ReturnRequestFormProps) {
+  const items = order.items.filter(item => (returnable[item.id] ?? 0) > 0);
+  // A cancellation always covers everything that is left
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(items.map(item => [item.id, kind === "cancellation" ? returnable[item.id] : 0]))
+  );
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const selected = items
+    .map(item => ({ itemId: item.id, quantity: quantities[item.id] ?? 0 }))
+    .filter(line => line.quantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error("Please tell us why");
+      return;
+    }
+    if (selected.length === 0) {
+      toast.error("Choose at least one item to return");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const request = await returnsService.requestReturn(order._id, { kind, reason: reason.trim(), items: selected });
+      toast.success(kind === "cancellation" ? "Cancellation requested" : "Return requested");
+      onSubmitted(request);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to submit the request");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h4 className="font-medium text-gray-900">
+        {kind === "cancellation" ? "Cancel this order" : "Return items"}
+      </h4>
+      {kind === "return" && (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex-1 truncate text-gray-700">{item.name}</span>
+              <select
+                value={quantities[item.id] ?? 0}
+                onChange={e => setQuantities(prev => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              >
+                {Array.from({ length: returnable[item.id] + 1 }, (_, quantity) => (
+                  <option key={quantity} value={quantity}>{quantity}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+      <textarea
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        rows={3}
+        placeholder="Reason"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+      />
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 transition-colors"
+        >
+          {submitting ? "Submitting..." : "Submit Request"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+import { RETURN_EVENT_LABELS, RETURN_STATUS_LABELS } from "@/lib/returns";
+import type { ReturnRequest } from "@/services/returns";
+
+interface ReturnTimelineProps {
+  request: ReturnRequest;
+}
+
+const STATUS_COLORS: Record<ReturnRequest["status"], string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+  refunded: "bg-green-100 text-green-800",
+};
+
+// One cancellation or return request with each step it has been through
+export default function ReturnTimeline({ request }: ReturnTimelineProps) {
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-900">
+          {request.kind === "cancellation" ? "Cancellation" : "Return"}
+        </span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[request.status]}`}>
+          {RETURN_STATUS_LABELS[request.status]}
+        </span>
+      </div>
+      <ul className="text-sm text-gray-600 mb-2">
+        {request.items.map(line => (
+          <li key={line.itemId}>
+            {line.name} × {line.approvedQuantity ?? line.quantity}
+            {line.approvedQuantity !== undefined && line.approvedQuantity < line.quantity && ` (of ${line.quantity} requested)`}
+          </li>
+        ))}
+      </ul>
+      {request.refundAmount !== undefined && (
+        <p className="text-sm text-gray-700 mb-2">Refund: LKR {request.refundAmount.toFixed(2)}</p>
+      )}
+      <ol className="border-l-2 border-gray-200 pl-3 space-y-2">
+        {request.events.map((event, index) => (
+          <li key={index} className="text-sm">
+            <div className="flex justify-between gap-2">
+              <span className={`font-medium ${event.type === "refund_failed" ? "text-red-600" : "text-gray-800"}`}>
+                {RETURN_EVENT_LABELS[event.type]}
+                {event.amount !== undefined && ` · LKR ${event.amount.toFixed(2)}`}
+              </span>
+              <span className="text-gray-500 text-xs whitespace-nowrap">{new Date(event.at).toLocaleString()}</span>
+            </div>
+            {event.note && <p className="text-gray-600">{event.note}</p>}
+            {event.by && <p className="text-gray-400 text-xs">by {event.by}</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
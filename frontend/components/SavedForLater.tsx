@@ -0,0 +1,91 @@
+"use client";
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import { useCart } from "@/context/CartContext";
+import { assetUrl } from "@/services/api";
+import { isBackInStock, needsPrescription, WishlistItem } from "@/services/wishlist";
+
+interface SavedForLaterProps {
+  emptyMessage?: string;
+}
+
+// The customer's wishlist with actions to move items into the cart
+export default function SavedForLater({ emptyMessage = "Nothing saved for later yet." }: SavedForLaterProps) {
+  const { wishlist, moveToCart, removeFromWishlist } = useCart();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (item: WishlistItem, action: () => Promise<void>, success: string) => {
+    setBusyId(item.product);
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update your wishlist");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (wishlist.length === 0) {
+    return <p className="text-slate-500 text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {wishlist.map(item => {
+        const outOfStock = item.stock <= 0;
+        return (
+          <li key={item.product} className="flex items-center gap-4 py-4">
+            <div className="relative w-16 h-16 flex-shrink-0 rounded-xl border bg-slate-100 overflow-hidden">
+              {item.image && (
+                <Image src={assetUrl(item.image)} alt={item.name} fill sizes="64px" className="object-cover" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <Link href={`/products/${item.product}`} className="font-semibold text-slate-800 hover:text-blue-600 block truncate">
+                {item.name}
+              </Link>
+              <p className="text-slate-600 text-sm">LKR {item.price.toFixed(2)}</p>
+              {isBackInStock(item) ? (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                  Back in stock
+                </span>
+              ) : outOfStock && (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                  Out of stock
+                </span>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              {needsPrescription(item) ? (
+                <Link
+                  href={`/upload-prescription?product_id=${item.product}`}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700"
+                >
+                  Upload prescription
+                </Link>
+              ) : (
+                <button
+                  onClick={() => run(item, () => moveToCart(item.product), `${item.name} moved to your cart`)}
+                  disabled={outOfStock || busyId !== null}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Move to cart
+                </button>
+              )}
+              <button
+                onClick={() => run(item, () => removeFromWishlist(item.product), `${item.name} removed from your wishlist`)}
+                disabled={busyId !== null}
+                className="text-xs font-medium text-slate-500 hover:text-red-600 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
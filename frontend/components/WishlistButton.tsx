@@ -0,0 +1,65 @@
+"use client";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { Heart } from "lucide-react";
+import { useCart } from "@/context/CartContext";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+  productId: string;
+  className?: string;
+}
+
+// Heart toggle that saves a product to the signed-in customer's wishlist
+export default function WishlistButton({ productId, className }: WishlistButtonProps) {
+  const { isLoggedIn, isInWishlist, addToWishlist, removeFromWishlist } = useCart();
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const saved = isInWishlist(productId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards are often links; the heart must not open the product
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isLoggedIn) {
+      toast.error("Please login to save items to your wishlist");
+      router.push("/login");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (saved) {
+        await removeFromWishlist(productId);
+        toast.success("Removed from your wishlist");
+      } else {
+        await addToWishlist(productId);
+        toast.success("Saved to your wishlist");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update your wishlist");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saving}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from wishlist" : "Save to wishlist"}
+      title={saved ? "Remove from wishlist" : "Save to wishlist"}
+      className={cn(
+        "w-9 h-9 rounded-full bg-white/90 shadow flex items-center justify-center transition-colors disabled:opacity-50",
+        saved ? "text-red-500" : "text-slate-400 hover:text-red-500",
+        className
+      )}
+    >
+      <Heart className="w-5 h-5" fill={saved ? "currentColor" : "none"} />
+    </button>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import impersonationService, { ImpersonationRecord } from '@/services/impersonation';
+
+const formatDateTime = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+// Read-only trail of impersonation sessions and the requests made during each
+const ImpersonationAuditLog: React.FC = () => {
+    const [records, setRecords] = useState<ImpersonationRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        impersonationService.getHistory()
+            .then(setRecords)
+            .catch(err => {
+                console.error('Error fetching impersonation history:', err);
+                setError(err instanceof Error ? err.message : 'Failed to load impersonation history');
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6 mt-8">
+            <h2 className="text-xl font-bold mb-4">Impersonation Audit Log</h2>
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : error ? (
+                <p className="text-sm text-red-600">{error}</p>
+            ) : records.length === 0 ? (
+                <p className="text-sm text-gray-500">No impersonation sessions yet.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Admin</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Acted As</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ended</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {records.map(record => (
+                                <React.Fragment key={record._id}>
+                                    <tr>
+                                        <td className="px-4 py-3 text-sm text-gray-900">{record.admin.firstName} {record.admin.lastName}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-900">
+                                            {record.target.firstName} {record.target.lastName}
+                                            <span className="ml-1 text-xs text-gray-500 capitalize">({record.target.role})</span>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">{record.reason}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">{formatDateTime(record.startedAt)}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">
+                                            {record.endedAt
+                                                ? `${formatDateTime(record.endedAt)}${record.endReason === 'expired' ? ' (expired)' : ''}`
+                                                : `Expires ${formatDateTime(record.expiresAt)}`}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm">
+                                            <button
+                                                onClick={() => setExpandedId(expandedId === record._id ? null : record._id)}
+                                                disabled={record.actions.length === 0}
+                                                className="text-blue-600 hover:text-blue-900 disabled:text-gray-400"
+                                            >
+                                                {record.actions.length} recorded
+                                            </button>
+                                        </td>
+                                    </tr>
+                                    {expandedId === record._id && (
+                                        <tr>
+                                            <td colSpan={6} className="px-4 py-3 bg-gray-50">
+                                                <ul className="space-y-1 font-mono text-xs text-gray-700">
+                                                    {record.actions.map((action, idx) => (
+                                                        <li key={idx}>
+                                                            {formatDateTime(action.at)} — {action.method} {action.path} → {action.status}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImpersonationAuditLog;
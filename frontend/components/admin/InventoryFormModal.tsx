@@ -1,26 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useState, useEffect, ChangeEvent, FormEvent } from 'react';
-import axios from 'axios';
 import toast from 'react-hot-toast';
 import Image from 'next/image';
 import { Editor, EditorProvider } from 'react-simple-wysiwyg';
-
-interface InventoryItem {
-    _id: string;
-    name: string;
-    description: string;
-    price: number;
-    packPrice?: number;
-    stock: number;
-    category:string;
-    brand?: string;
-    packSize?: string;
-    tags?: string[];
-    images?: string[];
-    image?: string;
-    status: 'active' | 'inactive';
-    prescription: 'required' | 'not_required';
-}
+import { assetUrl } from '@/services/api';
+import inventoryService, { InventoryItem } from '@/services/inventory';
+import { categoryValueMap } from '@/lib/categories';
 
 interface InventoryFormModalProps {
     isOpen: boolean;
@@ -29,26 +14,6 @@ interface InventoryFormModalProps {
     onSuccess: () => void;
 }
 
-const categoryValueMap: { [key: string]: string } = {
-    'Adult Care': 'adult_care',
-    'Diabetic Care': 'diabetic_care',
-    'Hair Care': 'hair_care',
-    'Ayurveda': 'ayurveda',
-    'Skin Care': 'skin_care',
-    'Mother & Baby Care': 'mother_and_baby_care',
-    'Health & Wellness': 'health_and_wellness',
-    'Beauty Accessories': 'beauty_accessories',
-    'Cosmetics': 'cosmetics',
-    'Food Items': 'food_items',
-    'Health Monitoring Devices': 'health_monitoring_devices',
-    'Kids': 'kids',
-    'Household Remedies': 'household_remedies',
-    'Pet Care': 'pet_care',
-    'Beverages': 'beverages',
-    'Sexual Wellness': 'sexual_wellness',
-    'Instant Powdered Mixes': 'instant_powdered_mixes',
-};
-
 const categories = Object.keys(categoryValueMap);
 
 const initialFormState = {
@@ -59,6 +24,7 @@ const initialFormState = {
     category: '',
     brand: '',
     packSize: '',
+    weightKg: '',
     status: 'active' as 'active' | 'inactive',
     prescription: 'not_required' as 'required' | 'not_required',
 };
@@ -80,13 +46,12 @@ const InventoryFormModal: React.FC<InventoryFormModalProps> = ({ isOpen, onClose
                 category: itemToEdit.category,
                 brand: itemToEdit.brand || '',
                 packSize: itemToEdit.packSize || '',
+                weightKg: itemToEdit.weightKg ? String(itemToEdit.weightKg) : '',
                 status: itemToEdit.status,
                 prescription: itemToEdit.prescription,
             });
             if (itemToEdit.images && itemToEdit.images.length > 0) {
-                const existingImageUrls = itemToEdit.images.map(img => 
-                    img.startsWith('http') ? img : `http://localhost:8000/${img.replace(/\\/g, '/')}`
-                );
+                const existingImageUrls = itemToEdit.images.map(img => assetUrl(img));
                 setImagePreviews(existingImageUrls);
             } else {
                 setImagePreviews([]);
@@ -151,24 +116,18 @@ const InventoryFormModal: React.FC<InventoryFormModalProps> = ({ isOpen, onClose
                 return;
             }
 
-            const headers = { Authorization: `Bearer ${token}` };
-            let response;
+            const saved = isEditMode
+                ? await inventoryService.updateItem(itemToEdit._id, data)
+                : await inventoryService.createItem(data);
 
-            if (isEditMode) {
-                response = await axios.put(`http://localhost:8000/api/admin/inventory/${itemToEdit._id}`, data, { headers });
-            } else {
-                response = await axios.post('http://localhost:8000/api/admin/inventory', data, { headers });
-            }
-
-            if (response.data) {
+            if (saved) {
                 toast.success(`Item ${isEditMode ? 'updated' : 'added'} successfully`);
                 onSuccess();
                 handleModalClose();
             }
         } catch (error: any) {
             console.error('Submit error:', error);
-            const errorMessage = error.response?.data?.message || 'Operation failed';
-            toast.error(errorMessage);
+            toast.error(error.message || 'Operation failed');
         } finally {
             setLoading(false);
         }
@@ -255,6 +214,10 @@ const InventoryFormModal: React.FC<InventoryFormModalProps> = ({ isOpen, onClose
                                 <label htmlFor="price" className="block text-sm font-medium text-gray-700">Price</label>
                                 <input type="number" name="price" id="price" value={formData.price} onChange={handleChange} className="mt-1 block w-full rounded-md border-gray-300 shadow-sm" />
                             </div>
+                            <div>
+                                <label htmlFor="weightKg" className="block text-sm font-medium text-gray-700">Shipping Weight (kg)</label>
+                                <input type="number" name="weightKg" id="weightKg" min="0" step="0.01" value={formData.weightKg} onChange={handleChange} className="mt-1 block w-full rounded-md border-gray-300 shadow-sm" />
+                            </div>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div>
                                     <label htmlFor="stock" className="block text-sm font-medium text-gray-700">Stock</label>
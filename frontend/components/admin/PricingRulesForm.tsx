@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Plus, Trash2 } from 'lucide-react';
+import pricingService, { PricingRules } from '@/services/pricing';
+import { categoryValueMap } from '@/lib/categories';
+
+interface PricingRulesFormProps {
+    readOnly?: boolean;
+}
+
+interface CityFeeRow {
+    city: string;
+    fee: string;
+}
+
+// Rates are edited as percentages and stored as fractions; blank fields mean "not set"
+interface PricingFormState {
+    defaultTaxRate: string;
+    categoryTaxRates: Record<string, string>;
+    prescriptionTaxExempt: boolean;
+    defaultFee: string;
+    perKgFee: string;
+    freeShippingThreshold: string;
+    cityFees: CityFeeRow[];
+}
+
+const toPercent = (rate: number) => String(Math.round(rate * 10000) / 100);
+
+const toFormState = (rules: PricingRules): PricingFormState => ({
+    defaultTaxRate: toPercent(rules.defaultTaxRate),
+    categoryTaxRates: Object.fromEntries(
+        Object.entries(rules.categoryTaxRates).map(([category, rate]) => [category, toPercent(rate)])
+    ),
+    prescriptionTaxExempt: rules.prescriptionTaxExempt,
+    defaultFee: String(rules.shipping.defaultFee),
+    perKgFee: String(rules.shipping.perKgFee),
+    freeShippingThreshold: rules.shipping.freeShippingThreshold === null ? '' : String(rules.shipping.freeShippingThreshold),
+    cityFees: Object.entries(rules.shipping.cityFees).map(([city, fee]) => ({ city, fee: String(fee) })),
+});
+
+// Throws with a message naming the first invalid field
+const toRules = (form: PricingFormState): PricingRules => {
+    const amount = (value: string, label: string) => {
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+            throw new Error(`${label} must be zero or more`);
+        }
+        return parsed;
+    };
+    const rate = (value: string, label: string) => {
+        const percent = amount(value, label);
+        if (percent > 100) throw new Error(`${label} cannot be more than 100%`);
+        return percent / 100;
+    };
+
+    const categoryTaxRates: Record<string, number> = {};
+    Object.entries(form.categoryTaxRates).forEach(([category, value]) => {
+        if (value.trim() === '') return;
+        const label = Object.keys(categoryValueMap).find(name => categoryValueMap[name] === category) ?? category;
+        categoryTaxRates[category] = rate(value, `Tax rate for ${label}`);
+    });
+
+    const cityFees: Record<string, number> = {};
+    const seenCities = new Set<string>();
+    form.cityFees.forEach(({ city, fee }) => {
+        const name = city.trim();
+        if (!name) return;
+        // Cities are matched case-insensitively at checkout
+        if (seenCities.has(name.toLowerCase())) throw new Error(`${name} is listed more than once`);
+        seenCities.add(name.toLowerCase());
+        cityFees[name] = amount(fee, `Shipping fee for ${name}`);
+    });
+
+    return {
+        defaultTaxRate: rate(form.defaultTaxRate, 'Default tax rate'),
+        categoryTaxRates,
+        prescriptionTaxExempt: form.prescriptionTaxExempt,
+        shipping: {
+            defaultFee: amount(form.defaultFee, 'Default shipping fee'),
+            perKgFee: amount(form.perKgFee, 'Fee per kg'),
+            freeShippingThreshold: form.freeShippingThreshold.trim() === ''
+                ? null
+                : amount(form.freeShippingThreshold, 'Free shipping threshold'),
+            cityFees,
+        },
+    };
+};
+
+const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50';
+
+// Tax and shipping rules used by POS and online checkout alike
+const PricingRulesForm: React.FC<PricingRulesFormProps> = ({ readOnly = false }) => {
+    const [form, setForm] = useState<PricingFormState | null>(null);
+    const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        pricingService.getRules()
+            .then(rules => {
+                setForm(toFormState(rules));
+                setUpdatedAt(rules.updatedAt);
+            })
+            .catch(error => {
+                console.error('Error fetching pricing rules:', error);
+                toast.error('Failed to load the pricing rules');
+            });
+    }, []);
+
+    if (!form) {
+        return <div className="bg-white rounded-lg shadow p-6 text-gray-500">Loading pricing rules...</div>;
+    }
+
+    const update = (changes: Partial<PricingFormState>) => setForm({ ...form, ...changes });
+
+    const updateCityFee = (index: number, changes: Partial<CityFeeRow>) => {
+        update({ cityFees: form.cityFees.map((row, i) => i === index ? { ...row, ...changes } : row) });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        let rules: PricingRules;
+        try {
+            rules = toRules(form);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Please check the pricing rules');
+            return;
+        }
+
+        try {
+            setSaving(true);
+            const saved = await pricingService.updateRules(rules);
+            setForm(toFormState(saved));
+            setUpdatedAt(saved.updatedAt);
+            toast.success('Pricing rules saved');
+        } catch (error) {
+            console.error('Error saving pricing rules:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save the pricing rules');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const disabled = readOnly || saving;
+
+    return (
+        <form onSubmit={handleSave} className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Tax</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                    Category rates override the default. Leave a category blank to use the default rate.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    <label className="block text-sm font-medium text-gray-700">
+                        Default tax rate (%)
+                        <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={form.defaultTaxRate}
+                            onChange={e => update({ defaultTaxRate: e.target.value })}
+                            className={inputClass}
+                            disabled={disabled}
+                            required
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+                        <input
+                            type="checkbox"
+                            checked={form.prescriptionTaxExempt}
+                            onChange={e => update({ prescriptionTaxExempt: e.target.checked })}
+                            disabled={disabled}
+                        />
+                        Prescription items are tax-exempt
+                    </label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {Object.entries(categoryValueMap).map(([label, category]) => (
+                        <label key={category} className="block text-sm text-gray-700">
+                            {label}
+                            <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.01"
+                                value={form.categoryTaxRates[category] ?? ''}
+                                onChange={e => update({ categoryTaxRates: { ...form.categoryTaxRates, [category]: e.target.value } })}
+                                placeholder={`${form.defaultTaxRate || 0} (default)`}
+                                className={inputClass}
+                                disabled={disabled}
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Shipping</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                    Online orders pay the city fee (or the default fee) plus the weight fee. Counter sales are never charged shipping.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <label className="block text-sm font-medium text-gray-700">
+                        Default fee (LKR)
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={form.defaultFee}
+                            onChange={e => update({ defaultFee: e.target.value })}
+                            className={inputClass}
+                            disabled={disabled}
+                            required
+                        />
+                    </label>
+                    <label className="block text-sm font-medium text-gray-700">
+                        Fee per kg (LKR)
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={form.perKgFee}
+                            onChange={e => update({ perKgFee: e.target.value })}
+                            className={inputClass}
+                            disabled={disabled}
+                            required
+                        />
+                    </label>
+                    <label className="block text-sm font-medium text-gray-700">
+                        Free shipping from (LKR)
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={form.freeShippingThreshold}
+                            onChange={e => update({ freeShippingThreshold: e.target.value })}
+                            placeholder="No threshold"
+                            className={inputClass}
+                            disabled={disabled}
+                        />
+                    </label>
+                </div>
+
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">City fees</h3>
+                {form.cityFees.length === 0 && (
+                    <p className="text-sm text-gray-500 mb-2">Every city pays the default fee.</p>
+                )}
+                <div className="space-y-2">
+                    {form.cityFees.map((row, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                            <input
+                                type="text"
+                                value={row.city}
+                                onChange={e => updateCityFee(index, { city: e.target.value })}
+                                placeholder="City"
+                                className={inputClass}
+                                disabled={disabled}
+                            />
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={row.fee}
+                                onChange={e => updateCityFee(index, { fee: e.target.value })}
+                                placeholder="Fee (LKR)"
+                                className={inputClass}
+                                disabled={disabled}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => update({ cityFees: form.cityFees.filter((_, i) => i !== index) })}
+                                className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                disabled={disabled}
+                                aria-label={`Remove ${row.city || 'city'}`}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                {!readOnly && (
+                    <button
+                        type="button"
+                        onClick={() => update({ cityFees: [...form.cityFees, { city: '', fee: '' }] })}
+                        className="mt-3 flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                        disabled={saving}
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add city
+                    </button>
+                )}
+            </div>
+
+            <div className="flex items-center justify-end gap-4">
+                {updatedAt && (
+                    <span className="text-sm text-gray-500">Last changed {new Date(updatedAt).toLocaleString()}</span>
+                )}
+                {!readOnly && (
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {saving ? 'Saving...' : 'Save Rules'}
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+};
+
+export default PricingRulesForm;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import ReturnTimeline from '@/components/ReturnTimeline';
+import { getApprovedItemValue } from '@/lib/returns';
+import { formatPaymentMethod } from '@/lib/tenders';
+import { refundPayment } from '@/services/paymentGateway';
+import returnsService, { Refund, ReturnRequest } from '@/services/returns';
+
+interface ReturnReviewPanelProps {
+    request: ReturnRequest;
+    canRefund: boolean;
+    onUpdated: (request: ReturnRequest) => void;
+}
+
+// Card refunds the backend recorded but the provider has not been asked for yet
+const getProviderRefunds = (request: ReturnRequest): Refund[] =>
+    request.refunds.filter(refund => refund.provider && refund.status === 'pending');
+
+const ReturnReviewPanel: React.FC<ReturnReviewPanelProps> = ({ request, canRefund, onUpdated }) => {
+    const [approved, setApproved] = useState<Record<string, number>>(() =>
+        Object.fromEntries(request.items.map(line => [line.itemId, line.quantity]))
+    );
+    const [restock, setRestock] = useState(request.kind === 'cancellation');
+    const [note, setNote] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const itemValue = getApprovedItemValue(request.items, approved);
+    const pendingRefunds = getProviderRefunds(request);
+
+    // Each card refund is confirmed by the provider's webhook, so the request is reloaded afterwards
+    const sendProviderRefunds = async (refunds: Refund[]) => {
+        const failures: string[] = [];
+        for (const refund of refunds) {
+            try {
+                await refundPayment(refund.paymentId, refund.amount, `${request.kind} ${request.orderNumber}: ${request.reason}`);
+            } catch (error) {
+                failures.push(error instanceof Error ? error.message : 'Refund failed');
+            }
+        }
+        if (failures.length > 0) {
+            toast.error(`Card refund failed: ${failures.join(', ')}`);
+        }
+        onUpdated(await returnsService.getReturn(request._id));
+    };
+
+    const handleApprove = async () => {
+        const items = request.items.map(line => ({ itemId: line.itemId, quantity: approved[line.itemId] ?? 0 }));
+        if (!items.some(item => item.quantity > 0)) {
+            toast.error('Approve at least one item, or reject the request');
+            return;
+        }
+        setBusy(true);
+        try {
+            const result = await returnsService.approve(request._id, { items, restock, note: note.trim() || undefined });
+            onUpdated(result);
+            toast.success('Request approved');
+            const refunds = getProviderRefunds(result);
+            if (refunds.length > 0) await sendProviderRefunds(refunds);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to approve the request');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!note.trim()) {
+            toast.error('Add a note explaining the rejection');
+            return;
+        }
+        setBusy(true);
+        try {
+            onUpdated(await returnsService.reject(request._id, note.trim()));
+            toast.success('Request rejected');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to reject the request');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRetryRefunds = async () => {
+        setBusy(true);
+        try {
+            await sendProviderRefunds(pendingRefunds);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to refresh the request');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                    {request.kind === 'cancellation' ? 'Cancellation' : 'Return'} for {request.orderNumber}
+                </h2>
+                {request.customer && (
+                    <p className="text-sm text-gray-500">{request.customer.name} · {request.customer.email}</p>
+                )}
+                <p className="mt-2 text-gray-700"><span className="font-medium">Reason:</span> {request.reason}</p>
+            </div>
+
+            {request.status === 'requested' && canRefund && (
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        {request.items.map(line => (
+                            <div key={line.itemId} className="flex items-center justify-between gap-3 text-sm">
+                                <span className="flex-1 text-gray-700">
+                                    {line.name} <span className="text-gray-400">· Rs.{line.price.toFixed(2)} each</span>
+                                </span>
+                                <select
+                                    value={approved[line.itemId] ?? 0}
+                                    onChange={e => setApproved(prev => ({ ...prev, [line.itemId]: Number(e.target.value) }))}
+                                    className="px-2 py-1 border border-gray-300 rounded-lg"
+                                >
+                                    {Array.from({ length: line.quantity + 1 }, (_, quantity) => (
+                                        <option key={quantity} value={quantity}>{quantity} of {line.quantity}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                        Approved items: <span className="font-semibold text-gray-900">Rs.{itemValue.toFixed(2)}</span>
+                        <span className="text-gray-400"> (tax and shipping are added by the backend)</span>
+                    </p>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" checked={restock} onChange={e => setRestock(e.target.checked)} />
+                        Return the approved items to stock
+                    </label>
+                    <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        rows={2}
+                        placeholder="Note (required when rejecting)"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            onClick={handleReject}
+                            disabled={busy}
+                            className="flex-1 border border-red-300 text-red-600 py-2 px-4 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+                        >
+                            Reject
+                        </button>
+                        <button
+                            onClick={handleApprove}
+                            disabled={busy}
+                            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {busy ? 'Saving...' : 'Approve & Refund'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {request.refunds.length > 0 && (
+                <div>
+                    <h3 className="font-medium text-gray-900 mb-2">Refunds</h3>
+                    <ul className="space-y-1 text-sm">
+                        {request.refunds.map(refund => (
+                            <li key={refund._id} className="flex justify-between">
+                                <span className="text-gray-700">{formatPaymentMethod(refund.method)}</span>
+                                <span className={refund.status === 'failed' ? 'text-red-600' : refund.status === 'pending' ? 'text-yellow-700' : 'text-green-700'}>
+                                    Rs.{refund.amount.toFixed(2)} · {refund.status}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                    {pendingRefunds.length > 0 && canRefund && (
+                        <button
+                            onClick={handleRetryRefunds}
+                            disabled={busy}
+                            className="mt-3 w-full bg-gray-200 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 disabled:opacity-50"
+                        >
+                            Send pending card refunds
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <ReturnTimeline request={request} />
+        </div>
+    );
+};
+
+export default ReturnReviewPanel;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Role, STAFF_ROLES } from '@/services/auth';
+import twoFactorService from '@/services/twoFactor';
+
+// Lets an admin choose which staff roles must use two-factor authentication
+const TwoFactorPolicyCard: React.FC = () => {
+    const [requiredRoles, setRequiredRoles] = useState<Role[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        twoFactorService.getPolicy()
+            .then(policy => setRequiredRoles(policy.requiredRoles || []))
+            .catch(error => {
+                console.error('Error fetching 2FA policy:', error);
+                toast.error('Failed to load the two-factor policy');
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const toggleRole = (role: Role) => {
+        setRequiredRoles(prev => prev.includes(role) ? prev.filter(r => r !== role) : [...prev, role]);
+    };
+
+    const handleSave = async () => {
+        try {
+            setSaving(true);
+            const policy = await twoFactorService.updatePolicy({ requiredRoles });
+            setRequiredRoles(policy.requiredRoles || []);
+            toast.success('Two-factor policy saved');
+        } catch (error) {
+            console.error('Error saving 2FA policy:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save the two-factor policy');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Two-Factor Authentication Policy</h2>
+            <p className="text-sm text-gray-500 mb-4">
+                Staff in the selected roles must set up an authenticator app the next time they sign in.
+            </p>
+            <div className="flex flex-wrap items-center gap-6">
+                {STAFF_ROLES.map(role => (
+                    <label key={role} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+                        <input
+                            type="checkbox"
+                            checked={requiredRoles.includes(role)}
+                            onChange={() => toggleRole(role)}
+                            disabled={loading || saving}
+                        />
+                        {role}
+                    </label>
+                ))}
+                <button
+                    onClick={handleSave}
+                    disabled={loading || saving}
+                    className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : 'Save Policy'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TwoFactorPolicyCard;
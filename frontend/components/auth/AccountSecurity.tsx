@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Sidebar from '@/components/layout/Sidebar';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
+import ActiveSessions from '@/components/auth/ActiveSessions';
+import authService, { Role, User } from '@/services/auth';
+
+interface AccountSecurityProps {
+  role: Role;
+}
+
+// Security page for staff without a profile page: two-factor sign-in and signed-in devices
+export default function AccountSecurity({ role }: AccountSecurityProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authService.fetchProfile()
+      .then(setUser)
+      .catch(() => setError('Failed to load your account'));
+  }, []);
+
+  return (
+    <ProtectedRoute role={role}>
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar role={role} />
+        <main className="flex-1 ml-64 p-8">
+          <div className="max-w-4xl mx-auto space-y-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Security</h1>
+              <p className="text-gray-600">Protect your account with an authenticator app and review where you are signed in.</p>
+            </div>
+
+            {error ? (
+              <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+            ) : user && (
+              <TwoFactorSettings
+                enabled={!!user.twoFactorEnabled}
+                onChange={(twoFactorEnabled) => setUser({ ...user, twoFactorEnabled })}
+              />
+            )}
+
+            <ActiveSessions />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
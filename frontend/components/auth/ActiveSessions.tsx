@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import authService, { ActiveSession } from '@/services/auth';
+
+const isMobile = (session: ActiveSession) =>
+  /mobile|android|iphone|ipad|tablet/i.test(`${session.device ?? ''} ${session.os ?? ''}`);
+
+const describeDevice = (session: ActiveSession) => {
+  const device = session.device || session.os || 'Unknown device';
+  return session.browser ? `${session.browser} on ${device}` : device;
+};
+
+// Profile card listing every device signed in to the account
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (session.current) {
+      authService.logout();
+      window.location.assign('/login');
+      return;
+    }
+
+    setRevoking(session._id);
+    try {
+      await authService.revokeSession(session._id);
+      setSessions(prev => prev.filter(s => s._id !== session._id));
+      toast.success('Device signed out');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out device');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+
+    setRevoking('all');
+    try {
+      await authService.revokeAllSessions();
+      // Full reload so no page keeps the signed-in state
+      window.location.assign('/login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out everywhere');
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+      <div className="bg-gradient-to-r from-gray-50 to-blue-50 px-8 py-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center">
+              <Monitor className="w-4 h-4 text-white" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900">Sessions</h3>
+          </div>
+          <button
+            onClick={handleRevokeAll}
+            disabled={loading || revoking !== null || sessions.length === 0}
+            className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 text-sm font-medium"
+          >
+            Log out everywhere
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8">
+        {loading ? (
+          <p className="text-gray-500">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-gray-500">No active sessions found.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+              return (
+                <li key={session._id} className="py-4 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 min-w-0">
+                    <DeviceIcon className="w-6 h-6 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {describeDevice(session)}
+                        {session.current && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {[session.location, session.ipAddress].filter(Boolean).join(' · ')}
+                        {(session.location || session.ipAddress) && ' · '}
+                        Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={revoking !== null}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    {revoking === session._id ? 'Signing out...' : 'Log out'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
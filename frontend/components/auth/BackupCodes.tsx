@@ -0,0 +1,40 @@
+'use client';
+
+import toast from 'react-hot-toast';
+
+interface BackupCodesProps {
+  codes: string[];
+}
+
+// Backup codes are only ever shown once, right after they are generated
+export default function BackupCodes({ codes }: BackupCodesProps) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Backup codes copied');
+    } catch {
+      toast.error('Could not copy the codes. Please write them down instead.');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-4">
+      <p className="text-sm font-medium text-yellow-900 mb-1">Save your backup codes</p>
+      <p className="text-xs text-yellow-800 mb-3">
+        Each code signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 mb-3">
+        {codes.map(code => (
+          <li key={code} className="bg-white rounded px-2 py-1 text-center border border-yellow-200">{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        Copy codes
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import authService from '@/services/auth';
+
+interface EmailVerificationNoticeProps {
+  email: string;
+  message?: string;
+}
+
+// Explains why an action is blocked and lets the user request a fresh verification link
+export default function EmailVerificationNotice({
+  email,
+  message = 'Please verify your email address to continue.',
+}: EmailVerificationNoticeProps) {
+  const [cooldown, setCooldown] = useState(0);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    const update = () => setCooldown(authService.getResendCooldown(email));
+    update();
+    const interval = window.setInterval(update, 1000);
+    return () => window.clearInterval(interval);
+  }, [email]);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const response = await authService.resendVerification(email);
+      toast.success(response.message || 'Verification email sent');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification email');
+    } finally {
+      setCooldown(authService.getResendCooldown(email));
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg">
+      <p className="text-sm text-yellow-800">{message}</p>
+      <p className="text-sm text-yellow-800 mt-1">
+        Verification links are sent to <span className="font-semibold">{email}</span>.
+      </p>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={sending || cooldown > 0}
+        className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        {sending
+          ? 'Sending...'
+          : cooldown > 0
+            ? `Resend available in ${Math.ceil(cooldown / 1000)}s`
+            : 'Resend verification email'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import impersonationService from '@/services/impersonation';
+import { expireSession } from '@/services/api';
+import {
+  getImpersonation,
+  ImpersonationState,
+  IMPERSONATION_CHANGED_EVENT,
+  IMPERSONATION_REJECTED_EVENT,
+} from '@/services/session';
+import { formatCountdown } from '@/lib/utils';
+
+// Shown on every page while an admin is acting as another user
+export default function ImpersonationBanner() {
+  const [impersonation, setImpersonation] = useState<ImpersonationState | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [returning, setReturning] = useState(false);
+  // Ending the record can itself be rejected and fire the event again
+  const returningRef = useRef(false);
+
+  const returnToAdmin = useCallback(async (endReason: 'manual' | 'expired') => {
+    if (returningRef.current) return;
+    returningRef.current = true;
+    setReturning(true);
+    try {
+      await impersonationService.stop(endReason);
+    } catch (error) {
+      // The admin's own sign-in lapsed while impersonating, so they must sign in again
+      console.error('Error restoring admin session:', error);
+      expireSession();
+      return;
+    }
+    // Full reload so no page keeps state fetched as the other user
+    window.location.assign(endReason === 'expired' ? '/dashboard/admin?impersonation=expired' : '/dashboard/admin');
+  }, []);
+
+  useEffect(() => {
+    const sync = () => setImpersonation(getImpersonation());
+    const handleRejected = () => returnToAdmin('expired');
+
+    sync();
+    window.addEventListener(IMPERSONATION_CHANGED_EVENT, sync);
+    window.addEventListener(IMPERSONATION_REJECTED_EVENT, handleRejected);
+    return () => {
+      window.removeEventListener(IMPERSONATION_CHANGED_EVENT, sync);
+      window.removeEventListener(IMPERSONATION_REJECTED_EVENT, handleRejected);
+    };
+  }, [returnToAdmin]);
+
+  useEffect(() => {
+    if (!impersonation || returning) return;
+
+    const tick = () => {
+      const left = new Date(impersonation.expiresAt).getTime() - Date.now();
+      setRemaining(left);
+      if (left <= 0) returnToAdmin('expired');
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [impersonation, returning, returnToAdmin]);
+
+  if (!impersonation) return null;
+
+  const { target } = impersonation;
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-[60] bg-amber-500 text-amber-950 shadow-md">
+      <div className="flex items-center justify-center gap-4 px-4 py-2 text-sm">
+        <span>
+          Acting as <strong>{target.firstName} {target.lastName}</strong> ({target.role}).
+          Every action is recorded.
+        </span>
+        <span className="font-mono">Ends in {formatCountdown(remaining)}</span>
+        <button
+          onClick={() => returnToAdmin('manual')}
+          disabled={returning}
+          className="px-3 py-1 rounded bg-amber-950 text-white font-medium hover:bg-amber-900 disabled:opacity-50"
+        >
+          {returning ? 'Returning...' : 'Return to admin'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,24 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import authService, { getUserRoles, Role, User } from '@/services/auth';
+import { hasPermission, Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  role: string;
+  // Access is granted when the user holds any of these roles
+  role?: Role | Role[];
+  // ...and every one of these permissions
+  permission?: Permission | Permission[];
 }
 
-export default function ProtectedRoute({ children, role }: ProtectedRouteProps) {
+export default function ProtectedRoute({ children, role, permission }: ProtectedRouteProps) {
   const router = useRouter();
   const [isAuthorized, setIsAuthorized] = useState(false);
+  const allowedRoles = role === undefined ? [] : Array.isArray(role) ? role : [role];
+  const requiredPermissions = permission === undefined ? [] : Array.isArray(permission) ? permission : [permission];
+  const rolesKey = allowedRoles.join(',');
+  const permissionsKey = requiredPermissions.join(',');
 
   useEffect(() => {
     const user = sessionStorage.getItem('user');
@@ -20,21 +29,36 @@ export default function ProtectedRoute({ children, role }: ProtectedRouteProps)
     }
 
     try {
-      const userData = JSON.parse(user);
-      if (userData.role !== role) {
+      const userData: User = JSON.parse(user);
+      const userRoles = getUserRoles(userData);
+      const allowed = rolesKey ? (rolesKey.split(',') as Role[]) : [];
+      const required = permissionsKey ? (permissionsKey.split(',') as Permission[]) : [];
+
+      const matchingRoles = allowed.filter(allowedRole => userRoles.includes(allowedRole));
+      if (allowed.length > 0 && matchingRoles.length === 0) {
+        router.push('/dashboard');
+        return;
+      }
+      if (!required.every(name => hasPermission(userData, name))) {
         router.push('/dashboard');
         return;
       }
+
+      // Keep the sidebar in step when a multi-role user opens another role's page
+      const activeRole = authService.getActiveRole();
+      if (matchingRoles.length > 0 && (!activeRole || !matchingRoles.includes(activeRole))) {
+        authService.setActiveRole(matchingRoles[0]);
+      }
       setIsAuthorized(true);
     } catch (error) {
       console.error('Error parsing user data:', error);
       router.push('/login');
     }
-  }, [role, router]);
+  }, [rolesKey, permissionsKey, router]);
 
   if (!isAuthorized) {
     return null;
   }
 
   return <>{children}</>;
-} 
\ No newline at end of file
+}
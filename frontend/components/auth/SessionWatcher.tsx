@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect } from 'react';
+import { expireSession, refreshAccessToken } from '@/services/api';
+import { isTokenExpiring } from '@/services/tokens';
+import { getImpersonation } from '@/services/session';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Refreshes the token in the background so idle pages don't hit an expired one
+export default function SessionWatcher() {
+  useEffect(() => {
+    const checkToken = async () => {
+      const token = sessionStorage.getItem('token');
+      // ImpersonationBanner owns expiry while an admin is acting as someone else
+      if (!token || getImpersonation() || !isTokenExpiring(token)) return;
+
+      const refreshed = await refreshAccessToken();
+      if (!refreshed && isTokenExpiring(token, 0)) {
+        expireSession();
+      }
+    };
+
+    checkToken();
+    const interval = window.setInterval(checkToken, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import authService, { User } from '@/services/auth';
+import { TwoFactorChallenge } from '@/services/twoFactor';
+import BackupCodes from './BackupCodes';
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  onVerified: (user: User) => void;
+  onCancel: () => void;
+}
+
+export default function TwoFactorLoginStep({ challenge, onVerified, onCancel }: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [verifiedUser, setVerifiedUser] = useState<User | null>(null);
+  const { setup } = challenge;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!code.trim()) {
+      setError(useBackupCode ? 'Enter one of your backup codes' : 'Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authService.verifyTwoFactor(challenge.challengeToken, code.trim(), useBackupCode);
+      // Enrolment during sign-in issues backup codes that must be shown before moving on
+      if (response.backupCodes?.length) {
+        setBackupCodes(response.backupCodes);
+        setVerifiedUser(response.user);
+        return;
+      }
+      onVerified(response.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (backupCodes && verifiedUser) {
+    return (
+      <div className="space-y-6">
+        <BackupCodes codes={backupCodes} />
+        <button
+          type="button"
+          onClick={() => onVerified(verifiedUser)}
+          className="w-full py-3 px-4 rounded-lg text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+        >
+          I have saved my codes, continue
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {setup ? (
+        <div className="space-y-3 text-center">
+          <p className="text-sm text-gray-700">
+            Your role requires two-factor authentication. Scan this code with an authenticator app, then enter the code it shows.
+          </p>
+          <Image src={setup.qrCode} alt="Two-factor QR code" width={180} height={180} unoptimized className="mx-auto" />
+          <p className="text-xs text-gray-500">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono text-gray-800 break-all">{setup.secret}</span>
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <input
+        type="text"
+        inputMode={useBackupCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        autoFocus
+        maxLength={useBackupCode ? 20 : 6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        disabled={loading}
+        className="block w-full px-3 py-2 rounded-lg border border-gray-300 text-center tracking-widest font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+      />
+
+      <button
+        type="submit"
+        disabled={loading}
+        className={`w-full py-3 px-4 rounded-lg text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 ${
+          loading ? 'opacity-75 cursor-not-allowed' : ''
+        }`}
+      >
+        {loading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex items-center justify-between text-sm">
+        {!setup && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseBackupCode(prev => !prev);
+              setCode('');
+              setError('');
+            }}
+            className="font-medium text-blue-600 hover:text-blue-700"
+          >
+            {useBackupCode ? 'Use authenticator code' : 'Use a backup code'}
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="ml-auto text-gray-600 hover:text-gray-800">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
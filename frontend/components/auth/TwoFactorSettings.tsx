@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import toast from 'react-hot-toast';
+import { ShieldCheck } from 'lucide-react';
+import twoFactorService, { TwoFactorSetup } from '@/services/twoFactor';
+import BackupCodes from './BackupCodes';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+// Profile card for turning TOTP two-factor authentication on and off
+export default function TwoFactorSettings({ enabled, onChange }: TwoFactorSettingsProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    setBackupCodes(null);
+    setSetup(await twoFactorService.startSetup());
+  }, 'Failed to start two-factor setup');
+
+  const handleEnable = () => run(async () => {
+    const codes = await twoFactorService.enable(code.trim());
+    setSetup(null);
+    setCode('');
+    setBackupCodes(codes);
+    onChange(true);
+    toast.success('Two-factor authentication is on');
+  }, 'Invalid code');
+
+  const handleRegenerate = () => run(async () => {
+    setBackupCodes(await twoFactorService.regenerateBackupCodes(code.trim()));
+    setCode('');
+    toast.success('New backup codes generated');
+  }, 'Invalid code');
+
+  const handleDisable = () => run(async () => {
+    await twoFactorService.disable(code.trim());
+    setCode('');
+    setBackupCodes(null);
+    onChange(false);
+    toast.success('Two-factor authentication is off');
+  }, 'Invalid code');
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={6}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      disabled={loading}
+      placeholder="123456"
+      className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-center font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+      <div className="bg-gradient-to-r from-gray-50 to-blue-50 px-8 py-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
+              <ShieldCheck className="w-4 h-4 text-white" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900">Two-Factor Authentication</h3>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+            enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+          }`}>
+            {enabled ? 'On' : 'Off'}
+          </span>
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        {backupCodes && <BackupCodes codes={backupCodes} />}
+
+        {!enabled && !setup && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-gray-600">
+              Require a code from an authenticator app in addition to your password when you sign in.
+            </p>
+            <button
+              onClick={handleStartSetup}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+            >
+              Set up
+            </button>
+          </div>
+        )}
+
+        {!enabled && setup && (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              Scan this QR code with Google Authenticator, Authy or a similar app, then enter the 6-digit code it shows.
+            </p>
+            <Image src={setup.qrCode} alt="Two-factor QR code" width={180} height={180} unoptimized />
+            <p className="text-xs text-gray-500">
+              Can&apos;t scan it? Enter this key instead: <span className="font-mono text-gray-800 break-all">{setup.secret}</span>
+            </p>
+            <div className="flex items-center gap-3">
+              {codeInput}
+              <button
+                onClick={handleEnable}
+                disabled={loading || code.trim().length < 6}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Turn on
+              </button>
+              <button
+                onClick={() => { setSetup(null); setCode(''); }}
+                disabled={loading}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {enabled && (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              Enter a current code from your authenticator app to get new backup codes or to turn two-factor authentication off.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {codeInput}
+              <button
+                onClick={handleRegenerate}
+                disabled={loading || code.trim().length < 6}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                New backup codes
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={loading || code.trim().length < 6}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
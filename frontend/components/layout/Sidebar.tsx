@@ -1,7 +1,7 @@
 "use client";
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { 
   Home, 
   BarChart3, 
@@ -18,63 +18,99 @@ import {
   Stethoscope,
   Pill,
   Activity,
-  Bell
+  Bell,
+  Receipt,
+  Heart,
+  Undo2,
+  ClipboardList,
+  ShieldCheck
 } from 'lucide-react';
 import { useCart } from '@/context/CartContext';
 import LogoutConfirmModal from '@/components/LogoutConfirmModal';
+import NotificationBell from '@/components/NotificationBell';
+import authService, { Role } from '@/services/auth';
+import { useCan } from '@/lib/useCan';
 
 interface SidebarProps {
-  role: string;
+  role: Role;
 }
 
+interface SidebarLink {
+  href: string;
+  label: string;
+  icon: typeof Home;
+}
+
+const formatRole = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
 export default function Sidebar({ role }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const { logout } = useCart();
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [userRoles, setUserRoles] = useState<Role[]>([role]);
+  const can = useCan();
+
+  useEffect(() => {
+    const roles = authService.getRoles();
+    if (roles.length > 0) setUserRoles(roles);
+  }, []);
 
   const isActive = (path: string) => {
     return pathname === path;
   };
 
-  const getCustomerLinks = () => {
+  const getCustomerLinks = (): SidebarLink[] => {
     return [
       { href: '/', label: 'Home', icon: Home },
       { href: '/dashboard/customer', label: 'Dashboard', icon: BarChart3 },
       { href: '/dashboard/customer/consultations', label: 'Consultations', icon: Stethoscope },
       { href: '/dashboard/customer/prescriptions', label: 'My Prescriptions', icon: Pill },
+      { href: '/dashboard/customer/reminders', label: 'Reminders', icon: Bell },
       { href: '/dashboard/customer/orders', label: 'My Orders', icon: ShoppingCart },
+      { href: '/dashboard/customer/wishlist', label: 'Wishlist', icon: Heart },
       { href: '/dashboard/customer/profile', label: 'Profile', icon: User },
     ];
   };
 
-  const getStaffLinks = () => {
-    const links = [
-      { href: `/dashboard/${role}`, label: 'Dashboard', icon: BarChart3 },
+  const getStaffLinks = (staffRole: Role): SidebarLink[] => {
+    const links: SidebarLink[] = [
+      { href: `/dashboard/${staffRole}`, label: 'Dashboard', icon: BarChart3 },
     ];
 
-    if (role === 'admin') {
+    if (staffRole === 'admin') {
       links.push(
         { href: '/dashboard/admin/users', label: 'Users Management', icon: Users },
         { href: '/dashboard/admin/orders', label: 'Orders', icon: ShoppingCart },
+        { href: '/dashboard/admin/returns', label: 'Returns', icon: Undo2 },
         { href: '/dashboard/admin/inventory', label: 'Inventory', icon: Package },
+        { href: '/dashboard/pharmacist/controlled-drugs', label: 'Controlled Drugs', icon: ClipboardList },
+        { href: '/dashboard/admin/pricing', label: 'Tax & Shipping', icon: Receipt },
         // { href: '/dashboard/admin/delivery', label: 'Delivery', icon: Truck },
         { href: '/dashboard/admin/reports', label: 'Reports', icon: Activity },
         { href: '/dashboard/admin/doctors', label: 'Doctors', icon: Stethoscope },
-        { href: '/dashboard/admin/message', label: 'Notification', icon: Bell }
+        { href: '/dashboard/admin/message', label: 'Notification', icon: Bell },
+        { href: '/dashboard/admin/security', label: 'Security', icon: ShieldCheck }
       );
     }
 
-    if (role === 'pharmacist') {
+    if (staffRole === 'pharmacist') {
       links.push(
         // { href: '/dashboard/pharmacist', label: 'Dashboard', icon: BarChart3 },
         { href: '/dashboard/pharmacist/prescriptions', label: 'Prescriptions', icon: FileText },
+        { href: '/dashboard/pharmacist/orders', label: 'Online Orders', icon: ShoppingCart },
         { href: '/dashboard/pharmacist/pos', label: 'Point of Sale', icon: CreditCard },
         { href: '/dashboard/pharmacist/inventory', label: 'Inventory', icon: Package },
+        { href: '/dashboard/pharmacist/controlled-drugs', label: 'Controlled Drugs', icon: ClipboardList },
+        { href: '/dashboard/pharmacist/security', label: 'Security', icon: ShieldCheck },
       );
+      // Senior pharmacists can be granted inventory editing without being admins
+      if (can('inventory.edit') && !userRoles.includes('admin')) {
+        links.push({ href: '/dashboard/admin/inventory', label: 'Manage Inventory', icon: Package });
+      }
     }
 
-    if (role === 'doctor') {
+    if (staffRole === 'doctor') {
       links.push(
         { href: '/dashboard/doctor/appointments', label: 'Appointments', icon: Calendar },
         { href: '/dashboard/doctor/availability', label: 'Availability', icon: Clock },
@@ -82,7 +118,7 @@ export default function Sidebar({ role }: SidebarProps) {
       );
     }
 
-    if (role === 'delivery') {
+    if (staffRole === 'delivery') {
       links.push(
         { href: '/dashboard/delivery/assignedorders', label: 'Assigned Orders', icon: Package },
         { href: '/dashboard/delivery/history', label: 'Delivery History', icon: Truck },
@@ -90,10 +126,69 @@ export default function Sidebar({ role }: SidebarProps) {
       );
     }
 
+    // Staff granted order or pricing rights without being admins
+    if (staffRole !== 'admin' && !userRoles.includes('admin')) {
+      if (can('orders.manage') || can('orders.refund')) {
+        links.push({ href: '/dashboard/admin/orders', label: 'Orders', icon: ShoppingCart });
+      }
+      if (can('orders.refund')) {
+        links.push({ href: '/dashboard/admin/returns', label: 'Returns', icon: Undo2 });
+      }
+      if (can('pricing.manage')) {
+        links.push({ href: '/dashboard/admin/pricing', label: 'Tax & Shipping', icon: Receipt });
+      }
+    }
+
     return links;
   };
 
-  const links = role === 'customer' ? getCustomerLinks() : getStaffLinks();
+  const getLinksForRole = (linkRole: Role) =>
+    linkRole === 'customer' ? getCustomerLinks() : getStaffLinks(linkRole);
+
+  const links = getLinksForRole(role);
+
+  // Links from the user's other roles, minus any already shown above
+  const seenHrefs = new Set(links.map(link => link.href));
+  const otherRoleLinks = userRoles
+    .filter(userRole => userRole !== role)
+    .map(userRole => ({
+      role: userRole,
+      links: getLinksForRole(userRole).filter(link => {
+        if (seenHrefs.has(link.href)) return false;
+        seenHrefs.add(link.href);
+        return true;
+      }),
+    }))
+    .filter(group => group.links.length > 0);
+
+  const handleRoleSwitch = (nextRole: Role) => {
+    authService.setActiveRole(nextRole);
+    router.push(`/dashboard/${nextRole}`);
+  };
+
+  const renderLink = (link: SidebarLink) => {
+    const IconComponent = link.icon;
+    return (
+      <li key={link.href}>
+        <Link
+          href={link.href}
+          className={`flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 group ${
+            isActive(link.href) 
+              ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg shadow-blue-500/25' 
+              : 'text-slate-300 hover:bg-slate-700 hover:text-white'
+          }`}
+        >
+          <IconComponent className={`w-5 h-5 ${
+            isActive(link.href) ? 'text-white' : 'text-slate-400 group-hover:text-white'
+          }`} />
+          <span className="font-medium">{link.label}</span>
+          {isActive(link.href) && (
+            <div className="ml-auto w-2 h-2 bg-white rounded-full"></div>
+          )}
+        </Link>
+      </li>
+    );
+  };
 
   const handleLogout = () => {
     setShowLogoutModal(true);
@@ -121,37 +216,45 @@ export default function Sidebar({ role }: SidebarProps) {
             <h2 className="text-xl font-bold text-white">SK Medicals</h2>
             <p className="text-xs text-slate-400 capitalize">{role} Portal</p>
           </div>
+          {role === 'customer' && (
+            <div className="ml-auto">
+              <NotificationBell />
+            </div>
+          )}
         </div>
+        {userRoles.length > 1 && (
+          <div className="mt-4">
+            <label htmlFor="role-switcher" className="block text-xs text-slate-400 mb-1">Switch role</label>
+            <select
+              id="role-switcher"
+              value={role}
+              onChange={(e) => handleRoleSwitch(e.target.value as Role)}
+              className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {userRoles.map(userRole => (
+                <option key={userRole} value={userRole}>{formatRole(userRole)}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Navigation */}
-      <div className="flex-1 p-4">
+      <div className="flex-1 p-4 overflow-y-auto">
         <nav>
           <ul className="space-y-2">
-            {links.map((link) => {
-              const IconComponent = link.icon;
-              return (
-                <li key={link.href}>
-                  <Link
-                    href={link.href}
-                    className={`flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 group ${
-                      isActive(link.href) 
-                        ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg shadow-blue-500/25' 
-                        : 'text-slate-300 hover:bg-slate-700 hover:text-white'
-                    }`}
-                  >
-                    <IconComponent className={`w-5 h-5 ${
-                      isActive(link.href) ? 'text-white' : 'text-slate-400 group-hover:text-white'
-                    }`} />
-                    <span className="font-medium">{link.label}</span>
-                    {isActive(link.href) && (
-                      <div className="ml-auto w-2 h-2 bg-white rounded-full"></div>
-                    )}
-                  </Link>
-                </li>
-              );
-            })}
+            {links.map(renderLink)}
           </ul>
+          {otherRoleLinks.map(group => (
+            <div key={group.role} className="mt-6">
+              <p className="px-4 mb-2 text-xs font-semibold uppercase tracking-wider text-slate-500">
+                {formatRole(group.role)}
+              </p>
+              <ul className="space-y-2">
+                {group.links.map(renderLink)}
+              </ul>
+            </div>
+          ))}
         </nav>
 
         {/* Quick Actions */}
@@ -185,7 +288,7 @@ export default function Sidebar({ role }: SidebarProps) {
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-white truncate">
-                {role === 'customer' ? 'Customer' : role.charAt(0).toUpperCase() + role.slice(1)}
+                {formatRole(role)}
               </p>
               <p className="text-xs text-slate-400">Active Session</p>
             </div>
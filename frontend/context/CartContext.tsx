@@ -1,7 +1,14 @@
 'use client';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import userService from '../services/user';
-import { useRouter } from 'next/navigation';
+import authService from '../services/auth';
+import { setImpersonation } from '../services/session';
+import { CartAdjustment, clearGuestCart, getGuestCart, mergeCarts, saveGuestCart } from '../services/cart';
+import reservationService, { StockReservation } from '../services/reservations';
+import promotionService, { AppliedPromo } from '../services/promotions';
+import wishlistService, { needsPrescription, WishlistItem } from '../services/wishlist';
+import { ApiError } from '../services/api';
+import type { ControlledDrug } from '../services/inventory';
 import { toast } from 'react-hot-toast';
 
 export interface CartItem {
@@ -10,6 +17,11 @@ export interface CartItem {
   price: number;
   image: string;
   quantity: number;
+  // Used to work out tax and shipping; missing on carts saved before they were added
+  category?: string;
+  weightKg?: number;
+  // Limits how many can be ordered at once; missing on carts saved before it was added
+  controlled?: ControlledDrug;
 }
 
 interface CartContextType {
@@ -22,15 +34,99 @@ interface CartContextType {
   setIsLoggedIn: React.Dispatch<React.SetStateAction<boolean>>;
   logout: () => void;
   hasHydrated: boolean;
+  // Lines changed when the guest cart was merged into the account at sign-in
+  cartNotices: CartAdjustment[];
+  dismissCartNotices: () => void;
+  // Stock currently held for this shopper; null when nothing is held
+  reservation: StockReservation | null;
+  // True once a reservation has lapsed and nothing has been reserved since
+  reservationExpired: boolean;
+  // Uses the longer checkout hold while checking out unless told otherwise
+  reserveStock: (checkout?: boolean) => Promise<StockReservation | null>;
+  // Set by the payment page so every re-reserve keeps the checkout hold
+  setCheckingOut: (checkingOut: boolean) => void;
+  // Promo code accepted for the current cart
+  promo: AppliedPromo | null;
+  applyPromo: (code: string) => Promise<AppliedPromo>;
+  removePromo: () => void;
+  // Saved for later; always empty for guests and staff
+  wishlist: WishlistItem[];
+  isInWishlist: (productId: string) => boolean;
+  // Reject with a readable message, e.g. when the shopper is not signed in as a customer
+  addToWishlist: (productId: string) => Promise<void>;
+  removeFromWishlist: (productId: string) => Promise<void>;
+  saveForLater: (id: string) => Promise<void>;
+  moveToCart: (productId: string) => Promise<void>;
 }
 
+// Remembered for the tab so the code survives a reload between cart and checkout
+const PROMO_CODE_KEY = 'promoCode';
+
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [hasHydrated, setHasHydrated] = useState(false);
-  const router = useRouter();
+  const [cartNotices, setCartNotices] = useState<CartAdjustment[]>([]);
+  // Shared by overlapping loads so a guest cart is never merged twice
+  const accountCartRequest = useRef<Promise<CartItem[]> | null>(null);
+  const [reservation, setReservation] = useState<StockReservation | null>(null);
+  const [reservationExpired, setReservationExpired] = useState(false);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [promo, setPromo] = useState<AppliedPromo | null>(null);
+  const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
+
+  // Reads the account cart, folding in anything added while signed out
+  const loadAccountCart = (): Promise<CartItem[]> => {
+    if (!accountCartRequest.current) {
+      accountCartRequest.current = (async () => {
+        const backendCart = await userService.getCart();
+        console.log('Backend cart received:', backendCart);
+
+        // Filter out any items with null or invalid product data
+        const accountItems = backendCart
+          .filter(item => item.product && item.product._id && item.product.name)
+          .map(item => ({
+            id: item.product._id,
+            name: item.product.name,
+            price: item.product.price || 0,
+            image: item.product.image || '',
+            quantity: item.quantity || 1,
+            category: item.product.category,
+            weightKg: item.product.weightKg,
+            controlled: item.product.controlled,
+          }));
+
+        // Only customers have a server-side cart to merge into
+        const guestItems = getGuestCart();
+        if (!guestItems.length || !authService.isCustomer()) return accountItems;
+
+        const { items, adjustments } = await mergeCarts(guestItems, accountItems);
+        // Save before dropping the guest copy so a failed save can be retried at the next load
+        await userService.updateCart(items.map(item => ({ product: item.id, quantity: item.quantity })));
+        clearGuestCart();
+        setCartNotices(adjustments);
+        if (adjustments.some(adjustment => adjustment.reason !== 'combined')) {
+          toast('Some items in your cart were adjusted to match available stock.');
+        }
+        return items;
+      })().finally(() => {
+        accountCartRequest.current = null;
+      });
+    }
+    return accountCartRequest.current;
+  };
+
+  const loadWishlist = () => {
+    if (!authService.isCustomer()) {
+      setWishlist([]);
+      return;
+    }
+    wishlistService.getWishlist()
+      .then(setWishlist)
+      .catch(error => console.error('Failed to load wishlist:', error));
+  };
 
   // Function to check login and load cart
   const checkLoginAndLoadCart = async () => {
@@ -53,20 +149,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const token = sessionStorage.getItem('token');
     if (token) {
       try {
-        const backendCart = await userService.getCart();
-        console.log('Backend cart received:', backendCart);
-        
-        // Filter out any items with null or invalid product data
-        const validCartItems = backendCart
-          .filter(item => item.product && item.product._id && item.product.name)
-          .map(item => ({
-            id: item.product._id,
-            name: item.product.name,
-            price: item.product.price || 0,
-            image: item.product.image || '',
-            quantity: item.quantity || 1,
-          }));
-        
+        const validCartItems = await loadAccountCart();
         console.log('Valid cart items after filtering:', validCartItems);
         setCartItems(validCartItems);
         setIsLoggedIn(true);
@@ -76,8 +159,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setIsLoggedIn(false);
       }
     } else {
-      const stored = sessionStorage.getItem('cart');
-      setCartItems(stored ? JSON.parse(stored) : []);
+      setCartItems(getGuestCart());
       setIsLoggedIn(false);
     }
     setHasHydrated(true);
@@ -100,10 +182,10 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
-  // Save cart to sessionStorage for guests
+  // Save cart to localStorage for guests; a stored token means the account cart is still loading
   useEffect(() => {
-    if (!isLoggedIn && hasHydrated) {
-      sessionStorage.setItem('cart', JSON.stringify(cartItems));
+    if (!isLoggedIn && hasHydrated && !authService.getToken()) {
+      saveGuestCart(cartItems);
     }
   }, [cartItems, isLoggedIn, hasHydrated]);
 
@@ -133,28 +215,117 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     const token = typeof window !== 'undefined' ? sessionStorage.getItem('token') : null;
     if (token && isLoggedIn) {
-      userService.getCart()
-        .then(backendCart => {
-          const newCartItems = backendCart.map(item => ({
-            id: item.product._id,
-            name: item.product.name,
-            price: item.product.price,
-            image: item.product.image,
-              quantity: item.quantity,
-          }));
-          setCartItems(newCartItems);
-        })
+      loadAccountCart()
+        .then(setCartItems)
         .catch(() => setCartItems([]));
+      loadWishlist();
     }
-    setHasHydrated(true);
   }, [isLoggedIn]);
 
-  const addToCart = (item: CartItem) => {
-    if (!isLoggedIn) {
-      toast.error('Please login to add items to cart');
-      router.push('/login');
+  // Holds the given lines for this shopper, trimming the cart to what could be reserved
+  const syncReservation = async (items: CartItem[], checkout = false): Promise<StockReservation | null> => {
+    if (!items.length) {
+      if (reservation) {
+        reservationService.release().catch(error => console.error('Failed to release reservation:', error));
+      }
+      setReservation(null);
+      return null;
+    }
+
+    try {
+      const next = await reservationService.reserve(
+        items.map(item => ({ product: item.id, quantity: item.quantity })),
+        checkout
+      );
+      setReservation(next);
+      setReservationExpired(false);
+
+      const shortfalls = next.items.filter(line => line.reserved < line.requested);
+      if (shortfalls.length) {
+        setCartItems(prev => prev
+          .map(item => {
+            const line = shortfalls.find(l => l.product === item.id);
+            return line ? { ...item, quantity: Math.min(item.quantity, line.reserved) } : item;
+          })
+          .filter(item => item.quantity > 0));
+        shortfalls.forEach(line => {
+          const name = items.find(item => item.id === line.product)?.name || 'An item';
+          toast.error(line.reserved > 0
+            ? `Only ${line.reserved} of ${name} could be reserved`
+            : `${name} is out of stock and was removed from your cart`);
+        });
+      }
+      return next;
+    } catch (error) {
+      // The cart keeps working without a hold; stock is checked again when the order is placed
+      console.error('Failed to reserve stock:', error);
+      setReservation(null);
+      return null;
+    }
+  };
+
+  const reserveStock = (checkout = checkingOut) => syncReservation(cartItems, checkout);
+
+  // Re-reserve shortly after the cart settles so quick quantity clicks make one request.
+  // Starting or leaving checkout re-reserves too, switching between the two hold lengths.
+  useEffect(() => {
+    if (!hasHydrated) return;
+    if (!cartItems.length && !reservation) return;
+    const timeout = window.setTimeout(() => syncReservation(cartItems, checkingOut), 400);
+    return () => window.clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cartItems, hasHydrated, checkingOut]);
+
+  // The backend releases lapsed reservations itself; stop showing them as held
+  useEffect(() => {
+    if (!reservation) return;
+    const timeout = window.setTimeout(() => {
+      setReservation(null);
+      setReservationExpired(true);
+    }, Math.max(0, new Date(reservation.expiresAt).getTime() - Date.now()));
+    return () => window.clearTimeout(timeout);
+  }, [reservation]);
+
+  const validatePromo = (code: string, items: CartItem[]) =>
+    promotionService.validate(code, items.map(item => ({ product: item.id, quantity: item.quantity })));
+
+  const applyPromo = async (code: string): Promise<AppliedPromo> => {
+    const applied = await validatePromo(code, cartItems);
+    setPromo(applied);
+    sessionStorage.setItem(PROMO_CODE_KEY, applied.code);
+    return applied;
+  };
+
+  const removePromo = () => {
+    setPromo(null);
+    sessionStorage.removeItem(PROMO_CODE_KEY);
+  };
+
+  // Discounts depend on the basket, so the code is checked again whenever it changes
+  useEffect(() => {
+    if (!hasHydrated) return;
+    const code = sessionStorage.getItem(PROMO_CODE_KEY);
+    if (!code) return;
+    if (!cartItems.length) {
+      removePromo();
       return;
     }
+    const timeout = window.setTimeout(() => {
+      validatePromo(code, cartItems)
+        .then(setPromo)
+        .catch(error => {
+          // Keep the last result through network hiccups; drop it when the backend says no
+          if (error instanceof ApiError && error.status && error.status < 500) {
+            removePromo();
+            toast.error(`Promo code ${code} no longer applies: ${error.message}`);
+          }
+        });
+    }, 400);
+    return () => window.clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cartItems, hasHydrated]);
+
+  const addToCart = (item: CartItem) => {
     setCartItems(prev => {
       const existing = prev.find(ci => ci.id === item.id);
       if (existing) {
@@ -178,15 +349,65 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     console.log('CartContext: Cart cleared successfully');
   };
 
+  const dismissCartNotices = () => setCartNotices([]);
+
+  const isInWishlist = (productId: string) => wishlist.some(item => item.product === productId);
+
+  const addToWishlist = async (productId: string) => {
+    if (!authService.getToken() || !authService.isCustomer()) {
+      throw new Error('Sign in to your customer account to save items');
+    }
+    setWishlist(await wishlistService.add(productId));
+  };
+
+  const removeFromWishlist = async (productId: string) => {
+    setWishlist(await wishlistService.remove(productId));
+  };
+
+  // Takes the line out of the cart only once it is safely in the wishlist
+  const saveForLater = async (id: string) => {
+    await addToWishlist(id);
+    removeFromCart(id);
+  };
+
+  const moveToCart = async (productId: string) => {
+    const item = wishlist.find(saved => saved.product === productId);
+    if (!item) return;
+    if (item.stock <= 0) throw new Error(`${item.name} is out of stock`);
+    if (needsPrescription(item)) throw new Error(`${item.name} needs a prescription. Upload one to order it.`);
+    addToCart({
+      id: item.product,
+      name: item.name,
+      price: item.price,
+      image: item.image,
+      quantity: 1,
+      category: item.category,
+      weightKg: item.weightKg,
+      controlled: item.controlled,
+    });
+    await removeFromWishlist(productId);
+  };
+
   const logout = () => {
     setIsLoggedIn(false);
     setCartItems([]);
-    sessionStorage.removeItem('token');
-    sessionStorage.removeItem('user');
+    setCartNotices([]);
+    setWishlist([]);
+    setReservationExpired(false);
+    removePromo();
+    authService.logout();
+    // Signing out while impersonating also drops the stashed admin sign-in
+    setImpersonation(null);
   };
 
   return (
-    <CartContext.Provider value={{ cartItems, addToCart, removeFromCart, updateQuantity, clearCart, isLoggedIn, setIsLoggedIn, logout, hasHydrated }}>
+    <CartContext.Provider value={{
+      cartItems, addToCart, removeFromCart, updateQuantity, clearCart, isLoggedIn, setIsLoggedIn, logout, hasHydrated,
+      cartNotices, dismissCartNotices,
+      reservation, reservationExpired, reserveStock, setCheckingOut,
+      promo, applyPromo, removePromo,
+      wishlist, isInWishlist, addToWishlist, removeFromWishlist, saveForLater, moveToCart,
+    }}>
       {children}
     </CartContext.Provider>
   );
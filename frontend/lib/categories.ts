@@ -0,0 +1,20 @@
+// Inventory categories, from display name to the value stored by the backend
+export const categoryValueMap: { [key: string]: string } = {
+  'Adult Care': 'adult_care',
+  'Diabetic Care': 'diabetic_care',
+  'Hair Care': 'hair_care',
+  'Ayurveda': 'ayurveda',
+  'Skin Care': 'skin_care',
+  'Mother & Baby Care': 'mother_and_baby_care',
+  'Health & Wellness': 'health_and_wellness',
+  'Beauty Accessories': 'beauty_accessories',
+  'Cosmetics': 'cosmetics',
+  'Food Items': 'food_items',
+  'Health Monitoring Devices': 'health_monitoring_devices',
+  'Kids': 'kids',
+  'Household Remedies': 'household_remedies',
+  'Pet Care': 'pet_care',
+  'Beverages': 'beverages',
+  'Sexual Wellness': 'sexual_wellness',
+  'Instant Powdered Mixes': 'instant_powdered_mixes',
+};
@@ -0,0 +1,47 @@
+import type { ControlledDrug, ControlledSchedule, InventoryItem } from '@/services/inventory';
+
+export const CONTROLLED_SCHEDULES: Record<ControlledSchedule, { label: string; description: string; prescriptionRequired: boolean }> = {
+  CD2: { label: 'Schedule 2', description: 'Strong opioids and stimulants, e.g. morphine and methylphenidate', prescriptionRequired: true },
+  CD3: { label: 'Schedule 3', description: 'e.g. tramadol, midazolam and phenobarbital', prescriptionRequired: true },
+  CD4: { label: 'Schedule 4', description: 'Benzodiazepines and similar, e.g. diazepam and zolpidem', prescriptionRequired: true },
+  CD5: { label: 'Schedule 5', description: 'Low-strength preparations, e.g. codeine cough linctus', prescriptionRequired: false },
+};
+
+// Starting limits when an item is first marked as controlled
+export const DEFAULT_CONTROLLED_LIMITS: Omit<ControlledDrug, 'schedule'> = {
+  maxQuantity: 30,
+  maxDailyUnits: 1,
+  maxDaysSupply: 30,
+};
+
+export const formatSchedule = (controlled: ControlledDrug) => CONTROLLED_SCHEDULES[controlled.schedule].label;
+
+// Days an order of this many units lasts at the most a patient should take each day
+export const getDaysSupply = (controlled: ControlledDrug, quantity: number) =>
+  Math.ceil(quantity / Math.max(controlled.maxDailyUnits, 1));
+
+// Most units one order may contain, whichever limit is reached first
+export const getMaxControlledQuantity = (controlled: ControlledDrug) =>
+  Math.min(controlled.maxQuantity, controlled.maxDaysSupply * Math.max(controlled.maxDailyUnits, 1));
+
+export interface ControlledLine {
+  item: Pick<InventoryItem, 'name' | 'controlled'>;
+  quantity: number;
+}
+
+// Why a basket breaks the controlled-drug limits, one message per line over a limit
+export const checkControlledLimits = (lines: ControlledLine[]): string[] =>
+  lines.flatMap(({ item, quantity }) => {
+    const { controlled } = item;
+    if (!controlled) return [];
+    if (quantity > controlled.maxQuantity) {
+      return [`${item.name} is a controlled drug: at most ${controlled.maxQuantity} per order`];
+    }
+    if (getDaysSupply(controlled, quantity) > controlled.maxDaysSupply) {
+      return [`${item.name} is a controlled drug: at most ${controlled.maxDaysSupply} days' supply per order`];
+    }
+    return [];
+  });
+
+export const requiresPrescriptionReference = (lines: ControlledLine[]) =>
+  lines.some(({ item }) => !!item.controlled && CONTROLLED_SCHEDULES[item.controlled.schedule].prescriptionRequired);
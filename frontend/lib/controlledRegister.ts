@@ -0,0 +1,116 @@
+// The controlled drug register laid out as a PDF for inspections: one page per drug,
+// listing every entry in the period with its running balance.
+import type { ControlledRegister, RegisterDrug, RegisterEntry, RegisterEntryType } from '@/services/controlledDrugs';
+import { CONTROLLED_SCHEDULES } from '@/lib/controlledDrugs';
+import { A4_HEIGHT, A4_WIDTH, fitText, PdfDocument } from '@/lib/pdf';
+
+export const REGISTER_ENTRY_LABELS: Record<RegisterEntryType, string> = {
+  receipt: 'Received',
+  dispense: 'Dispensed',
+  return: 'Returned',
+  adjustment: 'Adjustment',
+};
+
+// Who the units came from or went to, as written in the register
+export const describeRegisterEntry = (entry: RegisterEntry): string => {
+  const parts = entry.type === 'receipt'
+    ? [entry.supplier, entry.reference && `Invoice ${entry.reference}`]
+    : [entry.patient?.name, entry.reference, entry.prescriptionReference && `Rx ${entry.prescriptionReference}`];
+  return [...parts, entry.note].filter(Boolean).join(' - ');
+};
+
+export const getRegisterFilename = (register: ControlledRegister) =>
+  `controlled-drug-register-${register.from}-to-${register.to}.pdf`;
+
+const MARGIN = 40;
+const RIGHT = A4_WIDTH - MARGIN;
+const BOTTOM = A4_HEIGHT - 56;
+const COLUMNS = { date: MARGIN + 4, type: 112, details: 170, in: 398, out: 438, balance: 486, by: 496 };
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const renderRegisterPdf = (register: ControlledRegister): Uint8Array => {
+  const pdf = new PdfDocument();
+  const period = `${formatDate(register.from)} to ${formatDate(register.to)}`;
+  let y = MARGIN + 12;
+  let page = 0;
+
+  const drawFooter = () => {
+    pdf.line(MARGIN, BOTTOM + 14, RIGHT, BOTTOM + 14, 0.5);
+    pdf.text(MARGIN, BOTTOM + 28, `${register.pharmacy.name} - Registration No ${register.pharmacy.registrationNumber}`, { size: 8 });
+    pdf.text(RIGHT, BOTTOM + 28, `Generated ${new Date(register.generatedAt).toLocaleString('en-GB')} - page ${page}`, { size: 8, align: 'right' });
+  };
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 12, RIGHT - MARGIN, 18);
+    pdf.text(COLUMNS.date, y, 'Date', { font: 'bold', size: 8 });
+    pdf.text(COLUMNS.type, y, 'Entry', { font: 'bold', size: 8 });
+    pdf.text(COLUMNS.details, y, 'Supplier / patient and reference', { font: 'bold', size: 8 });
+    pdf.text(COLUMNS.in, y, 'In', { font: 'bold', size: 8, align: 'right' });
+    pdf.text(COLUMNS.out, y, 'Out', { font: 'bold', size: 8, align: 'right' });
+    pdf.text(COLUMNS.balance, y, 'Balance', { font: 'bold', size: 8, align: 'right' });
+    pdf.text(COLUMNS.by, y, 'By', { font: 'bold', size: 8 });
+    y += 18;
+  };
+
+  const startPage = (drug: RegisterDrug, continued = false) => {
+    if (page > 0) {
+      drawFooter();
+      pdf.addPage();
+    }
+    page += 1;
+    y = MARGIN + 12;
+    pdf.text(MARGIN, y, 'Controlled Drug Register', { font: 'bold', size: 16 });
+    pdf.text(RIGHT, y, period, { size: 9, align: 'right' });
+    y += 22;
+    const title = [drug.name, drug.packSize].filter(Boolean).join(' ');
+    pdf.text(MARGIN, y, fitText(`${title}${continued ? ' (continued)' : ''}`, 380, 12, 'bold'), { font: 'bold', size: 12 });
+    pdf.text(RIGHT, y, CONTROLLED_SCHEDULES[drug.schedule].label, { font: 'bold', size: 10, align: 'right' });
+    y += 14;
+    if (drug.brand) {
+      pdf.text(MARGIN, y, drug.brand, { size: 9 });
+      y += 13;
+    }
+    y += 10;
+    drawTableHeader();
+  };
+
+  // The register always prints, even for a period with nothing recorded
+  if (register.drugs.length === 0) {
+    page = 1;
+    pdf.text(MARGIN, y, 'Controlled Drug Register', { font: 'bold', size: 16 });
+    pdf.text(RIGHT, y, period, { size: 9, align: 'right' });
+    pdf.text(MARGIN, y + 30, 'No controlled drugs were recorded in this period.', { size: 10 });
+  }
+
+  register.drugs.forEach(drug => {
+    startPage(drug);
+    pdf.text(COLUMNS.details, y, 'Opening balance', { font: 'bold', size: 8 });
+    pdf.text(COLUMNS.balance, y, String(drug.openingBalance), { font: 'bold', size: 8, align: 'right' });
+    y += 6;
+    pdf.line(MARGIN, y, RIGHT, y, 0.25);
+    y += 12;
+
+    drug.entries.forEach(entry => {
+      if (y + 18 > BOTTOM) startPage(drug, true);
+      pdf.text(COLUMNS.date, y, formatDate(entry.at), { size: 8 });
+      pdf.text(COLUMNS.type, y, REGISTER_ENTRY_LABELS[entry.type], { size: 8 });
+      pdf.text(COLUMNS.details, y, fitText(describeRegisterEntry(entry), COLUMNS.in - COLUMNS.details - 24, 8), { size: 8 });
+      if (entry.quantity > 0) pdf.text(COLUMNS.in, y, String(entry.quantity), { size: 8, align: 'right' });
+      if (entry.quantity < 0) pdf.text(COLUMNS.out, y, String(-entry.quantity), { size: 8, align: 'right' });
+      pdf.text(COLUMNS.balance, y, String(entry.balance), { size: 8, align: 'right' });
+      pdf.text(COLUMNS.by, y, fitText(entry.by.name, RIGHT - COLUMNS.by, 8), { size: 8 });
+      y += 6;
+      pdf.line(MARGIN, y, RIGHT, y, 0.25);
+      y += 12;
+    });
+
+    if (y + 18 > BOTTOM) startPage(drug, true);
+    pdf.text(COLUMNS.details, y, 'Closing balance', { font: 'bold', size: 8 });
+    pdf.text(COLUMNS.balance, y, String(drug.closingBalance), { font: 'bold', size: 8, align: 'right' });
+  });
+
+  drawFooter();
+  return pdf.toBytes();
+};
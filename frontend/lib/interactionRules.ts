@@ -0,0 +1,106 @@
+// Local reference data for the interaction checker in lib/interactions.ts. Products are
+// matched to drug classes by the ingredient and brand names below, so a class only needs
+// adding here when a new product is stocked. This is a dispensing aid covering the common
+// interactions seen at the counter, not a complete interaction database.
+
+export type InteractionSeverity = 'major' | 'moderate' | 'minor';
+
+export interface DrugClass {
+  id: string;
+  label: string;
+  // Lower-case ingredient and brand names that identify the class in a product's name,
+  // description or tags
+  keywords: string[];
+}
+
+export interface InteractionRule {
+  classes: [string, string];
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+export interface AllergyRule {
+  // Lower-case words a recorded allergy may contain
+  allergens: string[];
+  classes: string[];
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+export const DRUG_CLASSES: DrugClass[] = [
+  { id: 'nsaid', label: 'NSAIDs', keywords: ['ibuprofen', 'brufen', 'diclofenac', 'voltaren', 'naproxen', 'mefenamic', 'ponstan', 'celecoxib', 'etoricoxib', 'ketorolac'] },
+  { id: 'aspirin', label: 'Aspirin', keywords: ['aspirin', 'disprin', 'acetylsalicylic'] },
+  { id: 'paracetamol', label: 'Paracetamol', keywords: ['paracetamol', 'panadol', 'acetaminophen'] },
+  { id: 'anticoagulant', label: 'Anticoagulants', keywords: ['warfarin', 'coumadin', 'rivaroxaban', 'apixaban', 'dabigatran'] },
+  { id: 'antiplatelet', label: 'Antiplatelets', keywords: ['clopidogrel', 'plavix', 'ticagrelor', 'prasugrel'] },
+  { id: 'penicillin', label: 'Penicillins', keywords: ['amoxicillin', 'amoxycillin', 'ampicillin', 'penicillin', 'co-amoxiclav', 'augmentin', 'flucloxacillin', 'cloxacillin'] },
+  { id: 'cephalosporin', label: 'Cephalosporins', keywords: ['cefalexin', 'cephalexin', 'cefuroxime', 'cefixime', 'ceftriaxone', 'cefadroxil', 'cefpodoxime'] },
+  { id: 'macrolide', label: 'Macrolides', keywords: ['erythromycin', 'clarithromycin', 'azithromycin'] },
+  { id: 'fluoroquinolone', label: 'Fluoroquinolones', keywords: ['ciprofloxacin', 'levofloxacin', 'ofloxacin', 'norfloxacin', 'moxifloxacin'] },
+  { id: 'sulfonamide', label: 'Sulfonamides', keywords: ['sulfamethoxazole', 'co-trimoxazole', 'cotrimoxazole', 'septrin', 'bactrim', 'sulfasalazine'] },
+  { id: 'trimethoprim', label: 'Trimethoprim', keywords: ['trimethoprim', 'co-trimoxazole', 'cotrimoxazole', 'septrin', 'bactrim'] },
+  { id: 'statin', label: 'Statins', keywords: ['simvastatin', 'atorvastatin', 'lovastatin', 'rosuvastatin'] },
+  { id: 'ssri', label: 'SSRI antidepressants', keywords: ['fluoxetine', 'sertraline', 'paroxetine', 'citalopram', 'escitalopram', 'fluvoxamine'] },
+  { id: 'maoi', label: 'MAO inhibitors', keywords: ['phenelzine', 'tranylcypromine', 'moclobemide', 'selegiline'] },
+  { id: 'opioid', label: 'Opioids', keywords: ['codeine', 'tramadol', 'morphine', 'oxycodone', 'pethidine', 'fentanyl', 'dihydrocodeine'] },
+  { id: 'tramadol', label: 'Tramadol', keywords: ['tramadol'] },
+  { id: 'benzodiazepine', label: 'Benzodiazepines', keywords: ['diazepam', 'alprazolam', 'clonazepam', 'lorazepam', 'midazolam'] },
+  { id: 'sedating_antihistamine', label: 'Sedating antihistamines', keywords: ['chlorpheniramine', 'chlorphenamine', 'piriton', 'promethazine', 'phenergan', 'hydroxyzine', 'diphenhydramine'] },
+  { id: 'ace_inhibitor', label: 'ACE inhibitors', keywords: ['enalapril', 'lisinopril', 'captopril', 'ramipril', 'perindopril'] },
+  { id: 'potassium', label: 'Potassium and potassium-sparing diuretics', keywords: ['spironolactone', 'amiloride', 'potassium chloride', 'slow-k'] },
+  { id: 'nitrate', label: 'Nitrates', keywords: ['glyceryl trinitrate', 'nitroglycerin', 'isosorbide'] },
+  { id: 'pde5', label: 'PDE5 inhibitors', keywords: ['sildenafil', 'viagra', 'tadalafil', 'cialis', 'vardenafil'] },
+  { id: 'antacid', label: 'Antacids and minerals', keywords: ['antacid', 'aluminium hydroxide', 'magnesium hydroxide', 'calcium carbonate', 'gaviscon', 'ferrous', 'iron', 'zinc'] },
+  { id: 'ppi', label: 'Proton pump inhibitors', keywords: ['omeprazole', 'esomeprazole', 'losec', 'nexium'] },
+  { id: 'digoxin', label: 'Digoxin', keywords: ['digoxin', 'lanoxin'] },
+  { id: 'amiodarone', label: 'Amiodarone', keywords: ['amiodarone', 'cordarone'] },
+  { id: 'allopurinol', label: 'Allopurinol', keywords: ['allopurinol', 'zyloric'] },
+  { id: 'azathioprine', label: 'Azathioprine', keywords: ['azathioprine', 'imuran'] },
+  { id: 'methotrexate', label: 'Methotrexate', keywords: ['methotrexate'] },
+  { id: 'lithium', label: 'Lithium', keywords: ['lithium'] },
+  { id: 'theophylline', label: 'Theophylline', keywords: ['theophylline', 'aminophylline'] },
+  { id: 'metronidazole', label: 'Metronidazole', keywords: ['metronidazole', 'flagyl'] },
+];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  { classes: ['anticoagulant', 'nsaid'], severity: 'major', effect: 'Greatly increases the risk of bleeding.' },
+  { classes: ['anticoagulant', 'aspirin'], severity: 'major', effect: 'Greatly increases the risk of bleeding.' },
+  { classes: ['anticoagulant', 'antiplatelet'], severity: 'major', effect: 'Greatly increases the risk of bleeding.' },
+  { classes: ['anticoagulant', 'macrolide'], severity: 'moderate', effect: 'Can raise INR; monitor more closely.' },
+  { classes: ['anticoagulant', 'fluoroquinolone'], severity: 'moderate', effect: 'Can raise INR; monitor more closely.' },
+  { classes: ['anticoagulant', 'metronidazole'], severity: 'major', effect: 'Markedly raises INR and the risk of bleeding.' },
+  { classes: ['nsaid', 'aspirin'], severity: 'moderate', effect: 'More stomach bleeding, and ibuprofen can blunt the heart protection of low-dose aspirin.' },
+  { classes: ['nsaid', 'nsaid'], severity: 'moderate', effect: 'Two NSAIDs together add side effects without extra benefit.' },
+  { classes: ['nsaid', 'ace_inhibitor'], severity: 'moderate', effect: 'Can reduce the blood pressure effect and harm kidney function.' },
+  { classes: ['nsaid', 'lithium'], severity: 'major', effect: 'Raises lithium levels towards toxicity.' },
+  { classes: ['nsaid', 'methotrexate'], severity: 'major', effect: 'Raises methotrexate levels towards toxicity.' },
+  { classes: ['antiplatelet', 'ppi'], severity: 'moderate', effect: 'Omeprazole and esomeprazole can weaken the effect of clopidogrel.' },
+  { classes: ['ssri', 'tramadol'], severity: 'major', effect: 'Risk of serotonin syndrome and seizures.' },
+  { classes: ['ssri', 'maoi'], severity: 'major', effect: 'Risk of serotonin syndrome; do not combine.' },
+  { classes: ['ssri', 'nsaid'], severity: 'moderate', effect: 'Increases the risk of stomach bleeding.' },
+  { classes: ['opioid', 'benzodiazepine'], severity: 'major', effect: 'Risk of profound sedation and slowed breathing.' },
+  { classes: ['opioid', 'sedating_antihistamine'], severity: 'moderate', effect: 'Adds to drowsiness.' },
+  { classes: ['benzodiazepine', 'sedating_antihistamine'], severity: 'moderate', effect: 'Adds to drowsiness.' },
+  { classes: ['statin', 'macrolide'], severity: 'major', effect: 'Clarithromycin and erythromycin raise statin levels, risking muscle damage.' },
+  { classes: ['nitrate', 'pde5'], severity: 'major', effect: 'Can cause a dangerous fall in blood pressure; do not combine.' },
+  { classes: ['ace_inhibitor', 'potassium'], severity: 'moderate', effect: 'Risk of high blood potassium.' },
+  { classes: ['ace_inhibitor', 'lithium'], severity: 'moderate', effect: 'Can raise lithium levels.' },
+  { classes: ['fluoroquinolone', 'antacid'], severity: 'moderate', effect: 'Antacids, iron and zinc block absorption; take them at least 2 hours apart.' },
+  { classes: ['fluoroquinolone', 'theophylline'], severity: 'moderate', effect: 'Ciprofloxacin raises theophylline levels.' },
+  { classes: ['digoxin', 'amiodarone'], severity: 'major', effect: 'Raises digoxin levels towards toxicity.' },
+  { classes: ['allopurinol', 'azathioprine'], severity: 'major', effect: 'Raises azathioprine levels, risking bone marrow suppression.' },
+  { classes: ['methotrexate', 'trimethoprim'], severity: 'major', effect: 'Risk of bone marrow suppression.' },
+  { classes: ['paracetamol', 'paracetamol'], severity: 'major', effect: 'Two paracetamol-containing products risk an overdose.' },
+];
+
+export const ALLERGY_RULES: AllergyRule[] = [
+  { allergens: ['penicillin', 'amoxicillin', 'amoxycillin', 'augmentin'], classes: ['penicillin'], severity: 'major', effect: 'Penicillin allergy.' },
+  { allergens: ['penicillin', 'amoxicillin', 'amoxycillin', 'augmentin'], classes: ['cephalosporin'], severity: 'moderate', effect: 'Some patients allergic to penicillin also react to cephalosporins.' },
+  { allergens: ['cephalosporin', 'cefalexin', 'cephalexin', 'cefuroxime'], classes: ['cephalosporin'], severity: 'major', effect: 'Cephalosporin allergy.' },
+  { allergens: ['sulfa', 'sulpha', 'sulfonamide', 'sulphonamide', 'septrin', 'bactrim'], classes: ['sulfonamide'], severity: 'major', effect: 'Sulfonamide allergy.' },
+  { allergens: ['aspirin', 'nsaid', 'ibuprofen', 'diclofenac', 'brufen'], classes: ['nsaid', 'aspirin'], severity: 'major', effect: 'NSAID and aspirin allergies often cross-react.' },
+  { allergens: ['codeine', 'morphine', 'opioid', 'opiate', 'tramadol'], classes: ['opioid'], severity: 'major', effect: 'Opioid allergy or intolerance.' },
+  { allergens: ['erythromycin', 'macrolide', 'azithromycin', 'clarithromycin'], classes: ['macrolide'], severity: 'major', effect: 'Macrolide allergy.' },
+  { allergens: ['quinolone', 'ciprofloxacin', 'levofloxacin'], classes: ['fluoroquinolone'], severity: 'major', effect: 'Fluoroquinolone allergy.' },
+  { allergens: ['paracetamol', 'panadol', 'acetaminophen'], classes: ['paracetamol'], severity: 'major', effect: 'Paracetamol allergy.' },
+];
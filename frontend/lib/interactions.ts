@@ -0,0 +1,120 @@
+import {
+  ALLERGY_RULES,
+  DRUG_CLASSES,
+  INTERACTION_RULES,
+  InteractionSeverity,
+} from './interactionRules';
+
+// Anything dispensed or bought: the products being selected, or items from recent orders
+export interface CheckedProduct {
+  name: string;
+  description?: string;
+  tags?: string[];
+  // When it was ordered, for items from the patient's history
+  orderedAt?: string;
+}
+
+export type InteractionWarningKind = 'interaction' | 'allergy' | 'history';
+
+export interface InteractionWarning {
+  kind: InteractionWarningKind;
+  severity: InteractionSeverity;
+  // The products involved, selected product first
+  products: string[];
+  message: string;
+}
+
+// Recent orders are checked because the patient is likely still taking what they bought
+export const HISTORY_WINDOW_DAYS = 90;
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+const CLASS_LABELS = new Map(DRUG_CLASSES.map(drugClass => [drugClass.id, drugClass.label]));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word matches only, so "iron" does not match "environment"
+const containsWord = (text: string, word: string) => new RegExp(`\\b${escapeRegExp(word)}\\b`).test(text);
+
+export const getDrugClasses = (product: CheckedProduct): string[] => {
+  const text = [product.name, product.description ?? '', ...(product.tags ?? [])].join(' ').toLowerCase();
+  return DRUG_CLASSES
+    .filter(drugClass => drugClass.keywords.some(keyword => containsWord(text, keyword)))
+    .map(drugClass => drugClass.id);
+};
+
+const findInteractions = (a: CheckedProduct, b: CheckedProduct) => {
+  const aClasses = getDrugClasses(a);
+  const bClasses = getDrugClasses(b);
+  return INTERACTION_RULES.filter(({ classes: [x, y] }) =>
+    (aClasses.includes(x) && bClasses.includes(y)) || (aClasses.includes(y) && bClasses.includes(x)));
+};
+
+const withinHistoryWindow = (product: CheckedProduct, now: Date) =>
+  !product.orderedAt || now.getTime() - new Date(product.orderedAt).getTime() <= HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+// Warnings for the selected products against each other, the patient's recorded allergies
+// and what they have ordered recently, most severe first. Each pair of products is
+// reported once per rule.
+export const checkInteractions = (
+  selected: CheckedProduct[],
+  allergies: string[],
+  history: CheckedProduct[] = [],
+  now = new Date(),
+): InteractionWarning[] => {
+  const warnings: InteractionWarning[] = [];
+
+  selected.forEach((product, index) => {
+    selected.slice(index + 1).forEach(other => {
+      findInteractions(product, other).forEach(rule => warnings.push({
+        kind: 'interaction',
+        severity: rule.severity,
+        products: [product.name, other.name],
+        message: `${CLASS_LABELS.get(rule.classes[0])} with ${CLASS_LABELS.get(rule.classes[1])}: ${rule.effect}`,
+      }));
+    });
+  });
+
+  const recent = history.filter(item => withinHistoryWindow(item, now));
+  selected.forEach(product => {
+    recent
+      .filter(item => item.name !== product.name)
+      .forEach(item => findInteractions(product, item).forEach(rule => warnings.push({
+        kind: 'history',
+        severity: rule.severity,
+        products: [product.name, item.name],
+        message: `Ordered ${item.orderedAt ? new Date(item.orderedAt).toLocaleDateString() : 'recently'}. ${rule.effect}`,
+      })));
+  });
+
+  const recorded = allergies.map(allergy => allergy.toLowerCase());
+  selected.forEach(product => {
+    const classes = getDrugClasses(product);
+    const name = product.name.toLowerCase();
+    recorded.forEach((allergy, index) => {
+      const rules = ALLERGY_RULES.filter(rule =>
+        rule.allergens.some(allergen => containsWord(allergy, allergen))
+        && rule.classes.some(drugClass => classes.includes(drugClass)));
+      rules.forEach(rule => warnings.push({
+        kind: 'allergy',
+        severity: rule.severity,
+        products: [product.name],
+        message: `Recorded allergy "${allergies[index]}". ${rule.effect}`,
+      }));
+      // Allergies to something outside the dataset, named in the product itself
+      if (rules.length === 0 && allergy.length > 2 && containsWord(name, allergy)) {
+        warnings.push({
+          kind: 'allergy',
+          severity: 'major',
+          products: [product.name],
+          message: `Recorded allergy "${allergies[index]}" matches this product.`,
+        });
+      }
+    });
+  });
+
+  return warnings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
+
+// Overrides must say why dispensing is still appropriate
+export const MIN_OVERRIDE_REASON_LENGTH = 10;
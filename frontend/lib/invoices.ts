@@ -0,0 +1,204 @@
+// Server side of invoices: asks the backend to issue the order's invoice with the
+// caller's own credentials, so the backend decides who may see it, then lays it out
+// as a PDF.
+import { API_URL, ApiEnvelope } from '@/services/api';
+import type { Invoice } from '@/services/invoices';
+import { formatTaxLabel } from '@/lib/pricing';
+import { A4_HEIGHT, A4_WIDTH, fitText, PdfDocument } from '@/lib/pdf';
+import { formatPaymentMethod } from '@/lib/tenders';
+
+export class InvoiceRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'InvoiceRequestError';
+    this.status = status;
+  }
+}
+
+// Headers from the browser request that the backend needs to authorise the caller
+const FORWARDED_HEADERS = ['Authorization', 'X-Impersonation-Id'];
+
+const callBackend = async <T>(path: string, incoming: Headers, body?: unknown): Promise<T> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  FORWARDED_HEADERS.forEach(name => {
+    const value = incoming.get(name);
+    if (value) headers[name] = value;
+  });
+  if (!headers.Authorization) {
+    throw new InvoiceRequestError('Please sign in to get this invoice', 401);
+  }
+
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: 'no-store',
+  });
+  const data = (await response.json().catch(() => null)) as ApiEnvelope<T> | null;
+  if (!response.ok || !data?.success) {
+    throw new InvoiceRequestError(data?.message || 'The invoice could not be issued', response.ok ? 502 : response.status);
+  }
+  return data.data;
+};
+
+// Issues the invoice the first time and returns the same number afterwards
+export const fetchInvoice = (orderId: string, incoming: Headers): Promise<Invoice> =>
+  callBackend<Invoice>(`/orders/${encodeURIComponent(orderId)}/invoice`, incoming);
+
+// The backend sends it to the email address on the order, never one supplied by the caller
+export const sendInvoiceEmail = (orderId: string, invoice: Invoice, pdf: Uint8Array, incoming: Headers): Promise<{ email: string }> =>
+  callBackend<{ email: string }>(`/orders/${encodeURIComponent(orderId)}/invoice/email`, incoming, {
+    number: invoice.number,
+    filename: getInvoiceFilename(invoice),
+    content: Buffer.from(pdf).toString('base64'),
+  });
+
+export const getInvoiceFilename = (invoice: Invoice) => `${invoice.number}.pdf`;
+
+const MARGIN = 48;
+const RIGHT = A4_WIDTH - MARGIN;
+const BOTTOM = A4_HEIGHT - 64;
+const COLUMNS = { quantity: 360, unitPrice: 450, amount: RIGHT };
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const renderInvoicePdf = (invoice: Invoice): Uint8Array => {
+  const { order, pharmacy } = invoice;
+  const pdf = new PdfDocument();
+  let y = MARGIN + 12;
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 12, RIGHT - MARGIN, 18);
+    pdf.text(MARGIN + 6, y, 'Item', { font: 'bold', size: 9 });
+    pdf.text(COLUMNS.quantity, y, 'Qty', { font: 'bold', size: 9, align: 'right' });
+    pdf.text(COLUMNS.unitPrice, y, 'Unit price', { font: 'bold', size: 9, align: 'right' });
+    pdf.text(COLUMNS.amount - 6, y, 'Amount', { font: 'bold', size: 9, align: 'right' });
+    y += 20;
+  };
+
+  const drawFooter = () => {
+    pdf.line(MARGIN, BOTTOM + 16, RIGHT, BOTTOM + 16, 0.5);
+    pdf.text(MARGIN, BOTTOM + 30, 'Thank you for choosing us. Please keep this invoice for your records.', { size: 8 });
+    pdf.text(RIGHT, BOTTOM + 30, `${invoice.number} - page ${pdf.pageCount}`, { size: 8, align: 'right' });
+  };
+
+  // Starts a new page when the next block would run into the footer
+  const ensureSpace = (height: number, repeatHeader = false) => {
+    if (y + height <= BOTTOM) return;
+    drawFooter();
+    pdf.addPage();
+    y = MARGIN + 12;
+    if (repeatHeader) drawTableHeader();
+  };
+
+  // Header: pharmacy on the left, invoice details on the right
+  pdf.text(MARGIN, y, pharmacy.name, { font: 'bold', size: 18 });
+  pdf.text(RIGHT, y, 'INVOICE', { font: 'bold', size: 18, align: 'right' });
+  y += 18;
+  const pharmacyLines = [
+    pharmacy.address,
+    `Tel: ${pharmacy.phone}  Email: ${pharmacy.email}`,
+    `Registration No: ${pharmacy.registrationNumber}`,
+    ...(pharmacy.taxId ? [`Tax ID: ${pharmacy.taxId}`] : []),
+  ];
+  const invoiceLines: [string, string][] = [
+    ['Invoice No', invoice.number],
+    ['Date', formatDate(invoice.issuedAt)],
+    ['Order No', order.orderNumber],
+    ['Payment', formatPaymentMethod(order.paymentMethod)],
+  ];
+  for (let i = 0; i < Math.max(pharmacyLines.length, invoiceLines.length); i++) {
+    if (pharmacyLines[i]) pdf.text(MARGIN, y, fitText(pharmacyLines[i], 280, 9), { size: 9 });
+    if (invoiceLines[i]) {
+      pdf.text(RIGHT - 120, y, `${invoiceLines[i][0]}:`, { size: 9, align: 'right' });
+      pdf.text(RIGHT, y, invoiceLines[i][1], { font: 'bold', size: 9, align: 'right' });
+    }
+    y += 13;
+  }
+  y += 8;
+  pdf.line(MARGIN, y, RIGHT, y, 1);
+  y += 20;
+
+  // Bill to, with the prescription the order was dispensed against
+  pdf.text(MARGIN, y, 'Bill to', { font: 'bold', size: 10 });
+  if (invoice.prescriptionNumber) {
+    pdf.text(RIGHT, y, 'Prescription', { font: 'bold', size: 10, align: 'right' });
+  }
+  y += 14;
+  const customer = order.customer;
+  const billToLines = customer
+    ? [customer.name, customer.address, [customer.city, customer.postalCode].filter(Boolean).join(' '), customer.email, customer.phone].filter(Boolean)
+    : [];
+  const prescription = invoice.prescriptionNumber
+    ? [invoice.prescriptionNumber, ...(invoice.doctorName ? [`Prescribed by ${invoice.doctorName}`] : [])]
+    : [];
+  for (let i = 0; i < Math.max(billToLines.length, prescription.length); i++) {
+    if (billToLines[i]) pdf.text(MARGIN, y, fitText(billToLines[i], 280, 9), { size: 9 });
+    if (prescription[i]) pdf.text(RIGHT, y, prescription[i], { size: 9, align: 'right' });
+    y += 13;
+  }
+  y += 16;
+
+  // Items
+  drawTableHeader();
+  order.items.forEach(item => {
+    ensureSpace(16, true);
+    pdf.text(MARGIN + 6, y, fitText(item.name, COLUMNS.quantity - MARGIN - 40, 9), { size: 9 });
+    pdf.text(COLUMNS.quantity, y, String(item.quantity), { size: 9, align: 'right' });
+    pdf.text(COLUMNS.unitPrice, y, money(item.price), { size: 9, align: 'right' });
+    pdf.text(COLUMNS.amount - 6, y, money(item.price * item.quantity), { size: 9, align: 'right' });
+    y += 6;
+    pdf.line(MARGIN, y, RIGHT, y, 0.25);
+    y += 12;
+  });
+
+  // Totals, with one line per tax rate as charged when the order was placed
+  const taxLines = order.taxLines ?? [];
+  const subtotal = order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const totals: [string, string][] = [['Subtotal', money(subtotal)]];
+  if (order.discount) totals.push([`Discount${order.promoCode ? ` (${order.promoCode})` : ''}`, `- ${money(order.discount)}`]);
+  if (order.shipping !== undefined) totals.push(['Shipping', money(order.shipping)]);
+  if (taxLines.length > 0) {
+    taxLines.forEach(line => totals.push([`${formatTaxLabel([line])} on ${money(line.taxable)}`, money(line.amount)]));
+  } else if (order.tax) {
+    totals.push(['Tax', money(order.tax)]);
+  }
+  ensureSpace(totals.length * 14 + 60);
+  y += 6;
+  totals.forEach(([label, value]) => {
+    pdf.text(COLUMNS.unitPrice, y, label, { size: 9, align: 'right' });
+    pdf.text(COLUMNS.amount - 6, y, value, { size: 9, align: 'right' });
+    y += 14;
+  });
+  pdf.line(COLUMNS.quantity - 60, y - 6, RIGHT, y - 6, 1);
+  y += 8;
+  pdf.text(COLUMNS.unitPrice, y, 'Total', { font: 'bold', size: 11, align: 'right' });
+  pdf.text(COLUMNS.amount - 6, y, money(order.total ?? order.totalAmount), { font: 'bold', size: 11, align: 'right' });
+  y += 16;
+  if (order.refundedAmount) {
+    pdf.text(COLUMNS.unitPrice, y, 'Refunded', { size: 9, align: 'right' });
+    pdf.text(COLUMNS.amount - 6, y, `- ${money(order.refundedAmount)}`, { size: 9, align: 'right' });
+    y += 14;
+  }
+
+  // Counter sales list how the total was paid
+  if (order.tenders && order.tenders.length > 0) {
+    ensureSpace(order.tenders.length * 13 + 20);
+    y += 8;
+    pdf.text(MARGIN, y, 'Paid by', { font: 'bold', size: 9 });
+    y += 13;
+    order.tenders.forEach(tender => {
+      const label = `${formatPaymentMethod(tender.method)}${tender.reference ? ` (${tender.reference})` : ''}`;
+      pdf.text(MARGIN, y, `${label}: ${money(tender.amount)}`, { size: 9 });
+      y += 13;
+    });
+  }
+
+  drawFooter();
+  return pdf.toBytes();
+};
@@ -0,0 +1,70 @@
+import { getUserRoles, Role, User } from '@/services/auth';
+import type { OrderStatus, OrderStatusEvent } from '@/services/orders';
+import { getEffectivePermissions, Permission } from './permissions';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// The path every order follows when nothing goes wrong
+export const ORDER_PROGRESS: OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered'];
+
+interface OrderTransitionRule {
+  from: OrderStatus;
+  to: OrderStatus;
+  // Any of these roles may make the move
+  roles: Role[];
+  // Holding any of these permissions also allows it
+  permissions?: Permission[];
+}
+
+// Every move the backend accepts. Delivered and cancelled orders are final. Cancellations
+// and returns go through a return request, whose approval refunds the payment.
+export const ORDER_TRANSITIONS: OrderTransitionRule[] = [
+  { from: 'pending', to: 'processing', roles: ['pharmacist'], permissions: ['orders.manage'] },
+  { from: 'processing', to: 'shipped', roles: ['delivery'], permissions: ['orders.manage'] },
+  { from: 'shipped', to: 'delivered', roles: ['delivery'], permissions: ['orders.manage'] },
+];
+
+type TransitionSubject = Pick<User, 'role' | 'roles' | 'permissions'>;
+
+// Statuses the user may move an order to from its current status
+export const getAllowedTransitions = (user: TransitionSubject | null | undefined, from: OrderStatus): OrderStatus[] => {
+  if (!user) return [];
+  const roles = getUserRoles(user);
+  const permissions = getEffectivePermissions(user);
+  return ORDER_TRANSITIONS
+    .filter(rule => rule.from === from)
+    .filter(rule => rule.roles.some(role => roles.includes(role))
+      || !!rule.permissions?.some(permission => permissions.includes(permission)))
+    .map(rule => rule.to);
+};
+
+export const canTransition = (user: TransitionSubject | null | undefined, from: OrderStatus, to: OrderStatus): boolean =>
+  getAllowedTransitions(user, from).includes(to);
+
+export interface OrderTimelineStep {
+  status: OrderStatus;
+  reached: boolean;
+  event?: OrderStatusEvent;
+}
+
+// One step per status on the order's path, with the latest time each was entered.
+// A cancelled order ends at the cancellation; otherwise the remaining steps are shown
+// as not yet reached. Orders placed before history was kept show only what is known.
+export const getOrderTimeline = (status: OrderStatus, history: OrderStatusEvent[] = [], placedAt?: string): OrderTimelineStep[] => {
+  const latest = new Map<OrderStatus, OrderStatusEvent>();
+  history.forEach(event => latest.set(event.status, event));
+  if (!latest.has('pending') && placedAt) latest.set('pending', { status: 'pending', at: placedAt });
+
+  if (status === 'cancelled') {
+    const progressed = ORDER_PROGRESS.filter(step => latest.has(step));
+    return [...progressed, 'cancelled' as const].map(step => ({ status: step, reached: true, event: latest.get(step) }));
+  }
+  const position = ORDER_PROGRESS.indexOf(status);
+  return ORDER_PROGRESS.map((step, index) => ({ status: step, reached: index <= position, event: latest.get(step) }));
+};
@@ -0,0 +1,53 @@
+// Server side of provider webhooks: checks the provider's signature, then hands the
+// normalised event to the backend, which owns payment and order state.
+import { API_URL } from '@/services/api';
+import { getPaymentProvider, isPaymentProviderName, PaymentWebhookEvent } from '@/services/paymentGateway';
+
+export class WebhookRejectedError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WebhookRejectedError';
+    this.status = status;
+  }
+}
+
+const getForwardSecret = (): string => {
+  const secret = process.env.PAYMENT_WEBHOOK_FORWARD_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PAYMENT_WEBHOOK_FORWARD_SECRET must be set in production');
+  }
+  return 'development-payment-webhook-secret';
+};
+
+export const handlePaymentWebhook = async (
+  providerName: string,
+  rawBody: string,
+  signature: string | null
+): Promise<PaymentWebhookEvent> => {
+  if (!isPaymentProviderName(providerName)) {
+    throw new WebhookRejectedError(`Unknown payment provider "${providerName}"`, 404);
+  }
+
+  let event: PaymentWebhookEvent;
+  try {
+    event = await getPaymentProvider(providerName).verifyWebhook(rawBody, signature);
+  } catch (error) {
+    throw new WebhookRejectedError(error instanceof Error ? error.message : 'Invalid webhook', 400);
+  }
+
+  // The backend ignores event ids it has already applied, so provider retries are safe
+  const response = await fetch(`${API_URL}/payments/webhooks`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Webhook-Secret': getForwardSecret() },
+    body: JSON.stringify(event),
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    // Anything but 2xx makes the provider deliver the event again later
+    throw new WebhookRejectedError('The backend did not accept the payment event', 502);
+  }
+  return event;
+};
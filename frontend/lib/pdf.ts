@@ -0,0 +1,136 @@
+// Minimal PDF writer for generated documents such as invoices. It lays out text and
+// rules on A4 pages using the standard Helvetica fonts, which every PDF reader has
+// built in, so no font files or PDF library are needed. Text is limited to printable
+// ASCII; anything else is replaced with "?".
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  align?: 'left' | 'right';
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// Advance widths in 1/1000 em for characters 32-126, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string; widths: number[] }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS },
+};
+
+const toPrintable = (text: string) => text.replace(/[^\x20-\x7e]/g, '?');
+
+const escapeText = (text: string) => toPrintable(text).replace(/([\\()])/g, '\\$1');
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export const measureText = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = FONT_RESOURCES[font].widths;
+  const units = Array.from(toPrintable(text)).reduce((sum, char) => sum + widths[char.charCodeAt(0) - 32], 0);
+  return (units * size) / 1000;
+};
+
+// Shortens text with "..." until it fits the given width
+export const fitText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string => {
+  if (measureText(text, size, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+// Coordinates are in points from the top-left corner of the page
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, { font = 'regular', size = 10, align = 'left' }: PdfTextOptions = {}): void {
+    const left = align === 'right' ? x - measureText(text, size, font) : x;
+    this.current.push(
+      `BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(A4_HEIGHT - y)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current.push(
+      `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(A4_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(A4_HEIGHT - y2)} l S`
+    );
+  }
+
+  // Filled rectangle in a shade of grey, 0 being black and 1 white
+  rect(x: number, y: number, width: number, height: number, gray = 0.93): void {
+    this.current.push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(A4_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f 0 g`
+    );
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // Objects 1-4 are the catalog, page tree and fonts; each page then takes two
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    (['regular', 'bold'] as PdfFont[]).forEach(font => {
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`);
+    });
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Everything written is ASCII, so string lengths are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return new TextEncoder().encode(output);
+  }
+}
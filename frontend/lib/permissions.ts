@@ -0,0 +1,76 @@
+import type { Role, User } from '@/services/auth';
+
+// Every permission the app checks, with the label shown when granting it
+export const PERMISSIONS = {
+  'inventory.edit': 'Add, edit and delete inventory items',
+  'orders.manage': 'Update order status',
+  'orders.refund': 'Cancel and refund orders',
+  'pricing.manage': 'Change tax rates and shipping fees',
+  'prescriptions.approve': 'Verify, approve and reject prescriptions',
+  'prescriptions.fulfil': 'Create orders from approved prescriptions',
+  'controlled.register': 'View the controlled drug register and record controlled drugs received',
+  'users.deactivate': 'Activate and deactivate accounts',
+  'users.delete': 'Delete accounts',
+  'users.unlock': 'Unlock accounts locked after failed sign-in attempts',
+  'permissions.grant': 'Grant permissions to other staff',
+  'security.manage': 'Change security policies such as required two-factor authentication',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// What each role can do before any individual grants
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  pharmacist: ['prescriptions.approve', 'prescriptions.fulfil', 'controlled.register'],
+  doctor: [],
+  delivery: [],
+  customer: [],
+};
+
+type PermissionSubject = Pick<User, 'role' | 'roles' | 'permissions'>;
+
+// Role defaults for every role the user holds, plus anything granted to them directly
+export const getEffectivePermissions = (user: PermissionSubject | null | undefined): Permission[] => {
+  if (!user) return [];
+  const roles = user.roles?.length ? [user.role, ...user.roles] : [user.role];
+  const granted = new Set<Permission>(roles.flatMap(role => ROLE_PERMISSIONS[role] ?? []));
+  user.permissions?.forEach(permission => {
+    if (permission in PERMISSIONS) granted.add(permission as Permission);
+  });
+  return ALL_PERMISSIONS.filter(permission => granted.has(permission));
+};
+
+export const hasPermission = (user: PermissionSubject | null | undefined, permission: Permission): boolean =>
+  getEffectivePermissions(user).includes(permission);
+
+interface RouteAccessRule {
+  prefix: string;
+  // Any of these roles grants access; an empty list means any signed-in user
+  roles: Role[];
+  // Holding any of these permissions also grants access
+  permissions?: Permission[];
+}
+
+// Checked by middleware and by client layouts. The first matching prefix wins.
+export const ROUTE_ACCESS: RouteAccessRule[] = [
+  { prefix: '/dashboard/admin/inventory', roles: ['admin'], permissions: ['inventory.edit'] },
+  { prefix: '/dashboard/admin/pricing', roles: ['admin'], permissions: ['pricing.manage'] },
+  { prefix: '/dashboard/admin/orders', roles: ['admin'], permissions: ['orders.manage', 'orders.refund'] },
+  { prefix: '/dashboard/admin/returns', roles: ['admin'], permissions: ['orders.refund'] },
+  { prefix: '/dashboard/admin', roles: ['admin'] },
+  { prefix: '/dashboard/pharmacist/controlled-drugs', roles: ['pharmacist', 'admin'], permissions: ['controlled.register'] },
+  { prefix: '/dashboard/customer', roles: ['customer'] },
+  { prefix: '/dashboard/doctor', roles: ['doctor'] },
+  { prefix: '/dashboard/pharmacist', roles: ['pharmacist'] },
+  { prefix: '/dashboard/delivery', roles: ['delivery'] },
+  { prefix: '/upload-prescription', roles: [] },
+];
+
+export const canAccessRoute = (pathname: string, roles: string[], permissions: string[]): boolean => {
+  const rule = ROUTE_ACCESS.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  if (!rule || rule.roles.length === 0) return true;
+  return rule.roles.some(role => roles.includes(role))
+    || !!rule.permissions?.some(permission => permissions.includes(permission));
+};
@@ -0,0 +1,120 @@
+import type { Prescription, PrescriptionLine, PrescriptionTranscription } from '@/services/prescriptions';
+
+// Frequencies as prescribers abbreviate them, with how many doses each means per day.
+// As-needed doses have no fixed count, so their quantity is left to the pharmacist.
+export const FREQUENCIES: { code: string; label: string; perDay: number | null }[] = [
+  { code: 'OD', label: 'Once a day', perDay: 1 },
+  { code: 'BD', label: 'Twice a day', perDay: 2 },
+  { code: 'TDS', label: 'Three times a day', perDay: 3 },
+  { code: 'QID', label: 'Four times a day', perDay: 4 },
+  { code: 'NOCTE', label: 'At night', perDay: 1 },
+  { code: 'MANE', label: 'In the morning', perDay: 1 },
+  { code: 'WEEKLY', label: 'Once a week', perDay: 1 / 7 },
+  { code: 'PRN', label: 'When required', perDay: null },
+  { code: 'STAT', label: 'Immediately, once', perDay: null },
+];
+
+// Prescriptions without a stated expiry can be dispensed for this long after issue
+export const DEFAULT_VALIDITY_DAYS = 30;
+
+export const getFrequencyLabel = (code: string) => FREQUENCIES.find(frequency => frequency.code === code)?.label ?? code;
+
+export const emptyPrescriptionLine = (): PrescriptionLine => ({
+  drug: '',
+  strength: '',
+  dose: '1',
+  frequency: 'OD',
+  durationDays: 7,
+  quantity: 7,
+  refills: 0,
+});
+
+// Units needed for the whole course, when the dose starts with a number ("2 tablets")
+export const suggestQuantity = (line: Pick<PrescriptionLine, 'dose' | 'frequency' | 'durationDays'>): number | null => {
+  const perDay = FREQUENCIES.find(frequency => frequency.code === line.frequency)?.perDay;
+  const dose = parseFloat(line.dose);
+  if (!perDay || !Number.isFinite(dose) || dose <= 0 || line.durationDays <= 0) return null;
+  return Math.ceil(dose * perDay * line.durationDays);
+};
+
+// Works on the UTC calendar date, so local clock changes never repeat or skip a day
+export const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+// Splits the allergies a customer typed when uploading into separate entries
+export const parseAllergies = (prescription: Pick<Prescription, 'hasAllergies' | 'allergies'>): string[] =>
+  prescription.hasAllergies === 'yes'
+    ? prescription.allergies.split(/[,;\n]/).map(allergy => allergy.trim()).filter(Boolean)
+    : [];
+
+// Starts a transcription from what the customer told us when uploading
+export const draftTranscription = (prescription: Prescription): PrescriptionTranscription => {
+  const issuedAt = prescription.issuedAt?.slice(0, 10) ?? prescription.createdAt.slice(0, 10);
+  return {
+    prescriber: prescription.prescriber ?? { name: '', registrationNumber: '' },
+    patient: prescription.patient ?? { name: prescription.name, gender: prescription.gender, allergies: parseAllergies(prescription) },
+    issuedAt,
+    validUntil: prescription.validUntil?.slice(0, 10) ?? addDays(issuedAt, DEFAULT_VALIDITY_DAYS),
+    lines: prescription.lines?.length ? prescription.lines : [emptyPrescriptionLine()],
+  };
+};
+
+// Problems that stop a transcription being saved, one message each
+export const validateTranscription = (data: PrescriptionTranscription): string[] => {
+  const errors: string[] = [];
+  if (!data.prescriber.name.trim()) errors.push("Enter the prescriber's name");
+  if (!data.prescriber.registrationNumber.trim()) errors.push("Enter the prescriber's registration number");
+  if (!data.patient.name.trim()) errors.push("Enter the patient's name");
+  if (!data.issuedAt) errors.push('Enter the date the prescription was issued');
+  if (!data.validUntil || data.validUntil < data.issuedAt) errors.push('The prescription must be valid until on or after the issue date');
+  if (data.lines.length === 0) errors.push('Add at least one medicine');
+  data.lines.forEach((line, index) => {
+    const label = line.drug.trim() || `Line ${index + 1}`;
+    if (!line.drug.trim()) errors.push(`Line ${index + 1}: enter the drug as written`);
+    if (!line.productId) errors.push(`${label}: link it to a product`);
+    if (!line.strength.trim() || !line.dose.trim()) errors.push(`${label}: enter the strength and dose`);
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) errors.push(`${label}: quantity must be at least 1`);
+    if (!Number.isInteger(line.durationDays) || line.durationDays < 1) errors.push(`${label}: duration must be at least 1 day`);
+    if (!Number.isInteger(line.refills) || line.refills < 0) errors.push(`${label}: refills cannot be negative`);
+  });
+  return errors;
+};
+
+export const isTranscribed = (prescription: Prescription) => !!prescription.lines?.length;
+
+// Expired prescriptions can still be viewed but no longer dispensed
+export const isPrescriptionExpired = (prescription: Pick<Prescription, 'validUntil'>, now = new Date()) =>
+  !!prescription.validUntil && new Date(`${prescription.validUntil.slice(0, 10)}T23:59:59`) < now;
+
+export const formatPrescriptionLine = (line: PrescriptionLine) =>
+  `${line.dose} ${getFrequencyLabel(line.frequency).toLowerCase()} for ${line.durationDays} day${line.durationDays === 1 ? '' : 's'}`;
+
+// A refill can be requested once this share of the last supply should have been used
+export const REFILL_WINDOW = 0.75;
+
+export interface RefillEligibility {
+  remaining: number;
+  nextEligibleAt?: string;
+  eligible: boolean;
+  reason?: string;
+}
+
+// Whether one line of a prescription can be refilled now, and if not why not
+export const getRefillEligibility = (prescription: Prescription, line: PrescriptionLine, now = new Date()): RefillEligibility => {
+  const remaining = Math.max(line.refills - (line.refillsUsed ?? 0), 0);
+  const nextEligibleAt = line.lastDispensedAt
+    ? addDays(line.lastDispensedAt, Math.floor(line.durationDays * REFILL_WINDOW))
+    : undefined;
+
+  if (prescription.status !== 'approved') return { remaining, nextEligibleAt, eligible: false, reason: 'Not approved yet' };
+  if (isPrescriptionExpired(prescription, now)) return { remaining, nextEligibleAt, eligible: false, reason: 'Prescription expired' };
+  if (remaining === 0) return { remaining, nextEligibleAt, eligible: false, reason: 'No refills left' };
+  if (!line._id) return { remaining, nextEligibleAt, eligible: false, reason: 'Not available for refill' };
+  if (nextEligibleAt && new Date(nextEligibleAt) > now) {
+    return { remaining, nextEligibleAt, eligible: false, reason: `Available from ${new Date(nextEligibleAt).toLocaleDateString()}` };
+  }
+  return { remaining, nextEligibleAt, eligible: true };
+};
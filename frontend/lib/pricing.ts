@@ -0,0 +1,97 @@
+import type { PricingRules, TaxLine } from '@/services/pricing';
+
+// Used until the backend rules have loaded, and when they cannot be fetched
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  defaultTaxRate: 0.05,
+  categoryTaxRates: {},
+  prescriptionTaxExempt: true,
+  shipping: {
+    defaultFee: 500,
+    perKgFee: 0,
+    freeShippingThreshold: null,
+    cityFees: {},
+  },
+};
+
+export interface PricedLine {
+  price: number;
+  quantity: number;
+  category?: string;
+  prescription?: 'required' | 'not_required';
+  weightKg?: number;
+}
+
+// Stored on the order so later rule changes do not alter what the customer paid
+export interface PriceBreakdown {
+  subtotal: number;
+  discount: number;
+  taxLines: TaxLine[];
+  tax: number;
+  shipping: number;
+  total: number;
+}
+
+export interface PricingOptions {
+  discount?: number;
+  // Promo codes can waive the shipping fee
+  freeShipping?: boolean;
+  // False for counter sales, which are never shipped
+  delivery?: boolean;
+  city?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getTaxRate = (line: PricedLine, rules: PricingRules): number => {
+  if (rules.prescriptionTaxExempt && line.prescription === 'required') return 0;
+  return rules.categoryTaxRates[line.category ?? ''] ?? rules.defaultTaxRate;
+};
+
+export const getCityFee = (city: string | undefined, shipping: PricingRules['shipping']): number => {
+  const key = city?.trim().toLowerCase();
+  const match = key && Object.keys(shipping.cityFees).find(name => name.trim().toLowerCase() === key);
+  return match ? shipping.cityFees[match] : shipping.defaultFee;
+};
+
+export const calculatePricing = (
+  lines: PricedLine[],
+  rules: PricingRules,
+  { discount = 0, freeShipping = false, delivery = true, city }: PricingOptions = {},
+): PriceBreakdown => {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  const appliedDiscount = round(Math.min(Math.max(discount, 0), subtotal));
+  // The discount lowers every line's taxable amount by the same share
+  const discountShare = subtotal > 0 ? 1 - appliedDiscount / subtotal : 0;
+
+  const taxable = new Map<number, number>();
+  lines.forEach(line => {
+    const rate = getTaxRate(line, rules);
+    taxable.set(rate, (taxable.get(rate) ?? 0) + line.price * line.quantity * discountShare);
+  });
+  const taxLines = Array.from(taxable.entries())
+    .filter(([rate]) => rate > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([rate, base]) => ({ rate, taxable: round(base), amount: round(base * rate) }));
+  const tax = round(taxLines.reduce((sum, line) => sum + line.amount, 0));
+
+  const { shipping: shippingRules } = rules;
+  const netItems = subtotal - appliedDiscount;
+  const weightKg = lines.reduce((sum, line) => sum + (line.weightKg ?? 0) * line.quantity, 0);
+  const qualifiesForFree = shippingRules.freeShippingThreshold !== null && netItems >= shippingRules.freeShippingThreshold;
+  const shipping = !delivery || lines.length === 0 || freeShipping || qualifiesForFree
+    ? 0
+    : round(getCityFee(city, shippingRules) + Math.ceil(weightKg) * shippingRules.perKgFee);
+
+  return {
+    subtotal,
+    discount: appliedDiscount,
+    taxLines,
+    tax,
+    shipping,
+    total: round(netItems + tax + shipping),
+  };
+};
+
+// e.g. "Tax (5% + 8%)" when the basket mixes rates
+export const formatTaxLabel = (taxLines: TaxLine[]): string =>
+  taxLines.length ? `Tax (${taxLines.map(line => `${round(line.rate * 100)}%`).join(' + ')})` : 'Tax';
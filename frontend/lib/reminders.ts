@@ -0,0 +1,165 @@
+import type { Prescription } from '@/services/prescriptions';
+import { getTimeZone, MedicationReminder, ReminderData } from '@/services/reminders';
+import { addDays } from '@/lib/prescriptions';
+
+// Suggested times for each prescription frequency. As-needed and one-off doses have no
+// regular times, so they get no reminders.
+export const DEFAULT_DOSE_TIMES: Record<string, string[]> = {
+  OD: ['08:00'],
+  BD: ['08:00', '20:00'],
+  TDS: ['08:00', '14:00', '20:00'],
+  QID: ['08:00', '12:00', '16:00', '20:00'],
+  NOCTE: ['21:00'],
+  MANE: ['08:00'],
+  WEEKLY: ['08:00'],
+};
+
+export const isSchedulable = (frequency: string) => frequency in DEFAULT_DOSE_TIMES;
+
+// A dose not taken, skipped or snoozed this long after its time counts as missed
+export const MISSED_AFTER_MINUTES = 120;
+
+export const SNOOZE_OPTIONS = [10, 30, 60];
+
+export type DoseState = 'upcoming' | 'due' | 'snoozed' | 'taken' | 'skipped' | 'missed' | 'paused';
+
+export interface Dose {
+  reminderId: string;
+  scheduledFor: string;
+  state: DoseState;
+  snoozedUntil?: string;
+}
+
+const MINUTE = 60 * 1000;
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const defaultChannels = () => ({ inApp: true, email: true });
+
+// Reminders for each regularly taken medicine on a transcribed prescription, starting today
+export const draftReminders = (prescription: Prescription, orderId?: string): ReminderData[] =>
+  (prescription.lines ?? [])
+    .filter(line => isSchedulable(line.frequency))
+    .map(line => ({
+      prescriptionId: prescription._id,
+      orderId,
+      medicine: [line.productName ?? line.drug, line.strength].filter(Boolean).join(' '),
+      dose: line.dose,
+      frequency: line.frequency,
+      times: DEFAULT_DOSE_TIMES[line.frequency],
+      startDate: today(),
+      durationDays: line.durationDays,
+      channels: defaultChannels(),
+      timeZone: getTimeZone(),
+    }));
+
+// For orders whose prescription was never transcribed; the customer fills in how to take each item
+export const draftReminderForItem = (name: string, orderId?: string): ReminderData => ({
+  orderId,
+  medicine: name,
+  dose: '1',
+  frequency: 'OD',
+  times: DEFAULT_DOSE_TIMES.OD,
+  startDate: today(),
+  durationDays: 7,
+  channels: defaultChannels(),
+  timeZone: getTimeZone(),
+});
+
+// Problems that stop a reminder being saved, one message each
+export const validateReminder = (reminder: ReminderData): string[] => {
+  const errors: string[] = [];
+  const label = reminder.medicine.trim() || 'Reminder';
+  if (!reminder.medicine.trim()) errors.push('Enter the medicine name');
+  if (!isSchedulable(reminder.frequency)) errors.push(`${label}: choose a regular frequency`);
+  if (reminder.times.length === 0 || reminder.times.some(time => !/^\d{2}:\d{2}$/.test(time))) errors.push(`${label}: enter a time for each dose`);
+  if (!Number.isInteger(reminder.durationDays) || reminder.durationDays < 1) errors.push(`${label}: duration must be at least 1 day`);
+  if (!reminder.channels.inApp && !reminder.channels.email) errors.push(`${label}: choose how to be reminded`);
+  return errors;
+};
+
+// How far the zone's clocks are ahead of UTC at the given instant
+const getZoneOffset = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(instant).map(part => [part.type, part.value]),
+  );
+  const wall = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+  return wall - Math.floor(instant / 1000) * 1000;
+};
+
+// The instant a local date and time in the zone falls on. The offset is looked up twice
+// so times near a daylight saving change use the offset in force at that time.
+const toInstant = (date: string, time: string, timeZone: string) => {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const guess = wall - getZoneOffset(wall, timeZone);
+  return new Date(wall - getZoneOffset(guess, timeZone));
+};
+
+// Every dose time in the course, in order, at the local times of the reminder's own zone
+// rather than the browser's. Weekly medicines repeat every seventh day.
+export const getScheduledTimes = (reminder: ReminderData): Date[] => {
+  const interval = reminder.frequency === 'WEEKLY' ? 7 : 1;
+  const times = [...reminder.times].sort();
+  const timeZone = reminder.timeZone || getTimeZone();
+  const scheduled: Date[] = [];
+  for (let day = 0; day < reminder.durationDays; day += interval) {
+    const date = addDays(reminder.startDate, day);
+    times.forEach(time => scheduled.push(toInstant(date, time, timeZone)));
+  }
+  return scheduled;
+};
+
+const isPausedAt = (reminder: MedicationReminder, time: Date) =>
+  reminder.pauses.some(pause => new Date(pause.from) <= time && (!pause.to || time < new Date(pause.to)));
+
+// Each scheduled dose with what has happened to it so far
+export const getDoses = (reminder: MedicationReminder, now = new Date()): Dose[] =>
+  getScheduledTimes(reminder).map((time): Dose => {
+    const scheduledFor = time.toISOString();
+    const log = reminder.doses.find(entry => new Date(entry.scheduledFor).getTime() === time.getTime());
+    const dose = { reminderId: reminder._id, scheduledFor };
+
+    if (log?.status === 'taken' || log?.status === 'skipped') return { ...dose, state: log.status };
+    if (isPausedAt(reminder, time)) return { ...dose, state: 'paused' };
+    if (log?.snoozedUntil && new Date(log.snoozedUntil) > now) return { ...dose, state: 'snoozed', snoozedUntil: log.snoozedUntil };
+    if (time > now) return { ...dose, state: 'upcoming' };
+    // A snooze restarts the time allowed before the dose is missed
+    const from = log?.snoozedUntil ? new Date(log.snoozedUntil) : time;
+    return { ...dose, state: now.getTime() - from.getTime() <= MISSED_AFTER_MINUTES * MINUTE ? 'due' : 'missed' };
+  });
+
+export const getNextDose = (doses: Dose[]) =>
+  doses.find(dose => dose.state === 'due' || dose.state === 'snoozed' || dose.state === 'upcoming');
+
+export interface Adherence {
+  taken: number;
+  skipped: number;
+  missed: number;
+  // Share of past doses that were taken, or null before any were due
+  rate: number | null;
+}
+
+// Doses still due or snoozed are left out until the customer acts on them or they are missed
+export const getAdherence = (doses: Dose[]): Adherence => {
+  const count = (state: DoseState) => doses.filter(dose => dose.state === state).length;
+  const taken = count('taken');
+  const skipped = count('skipped');
+  const missed = count('missed');
+  const total = taken + skipped + missed;
+  return { taken, skipped, missed, rate: total > 0 ? taken / total : null };
+};
+
+export const formatDoseTime = (scheduledFor: string) =>
+  new Date(scheduledFor).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
@@ -0,0 +1,42 @@
+import type { Order } from '@/services/orders';
+import type { ReturnEventType, ReturnKind, ReturnLine, ReturnRequest, ReturnStatus } from '@/services/returns';
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  refunded: 'Refunded',
+};
+
+export const RETURN_EVENT_LABELS: Record<ReturnEventType, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  refunded: 'Refund completed',
+  restocked: 'Items restocked',
+  refund_failed: 'Refund failed',
+};
+
+// Which kind of request the order still allows, if any
+export const getAvailableReturnKind = (order: Order): ReturnKind | null => {
+  if (order.status === 'pending' || order.status === 'processing') return 'cancellation';
+  if (order.status === 'delivered') return 'return';
+  return null;
+};
+
+// Units of each item not already covered by an earlier request. Rejected requests
+// free their units again, and approved ones only hold what was approved.
+export const getReturnableQuantities = (order: Order, requests: ReturnRequest[]): Record<string, number> => {
+  const taken: Record<string, number> = {};
+  requests
+    .filter(request => request.status !== 'rejected')
+    .forEach(request => request.items.forEach(line => {
+      const quantity = request.status === 'requested' ? line.quantity : line.approvedQuantity ?? 0;
+      taken[line.itemId] = (taken[line.itemId] ?? 0) + quantity;
+    }));
+  return Object.fromEntries(order.items.map(item => [item.id, Math.max(item.quantity - (taken[item.id] ?? 0), 0)]));
+};
+
+// Value of the approved units before tax and shipping, which the backend adds
+export const getApprovedItemValue = (lines: ReturnLine[], approved: Record<string, number>): number =>
+  Math.round(lines.reduce((sum, line) => sum + line.price * (approved[line.itemId] ?? 0), 0) * 100) / 100;
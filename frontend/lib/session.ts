@@ -0,0 +1,86 @@
+// Signed session cookie shared by the session API route and middleware.
+// Uses Web Crypto only so it runs in both the Node and Edge runtimes.
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_MAX_AGE = 60 * 60 * 12; // 12 hours, in seconds
+
+export interface SessionPayload {
+  sub: string;
+  // Primary role, used to pick the default dashboard
+  role: string;
+  roles: string[];
+  // Effective permissions at sign-in; refreshed whenever the token is
+  permissions: string[];
+  exp: number;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return 'development-session-secret';
+};
+
+const encoder = new TextEncoder();
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const getKey = () =>
+  crypto.subtle.importKey('raw', encoder.encode(getSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+// Reads the payload of any JWT without checking its signature
+export const decodeJwtPayload = <T = Record<string, unknown>>(token: string): T | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+  } catch {
+    return null;
+  }
+};
+
+export const signSession = async (payload: SessionPayload): Promise<string> => {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+// Returns the payload when the signature is valid and the session has not expired
+export const verifySession = async (token: string | undefined): Promise<SessionPayload | null> => {
+  if (!token) return null;
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${body}`)
+    );
+    if (!valid) return null;
+
+    const payload = decodeJwtPayload<SessionPayload>(token);
+    if (!payload || !payload.role || payload.exp * 1000 < Date.now()) return null;
+    return {
+      ...payload,
+      roles: payload.roles?.length ? payload.roles : [payload.role],
+      permissions: payload.permissions ?? [],
+    };
+  } catch {
+    return null;
+  }
+};
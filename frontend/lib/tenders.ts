@@ -0,0 +1,62 @@
+import type { Tender, TenderMethod } from '@/services/payments';
+
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'card', 'upi', 'bank_transfer'];
+
+export interface TenderReconciliation {
+  // What each tender settles, ready to record against the order
+  tenders: Tender[];
+  tendered: number;
+  change: number;
+  balance: number;
+  settled: boolean;
+  error?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Splits the total across the tenders as entered at the till. Only cash can be
+// over-tendered, and the change comes off the cash tenders, last first.
+export const reconcileTenders = (total: number, entries: Tender[]): TenderReconciliation => {
+  const valid = entries.filter(entry => entry.amount > 0);
+  const tendered = round(valid.reduce((sum, entry) => sum + entry.amount, 0));
+  const nonCash = round(valid.filter(entry => entry.method !== 'cash').reduce((sum, entry) => sum + entry.amount, 0));
+  const change = round(Math.max(tendered - total, 0));
+  const balance = round(Math.max(total - tendered, 0));
+
+  let error: string | undefined;
+  if (nonCash > total) {
+    error = 'Card and transfer tenders cannot be more than the total';
+  } else if (change > 0 && !valid.some(entry => entry.method === 'cash')) {
+    error = 'Only cash can be more than the total';
+  }
+
+  let changeLeft = change;
+  const tenders = [...valid].reverse().map(entry => {
+    if (entry.method !== 'cash' || changeLeft === 0) return entry;
+    const kept = Math.min(entry.amount, changeLeft);
+    changeLeft = round(changeLeft - kept);
+    return { ...entry, amount: round(entry.amount - kept) };
+  }).reverse().filter(tender => tender.amount > 0);
+
+  return {
+    tenders,
+    tendered,
+    change,
+    balance,
+    settled: !error && valid.length > 0 && balance === 0,
+    error,
+  };
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  bank_transfer: 'Bank transfer',
+  split: 'Split payment',
+  card_payment: 'Card',
+  cash_on_delivery: 'Cash on delivery',
+};
+
+export const formatPaymentMethod = (method?: string): string =>
+  (method && PAYMENT_METHOD_LABELS[method]) || method || 'N/A';
@@ -0,0 +1,17 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import authService, { User } from '@/services/auth';
+import { hasPermission, Permission } from './permissions';
+
+// Returns a `can(permission)` check for the signed-in user. It answers false until
+// the user has been read from sessionStorage after mount.
+export function useCan() {
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    setUser(authService.getCurrentUser());
+  }, []);
+
+  return useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+}
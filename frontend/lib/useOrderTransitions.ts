@@ -0,0 +1,18 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import authService, { User } from '@/services/auth';
+import type { OrderStatus } from '@/services/orders';
+import { getAllowedTransitions } from './orderStatus';
+
+// Returns the statuses the signed-in user may move an order to. Like `useCan`, it
+// allows nothing until the user has been read from sessionStorage after mount.
+export function useOrderTransitions() {
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    setUser(authService.getCurrentUser());
+  }, []);
+
+  return useCallback((status: OrderStatus) => getAllowedTransitions(user, status), [user]);
+}
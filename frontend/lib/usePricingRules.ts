@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import pricingService, { PricingRules } from '@/services/pricing';
+import { DEFAULT_PRICING_RULES } from './pricing';
+
+// Current tax and shipping rules. Until they load, or if loading fails, `rules` holds the
+// defaults so totals can still be shown, but nothing should be charged until `loaded`.
+export function usePricingRules() {
+  const [rules, setRules] = useState<PricingRules>(DEFAULT_PRICING_RULES);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    pricingService.getRules()
+      .then(current => {
+        setRules(current);
+        setLoaded(true);
+      })
+      .catch(err => {
+        console.error('Failed to load pricing rules:', err);
+        setError('Tax and shipping rates could not be loaded. Please refresh the page.');
+      });
+  }, []);
+
+  return { rules, loaded, error };
+}
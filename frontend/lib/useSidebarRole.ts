@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import authService, { Role } from '@/services/auth';
+
+// Role whose sidebar a page shows. Pages open to staff through a permission grant show
+// `preferred` to users holding that role, and the user's own sidebar to everyone else.
+export function useSidebarRole(preferred: Role): Role {
+  const [role, setRole] = useState<Role>(preferred);
+
+  useEffect(() => {
+    const roles = authService.getRoles();
+    setRole(roles.includes(preferred) || roles.length === 0 ? preferred : roles[0]);
+  }, [preferred]);
+
+  return role;
+}
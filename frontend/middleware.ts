@@ -1,11 +1,31 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySession } from '@/lib/session';
+import { canAccessRoute } from '@/lib/permissions';
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('redirect', `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  if (pathname === '/dashboard') {
+    return NextResponse.redirect(new URL(`/dashboard/${session.role}`, request.url));
+  }
+
+  if (!canAccessRoute(pathname, session.roles, session.permissions)) {
+    return NextResponse.redirect(new URL(`/dashboard/${session.role}`, request.url));
+  }
 
-export function middleware(request: NextRequest) {
-  // Remove middleware authentication since we're using localStorage
   return NextResponse.next();
 }
 
 export const config = {
   matcher: ['/upload-prescription/:path*', '/dashboard/:path*'],
-}; 
\ No newline at end of file
+};
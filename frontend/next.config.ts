@@ -1,5 +1,8 @@
 import type { NextConfig } from "next";
 
+// Uploaded images are served by the backend, so allow its host in next/image
+const backendUrl = new URL(process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api');
+
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   images: {
@@ -18,6 +21,12 @@ const nextConfig: NextConfig = {
         port: '8000',
         pathname: '/uploads/**',
       },
+      {
+        protocol: backendUrl.protocol.replace(':', '') as 'http' | 'https',
+        hostname: backendUrl.hostname,
+        port: backendUrl.port,
+        pathname: '/uploads/**',
+      },
     ],
   },
   async headers() {
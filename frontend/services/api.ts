@@ -0,0 +1,187 @@
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { endSession, getImpersonation, IMPERSONATION_REJECTED_EVENT, startSession } from './session';
+import { isTokenExpiring } from './tokens';
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+
+// Origin of the backend without the /api prefix; uploaded files are served from here
+export const BACKEND_URL = API_URL.replace(/\/api\/?$/, '');
+
+// Error thrown by every API call, carrying the HTTP status when the server responded
+export class ApiError extends Error {
+  status?: number;
+  data?: unknown;
+
+  constructor(message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Shape used by the order, prescription and payment endpoints
+export interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export const getStoredToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return sessionStorage.getItem('token');
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED') {
+      return new ApiError('Request timeout. Please try again.');
+    }
+    if (!error.response) {
+      return new ApiError('Network error. Please check your connection and try again.');
+    }
+
+    const data = error.response.data as { message?: string; error?: string | string[] } | undefined;
+    const detail = Array.isArray(data?.error) ? data.error.join(', ') : data?.error;
+    return new ApiError(data?.message || detail || 'An error occurred', error.response.status, data);
+  }
+
+  return new ApiError(error instanceof Error ? error.message : 'An error occurred');
+};
+
+// Create axios instance with default config
+const api = axios.create({
+  baseURL: API_URL,
+  timeout: 10000, // 10 seconds timeout
+});
+
+// Concurrent callers share one refresh request
+let refreshRequest: Promise<string | null> | null = null;
+
+const requestNewToken = async (): Promise<string | null> => {
+  const token = sessionStorage.getItem('token');
+  // Impersonation tokens are time-boxed and never extended
+  if (!token || getImpersonation()) return null;
+
+  try {
+    // Plain axios so a failing refresh never re-enters the interceptors below
+    const response = await axios.post<{ token?: string; user?: unknown }>(`${API_URL}/auth/refresh`, null, {
+      headers: { Authorization: `Bearer ${token}` },
+      timeout: 10000,
+    });
+    const { token: newToken, user } = response.data;
+    if (!newToken) return null;
+
+    sessionStorage.setItem('token', newToken);
+    if (user) sessionStorage.setItem('user', JSON.stringify(user));
+    // Keep the middleware cookie in step with the new token
+    await startSession(newToken).catch(error => console.error('Failed to renew session cookie:', error));
+    return newToken;
+  } catch {
+    return null;
+  }
+};
+
+// Swaps the stored token for a fresh one, resolving to null when the backend refuses
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (typeof window === 'undefined') return Promise.resolve(null);
+  if (!refreshRequest) {
+    refreshRequest = requestNewToken().finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+};
+
+let sessionExpired = false;
+
+// Signs the user out everywhere and sends them to the login page with a notice
+export const expireSession = (): void => {
+  if (typeof window === 'undefined' || sessionExpired) return;
+  sessionExpired = true;
+
+  endSession();
+  sessionStorage.clear();
+
+  const loginUrl = new URL('/login', window.location.origin);
+  loginUrl.searchParams.set('reason', 'expired');
+  if (window.location.pathname !== '/login') {
+    loginUrl.searchParams.set('redirect', `${window.location.pathname}${window.location.search}`);
+  }
+  window.location.assign(loginUrl.toString());
+};
+
+// Add auth token to requests, refreshing it first when it is about to expire
+api.interceptors.request.use(async (config) => {
+  let token = getStoredToken();
+  if (token && isTokenExpiring(token)) {
+    token = (await refreshAccessToken()) || token;
+  }
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  // Lets the backend attribute every request to the impersonation audit record
+  const impersonation = getImpersonation();
+  if (impersonation) {
+    config.headers['X-Impersonation-Id'] = impersonation.id;
+  }
+  return config;
+});
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  retried?: boolean;
+}
+
+// Retries a 401 once after refreshing, then normalizes every failure into an ApiError
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = axios.isAxiosError(error) ? error.config as RetriableRequestConfig | undefined : undefined;
+
+    if (axios.isAxiosError(error) && error.response?.status === 401 && config && !config.retried && getStoredToken()) {
+      config.retried = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      }
+      if (getImpersonation()) {
+        // Hand control back to the admin instead of signing everyone out
+        window.dispatchEvent(new Event(IMPERSONATION_REJECTED_EVENT));
+      } else {
+        expireSession();
+      }
+    }
+
+    const apiError = toApiError(error);
+    console.error('API error:', apiError.message);
+    return Promise.reject(apiError);
+  }
+);
+
+// Unwraps `{ success, data }` responses, throwing when the server reports a failure
+export const unwrap = <T>(body: ApiEnvelope<T>, fallbackMessage: string): T => {
+  if (!body.success) {
+    throw new ApiError(body.message || fallbackMessage);
+  }
+  return body.data;
+};
+
+// Resolves a path stored by the backend (e.g. "uploads\\profiles\\x.jpg") to a full URL
+export const assetUrl = (path?: string | null, fallback = '/placeholder.png'): string => {
+  if (!path) return fallback;
+  if (path.startsWith('http://') || path.startsWith('https://')) return path;
+  return `${BACKEND_URL}/${path.replace(/\\/g, '/').replace(/^\/+/, '')}`;
+};
+
+// Product images are always served from /uploads/products regardless of the stored path
+export const productImageUrl = (path?: string | null, fallback = '/placeholder.png'): string => {
+  if (!path) return fallback;
+  if (path.startsWith('http://') || path.startsWith('https://')) return path;
+  const filename = path.replace(/\\/g, '/').split('/').pop();
+  return `${BACKEND_URL}/uploads/products/${filename}`;
+};
+
+export default api;
@@ -0,0 +1,137 @@
+import { ApiError } from './api';
+
+// Client-side mirror of the backend's brute-force protection. The backend stays
+// authoritative: whatever it reports about remaining attempts or lockouts wins.
+
+export type AttemptScope = 'login' | 'forgot' | 'otp';
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Failures allowed before retries are slowed down, then the wait doubles each time
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 2 * 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+export interface AttemptStatus {
+  failures: number;
+  remainingAttempts: number;
+  // Epoch milliseconds; set while the account is locked out
+  lockedUntil: number | null;
+  // Epoch milliseconds before which the next attempt is held back
+  retryAt: number | null;
+}
+
+interface StoredAttempts {
+  failures: number;
+  lockedUntil: number | null;
+  retryAt: number | null;
+}
+
+// Extra fields the auth endpoints add to 401, 423 and 429 responses
+interface ThrottleDetails {
+  remainingAttempts?: number;
+  lockedUntil?: string;
+  retryAfter?: number;
+}
+
+// Thrown before a request is sent when the caller still has to wait
+export class AttemptsBlockedError extends Error {
+  status: AttemptStatus;
+
+  constructor(message: string, status: AttemptStatus) {
+    super(message);
+    this.name = 'AttemptsBlockedError';
+    this.status = status;
+  }
+}
+
+const storageKey = (scope: AttemptScope, key: string) => `attempts:${scope}:${key.trim().toLowerCase()}`;
+
+const read = (scope: AttemptScope, key: string): StoredAttempts => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(scope, key)) || 'null');
+    if (stored) return stored;
+  } catch {
+    // Fall through to a clean record
+  }
+  return { failures: 0, lockedUntil: null, retryAt: null };
+};
+
+const write = (scope: AttemptScope, key: string, stored: StoredAttempts) => {
+  localStorage.setItem(storageKey(scope, key), JSON.stringify(stored));
+};
+
+const delayFor = (failures: number) =>
+  failures <= FREE_ATTEMPTS ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+
+export const getAttemptStatus = (scope: AttemptScope, key: string): AttemptStatus => {
+  const now = Date.now();
+  const stored = read(scope, key);
+
+  // A lockout that has run out starts the count again
+  if (stored.lockedUntil && stored.lockedUntil <= now) {
+    clearAttempts(scope, key);
+    return { failures: 0, remainingAttempts: MAX_FAILED_ATTEMPTS, lockedUntil: null, retryAt: null };
+  }
+
+  return {
+    failures: stored.failures,
+    remainingAttempts: Math.max(0, MAX_FAILED_ATTEMPTS - stored.failures),
+    lockedUntil: stored.lockedUntil,
+    retryAt: stored.retryAt && stored.retryAt > now ? stored.retryAt : null,
+  };
+};
+
+// Throws while the scope is locked or a progressive delay has not yet passed
+export const assertCanAttempt = (scope: AttemptScope, key: string): void => {
+  const status = getAttemptStatus(scope, key);
+  const now = Date.now();
+
+  if (status.lockedUntil) {
+    const minutes = Math.ceil((status.lockedUntil - now) / 60000);
+    throw new AttemptsBlockedError(
+      `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      status
+    );
+  }
+  if (status.retryAt) {
+    const seconds = Math.ceil((status.retryAt - now) / 1000);
+    throw new AttemptsBlockedError(`Please wait ${seconds} seconds before trying again.`, status);
+  }
+};
+
+// Responses that mean the credentials or code were wrong, or that the backend is throttling
+const COUNTED_STATUSES = [400, 401, 423, 429];
+
+// Counts a rejected attempt. Network failures, server errors and account problems are ignored.
+export const recordFailure = (scope: AttemptScope, key: string, error: unknown): AttemptStatus => {
+  if (!(error instanceof ApiError) || !error.status || !COUNTED_STATUSES.includes(error.status)) {
+    return getAttemptStatus(scope, key);
+  }
+
+  const now = Date.now();
+  const details = (error.data ?? {}) as ThrottleDetails;
+  const stored = read(scope, key);
+
+  let failures = stored.failures + 1;
+  if (typeof details.remainingAttempts === 'number') {
+    failures = MAX_FAILED_ATTEMPTS - details.remainingAttempts;
+  }
+
+  let lockedUntil: number | null = null;
+  if (details.lockedUntil) {
+    lockedUntil = new Date(details.lockedUntil).getTime();
+  } else if (error.status === 423 || failures >= MAX_FAILED_ATTEMPTS) {
+    lockedUntil = now + LOCKOUT_MS;
+  }
+
+  const retryAt = details.retryAfter ? now + details.retryAfter * 1000 : now + delayFor(failures);
+
+  write(scope, key, { failures, lockedUntil, retryAt });
+  return getAttemptStatus(scope, key);
+};
+
+export const clearAttempts = (scope: AttemptScope, key: string): void => {
+  localStorage.removeItem(storageKey(scope, key));
+};
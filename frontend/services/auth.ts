@@ -1,8 +1,9 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import axios from 'axios';
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+import api, { ApiError } from './api';
+import { endSession, getImpersonation, startSession } from './session';
+import { hasPermission, Permission } from '@/lib/permissions';
+import { isTwoFactorChallenge, TwoFactorChallenge } from './twoFactor';
+import { assertCanAttempt, clearAttempts, recordFailure } from './attempts';
 
 export interface RegisterData {
   firstName: string;
@@ -13,12 +14,21 @@ export interface RegisterData {
   address: string;
 }
 
+export type Role = 'customer' | 'admin' | 'doctor' | 'pharmacist' | 'delivery';
+
+export const STAFF_ROLES: Role[] = ['admin', 'doctor', 'pharmacist', 'delivery'];
+
 export interface User {
   _id: string;
   email: string;
   firstName: string;
   lastName: string;
-  role: 'customer' | 'admin' | 'doctor' | 'pharmacist' | 'delivery';
+  // Primary role, used as the default landing dashboard
+  role: Role;
+  // Every role the user holds, including the primary one
+  roles?: Role[];
+  // Permissions granted individually on top of the user's role defaults
+  permissions?: Permission[];
   status: 'active' | 'inactive';
   createdAt: string;
   updatedAt?: string;
@@ -26,6 +36,14 @@ export interface User {
   phone?: string;
   address?: string;
   speciality?: string;
+  twoFactorEnabled?: boolean;
+  // Missing on accounts created before verification existed, which count as verified
+  emailVerified?: boolean;
+}
+
+export interface RegisterResponse {
+  message: string;
+  email: string;
 }
 
 export interface AuthResponse {
@@ -33,43 +51,143 @@ export interface AuthResponse {
   user: User;
 }
 
+// Completing a second step can also finish enrolment, which issues backup codes
+export interface TwoFactorAuthResponse extends AuthResponse {
+  backupCodes?: string[];
+}
+
+// A signed-in device as tracked by the backend
+export interface ActiveSession {
+  _id: string;
+  device?: string;
+  browser?: string;
+  os?: string;
+  ipAddress?: string;
+  location?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  // True for the session belonging to the token this tab is using
+  current: boolean;
+}
+
+export interface OtpRequestResponse {
+  message: string;
+  // Epoch milliseconds after which the emailed code is no longer accepted
+  expiresAt: number;
+}
+
+// Used when the backend does not say how long a reset code stays valid
+const OTP_TTL_MS = 10 * 60 * 1000;
+
+// Older accounts only carry `role`, so fall back to it when `roles` is missing
+export const getUserRoles = (user: Pick<User, 'role' | 'roles'> | null | undefined): Role[] => {
+  if (!user) return [];
+  const roles = user.roles?.length ? user.roles : [user.role];
+  return roles.includes(user.role) ? roles : [user.role, ...roles];
+};
+
+// Client-side floor for resending verification emails; the backend enforces its own limit
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+const resendKey = (email: string) => `verificationResendAt:${email.trim().toLowerCase()}`;
+
 const authService = {
-  async register(data: RegisterData): Promise<AuthResponse> {
+  // Exchanges the backend token for the httpOnly cookie checked by middleware
+  startSession(token: string): Promise<void> {
+    return startSession(token);
+  },
+
+  endSession(): void {
+    endSession();
+  },
+
+  // Stores a successful sign-in and starts the middleware session
+  async completeLogin(data: AuthResponse): Promise<void> {
+    sessionStorage.setItem('token', data.token);
+    sessionStorage.setItem('user', JSON.stringify(data.user));
+    this.setActiveRole(data.user.role);
+    await this.startSession(data.token);
+  },
+
+  // Creates an unverified account; the user signs in after following the emailed link
+  async register(data: RegisterData): Promise<RegisterResponse> {
     try {
-      const response = await axios.post(`${API_URL}/auth/register`, data);
-      if (response.data.token) {
-        sessionStorage.setItem('token', response.data.token);
-        sessionStorage.setItem('user', JSON.stringify(response.data.user));
-      }
-      return response.data;
-    } catch (error: any) {
-      // Handle axios error response
-      if (error.response && error.response.data && error.response.data.message) {
-        throw new Error(error.response.data.message);
-      } else if (error.message) {
-        throw new Error(error.message);
-      } else {
-        throw new Error('Registration failed. Please try again.');
+      const response = await api.post<RegisterResponse>('/auth/register', data);
+      this.startResendCooldown(data.email, RESEND_COOLDOWN_MS);
+      return { message: response.data.message, email: response.data.email || data.email };
+    } catch (error) {
+      if (error instanceof Error && error.message) {
+        throw error;
       }
+      throw new Error('Registration failed. Please try again.');
     }
   },
 
-  async login(email: string, password: string): Promise<AuthResponse> {
-    const response = await axios.post(`${API_URL}/auth/login`, { email, password });
+  // Resolves to a challenge instead of a session when the account uses 2FA
+  async login(email: string, password: string): Promise<AuthResponse | TwoFactorChallenge> {
+    assertCanAttempt('login', email);
+    let response;
+    try {
+      response = await api.post<AuthResponse | TwoFactorChallenge>('/auth/login', { email, password });
+    } catch (error) {
+      recordFailure('login', email, error);
+      throw error;
+    }
+    clearAttempts('login', email);
+    if (isTwoFactorChallenge(response.data)) {
+      return response.data;
+    }
     if (response.data.token) {
-      sessionStorage.setItem('token', response.data.token);
-      sessionStorage.setItem('user', JSON.stringify(response.data.user));
+      await this.completeLogin(response.data);
     }
     return response.data;
   },
 
+  // Second login step; pass either an authenticator code or one of the backup codes
+  async verifyTwoFactor(challengeToken: string, code: string, isBackupCode = false): Promise<TwoFactorAuthResponse> {
+    const response = await api.post<TwoFactorAuthResponse>('/auth/2fa/verify', {
+      challengeToken,
+      ...(isBackupCode ? { backupCode: code } : { code }),
+    });
+    await this.completeLogin(response.data);
+    return response.data;
+  },
+
+  // Revokes the server session in the background, then clears local auth state
   logout(): void {
+    // Signing out while impersonating ends the stashed admin sign-in as well
+    const tokens = [this.getToken(), getImpersonation()?.admin.token];
+    tokens.forEach(token => {
+      if (!token) return;
+      api.post('/auth/logout', null, { headers: { Authorization: `Bearer ${token}` } })
+        .catch(error => console.error('Failed to revoke session:', error));
+    });
+    this.clearLocalSession();
+  },
+
+  clearLocalSession(): void {
+    this.endSession();
     sessionStorage.removeItem('token');
     sessionStorage.removeItem('user');
     // Clear any other auth-related data
     sessionStorage.clear();
   },
 
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await api.get<ActiveSession[]>('/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  // Signs out every device, including this one
+  async revokeAllSessions(): Promise<void> {
+    await api.delete('/auth/sessions');
+    this.clearLocalSession();
+  },
+
   getCurrentUser(): User | null {
     const userStr = sessionStorage.getItem('user');
     const token = sessionStorage.getItem('token');
@@ -90,66 +208,153 @@ const authService = {
     return sessionStorage.getItem('token');
   },
 
+  getRoles(): Role[] {
+    return getUserRoles(this.getCurrentUser());
+  },
+
+  hasRole(role: Role): boolean {
+    return this.getRoles().includes(role);
+  },
+
+  hasAnyRole(roles: Role[]): boolean {
+    const userRoles = this.getRoles();
+    return roles.some(role => userRoles.includes(role));
+  },
+
+  hasPermission(permission: Permission): boolean {
+    return hasPermission(this.getCurrentUser(), permission);
+  },
+
+  // The role whose dashboard and links the user is currently working in
+  getActiveRole(): Role | null {
+    const roles = this.getRoles();
+    const active = sessionStorage.getItem('activeRole') as Role | null;
+    if (active && roles.includes(active)) return active;
+    return roles[0] ?? null;
+  },
+
+  setActiveRole(role: Role): void {
+    sessionStorage.setItem('activeRole', role);
+  },
+
   isAdmin(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'admin';
+    return this.hasRole('admin');
   },
 
   isCustomer(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'customer';
+    return this.hasRole('customer');
   },
 
   isDoctor(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'doctor';
+    return this.hasRole('doctor');
   },
 
   isPharmacist(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'pharmacist';
+    return this.hasRole('pharmacist');
   },
 
   isDelivery(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'delivery';
+    return this.hasRole('delivery');
   },
 
   isStaff(): boolean {
-    const user = this.getCurrentUser();
-    return ['admin', 'doctor', 'pharmacist', 'delivery'].includes(user?.role || '');
+    return this.hasAnyRole(STAFF_ROLES);
   },
 
-  async forgotPassword(email: string): Promise<{ message: string }> {
-    const response = await axios.post(`${API_URL}/auth/forgot-password`, { email });
-    return response.data;
+  isEmailVerified(): boolean {
+    return this.getCurrentUser()?.emailVerified !== false;
+  },
+
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    const response = await api.post<{ message: string; user?: User }>('/auth/verify-email', { token });
+    // Lift restrictions straight away when the link is opened in the signed-in tab
+    const current = this.getCurrentUser();
+    if (current && response.data.user?._id === current._id) {
+      sessionStorage.setItem('user', JSON.stringify({ ...current, emailVerified: true }));
+    }
+    return { message: response.data.message };
+  },
+
+  // Milliseconds until another verification email may be requested for this address
+  getResendCooldown(email: string): number {
+    const allowedAt = Number(localStorage.getItem(resendKey(email)) || 0);
+    return Math.max(0, allowedAt - Date.now());
+  },
+
+  startResendCooldown(email: string, ms: number): void {
+    localStorage.setItem(resendKey(email), String(Date.now() + ms));
+  },
+
+  async resendVerification(email: string): Promise<{ message: string }> {
+    const wait = this.getResendCooldown(email);
+    if (wait > 0) {
+      throw new Error(`Please wait ${Math.ceil(wait / 1000)} seconds before requesting another email.`);
+    }
+
+    try {
+      const response = await api.post<{ message: string }>('/auth/resend-verification', { email });
+      this.startResendCooldown(email, RESEND_COOLDOWN_MS);
+      return response.data;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 429) {
+        const retryAfter = (error.data as { retryAfter?: number } | undefined)?.retryAfter;
+        this.startResendCooldown(email, retryAfter ? retryAfter * 1000 : RESEND_COOLDOWN_MS);
+      }
+      throw error;
+    }
+  },
+
+  async forgotPassword(email: string): Promise<OtpRequestResponse> {
+    assertCanAttempt('forgot', email);
+    try {
+      const response = await api.post<{ message: string; expiresAt?: string; expiresIn?: number }>(
+        '/auth/forgot-password',
+        { email }
+      );
+      clearAttempts('forgot', email);
+      // A new code gets a fresh set of attempts
+      clearAttempts('otp', email);
+      const { message, expiresAt, expiresIn } = response.data;
+      return {
+        message,
+        expiresAt: expiresAt
+          ? new Date(expiresAt).getTime()
+          : Date.now() + (expiresIn ? expiresIn * 1000 : OTP_TTL_MS),
+      };
+    } catch (error) {
+      recordFailure('forgot', email, error);
+      throw error;
+    }
   },
 
   async verifyOTP(email: string, otp: string): Promise<{ message: string }> {
-    const response = await axios.post(`${API_URL}/auth/verify-otp`, { email, otp });
-    return response.data;
+    assertCanAttempt('otp', email);
+    try {
+      const response = await api.post('/auth/verify-otp', { email, otp });
+      clearAttempts('otp', email);
+      return response.data;
+    } catch (error) {
+      recordFailure('otp', email, error);
+      throw error;
+    }
   },
 
   async resetPassword(email: string, otp: string, newPassword: string): Promise<{ message: string }> {
-    const response = await axios.post(`${API_URL}/auth/reset-password`, { email, otp, newPassword });
+    const response = await api.post('/auth/reset-password', { email, otp, newPassword });
     return response.data;
   },
 
   async fetchProfile(): Promise<User> {
     const token = this.getToken();
     if (!token) throw new Error('No auth token');
-    const response = await axios.get(`${API_URL}/auth/profile`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await api.get<User>('/auth/profile');
     return response.data;
   },
 
   async updateProfile(data: Partial<RegisterData & { speciality?: string }>): Promise<User> {
     const token = this.getToken();
     if (!token) throw new Error('No auth token');
-    const response = await axios.put(`${API_URL}/auth/profile`, data, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await api.put<User>('/auth/profile', data);
     // Update sessionStorage with new user data
     sessionStorage.setItem('user', JSON.stringify(response.data));
     return response.data;
@@ -158,18 +363,15 @@ const authService = {
   async changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }> {
     const token = this.getToken();
     if (!token) throw new Error('No auth token');
-    const response = await axios.put(`${API_URL}/auth/change-password`, { currentPassword, newPassword }, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await api.put('/auth/change-password', { currentPassword, newPassword });
     return response.data;
   },
 
   async deleteProfile(): Promise<{ message: string }> {
     const token = this.getToken();
     if (!token) throw new Error('No auth token');
-    const response = await axios.delete(`${API_URL}/auth/profile`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await api.delete('/auth/profile');
+    this.endSession();
     sessionStorage.removeItem('user');
     sessionStorage.removeItem('token');
     return response.data;
@@ -0,0 +1,104 @@
+import productService from './products';
+import { ApiError } from './api';
+import type { CartItem } from '@/context/CartContext';
+
+// Guest carts live in localStorage so they survive closing the browser
+const GUEST_CART_KEY = 'guestCart';
+
+// Why a line changed when a guest cart was merged into an account cart
+export interface CartAdjustment {
+  id: string;
+  name: string;
+  reason: 'combined' | 'limited' | 'unavailable';
+  requested: number;
+  quantity: number;
+}
+
+export interface CartMergeResult {
+  items: CartItem[];
+  adjustments: CartAdjustment[];
+}
+
+export const getGuestCart = (): CartItem[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGuestCart = (items: CartItem[]): void => {
+  if (items.length) {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+  } else {
+    localStorage.removeItem(GUEST_CART_KEY);
+  }
+};
+
+export const clearGuestCart = (): void => {
+  localStorage.removeItem(GUEST_CART_KEY);
+};
+
+// Stock not held by other shoppers for each product, or 0 when it is inactive or no longer
+// exists. Products whose stock could not be looked up are left out, so a failed request
+// never removes a line.
+const getAvailableStock = async (ids: string[]): Promise<Map<string, number>> => {
+  const entries = await Promise.all(ids.map(async (id): Promise<[string, number] | null> => {
+    try {
+      const product = await productService.getProduct(id);
+      const stock = product.availableStock ?? product.stock;
+      return [id, product.status === 'inactive' ? 0 : Math.max(0, stock)];
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return [id, 0];
+      console.error('Failed to check stock for cart item:', error);
+      return null;
+    }
+  }));
+  return new Map(entries.filter((entry): entry is [string, number] => entry !== null));
+};
+
+// Adds the guest lines to the account cart, summing quantities of the same product
+// and capping every guest-touched line at the stock that is currently available.
+export const mergeCarts = async (guest: CartItem[], account: CartItem[]): Promise<CartMergeResult> => {
+  const merged = new Map(account.map(item => [item.id, { ...item }]));
+  const combined = new Set<string>();
+
+  guest.forEach(item => {
+    const existing = merged.get(item.id);
+    if (existing) {
+      existing.quantity += item.quantity;
+      combined.add(item.id);
+    } else {
+      merged.set(item.id, { ...item });
+    }
+  });
+
+  const touched = Array.from(new Set(guest.map(item => item.id)));
+  const stock = await getAvailableStock(touched);
+  const adjustments: CartAdjustment[] = [];
+
+  touched.forEach(id => {
+    const item = merged.get(id);
+    if (!item) return;
+    // Unknown stock leaves the line uncapped; the reservation and checkout check it again
+    const available = stock.get(id);
+
+    if (available === undefined) {
+      if (combined.has(id)) {
+        adjustments.push({ id, name: item.name, reason: 'combined', requested: item.quantity, quantity: item.quantity });
+      }
+    } else if (available === 0) {
+      merged.delete(id);
+      adjustments.push({ id, name: item.name, reason: 'unavailable', requested: item.quantity, quantity: 0 });
+    } else if (item.quantity > available) {
+      adjustments.push({ id, name: item.name, reason: 'limited', requested: item.quantity, quantity: available });
+      item.quantity = available;
+    } else if (combined.has(id)) {
+      adjustments.push({ id, name: item.name, reason: 'combined', requested: item.quantity, quantity: item.quantity });
+    }
+  });
+
+  return { items: Array.from(merged.values()), adjustments };
+};
@@ -0,0 +1,77 @@
+import api, { ApiEnvelope, unwrap } from './api';
+import type { Role } from './auth';
+import type { ControlledSchedule } from './inventory';
+import type { PharmacyDetails } from './invoices';
+
+// Receipts are recorded here by staff. Dispenses, restocked returns and stock corrections
+// are recorded by the backend as the orders and inventory change.
+export type RegisterEntryType = 'receipt' | 'dispense' | 'return' | 'adjustment';
+
+export interface RegisterEntry {
+  _id: string;
+  productId: string;
+  type: RegisterEntryType;
+  // Units in are positive, units out negative
+  quantity: number;
+  // Stock of the drug after this entry
+  balance: number;
+  at: string;
+  by: { name: string; role: Role };
+  // Supplier invoice number for receipts, order number otherwise
+  reference?: string;
+  supplier?: string;
+  patient?: { name: string; phone?: string };
+  prescriptionReference?: string;
+  note?: string;
+}
+
+// One drug's page of the register for the requested period
+export interface RegisterDrug {
+  productId: string;
+  name: string;
+  brand?: string;
+  packSize?: string;
+  schedule: ControlledSchedule;
+  openingBalance: number;
+  closingBalance: number;
+  // Oldest first
+  entries: RegisterEntry[];
+}
+
+export interface ControlledRegister {
+  pharmacy: PharmacyDetails;
+  from: string;
+  to: string;
+  generatedAt: string;
+  drugs: RegisterDrug[];
+}
+
+export interface RegisterQuery {
+  // Dates as YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+  productId?: string;
+}
+
+export interface ReceiptData {
+  productId: string;
+  quantity: number;
+  supplier: string;
+  invoiceNumber: string;
+  note?: string;
+}
+
+const controlledDrugService = {
+  async getRegister(query: RegisterQuery): Promise<ControlledRegister> {
+    const response = await api.get<ApiEnvelope<ControlledRegister>>('/controlled-drugs/register', { params: query });
+    return unwrap(response.data, 'Failed to fetch the controlled drug register');
+  },
+
+  // Adds the units to stock and records them in the register
+  async recordReceipt(data: ReceiptData): Promise<RegisterEntry> {
+    const response = await api.post<ApiEnvelope<RegisterEntry>>('/controlled-drugs/receipts', data);
+    return unwrap(response.data, 'Failed to record the receipt');
+  },
+};
+
+export default controlledDrugService;
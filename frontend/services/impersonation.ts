@@ -0,0 +1,98 @@
+import api from './api';
+import type { User } from './auth';
+import { getImpersonation, setImpersonation, startSession } from './session';
+
+export interface ImpersonationAction {
+  method: string;
+  path: string;
+  status: number;
+  at: string;
+}
+
+// Audit record kept by the backend for every impersonation
+export interface ImpersonationRecord {
+  _id: string;
+  admin: { firstName: string; lastName: string; email: string };
+  target: { firstName: string; lastName: string; email: string; role: string };
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+  endedAt?: string;
+  endReason?: 'manual' | 'expired';
+  actions: ImpersonationAction[];
+}
+
+interface StartImpersonationResponse {
+  token: string;
+  user: User;
+  impersonation: { _id: string; expiresAt: string };
+}
+
+export const IMPERSONATION_DURATIONS = [15, 30, 60]; // minutes
+
+const impersonationService = {
+  // Signs the admin in as another user until `durationMinutes` pass or they return
+  async start(userId: string, reason: string, durationMinutes: number): Promise<User> {
+    const response = await api.post<StartImpersonationResponse>('/admin/impersonations', {
+      userId,
+      reason,
+      durationMinutes,
+    });
+    const { token, user, impersonation } = response.data;
+
+    const adminToken = sessionStorage.getItem('token');
+    const adminUser = sessionStorage.getItem('user');
+    if (!adminToken || !adminUser) throw new Error('Admin session not found');
+
+    // Switch the server session first so a failure leaves the tab signed in as the admin
+    try {
+      await startSession(token);
+    } catch (error) {
+      await api.post(`/admin/impersonations/${impersonation._id}/end`, { endReason: 'manual' })
+        .catch(endError => console.error('Error ending impersonation:', endError));
+      throw error;
+    }
+
+    setImpersonation({
+      id: impersonation._id,
+      expiresAt: impersonation.expiresAt,
+      target: { _id: user._id, firstName: user.firstName, lastName: user.lastName, role: user.role },
+      admin: { token: adminToken, user: adminUser, activeRole: sessionStorage.getItem('activeRole') },
+    });
+    sessionStorage.setItem('token', token);
+    sessionStorage.setItem('user', JSON.stringify(user));
+    sessionStorage.setItem('activeRole', user.role);
+    return user;
+  },
+
+  // Closes the audit record and restores the admin sign-in. Rejects when the stored admin
+  // token is no longer accepted; the impersonation is cleared either way.
+  async stop(endReason: 'manual' | 'expired' = 'manual'): Promise<void> {
+    const impersonation = getImpersonation();
+    if (!impersonation) return;
+
+    try {
+      await api.post(`/admin/impersonations/${impersonation.id}/end`, { endReason }, {
+        headers: { Authorization: `Bearer ${impersonation.admin.token}` },
+      });
+    } catch (error) {
+      // The backend also closes it at expiry, so never strand the admin here
+      console.error('Error ending impersonation:', error);
+    }
+
+    sessionStorage.setItem('token', impersonation.admin.token);
+    sessionStorage.setItem('user', impersonation.admin.user);
+    if (impersonation.admin.activeRole) {
+      sessionStorage.setItem('activeRole', impersonation.admin.activeRole);
+    }
+    setImpersonation(null);
+    await startSession(impersonation.admin.token);
+  },
+
+  async getHistory(): Promise<ImpersonationRecord[]> {
+    const response = await api.get<ImpersonationRecord[]>('/admin/impersonations');
+    return response.data;
+  },
+};
+
+export default impersonationService;
@@ -0,0 +1,70 @@
+import api from './api';
+
+// Legal schedules for controlled drugs, strictest first. Schedule 5 covers low-strength
+// preparations that can be sold over the counter.
+export type ControlledSchedule = 'CD2' | 'CD3' | 'CD4' | 'CD5';
+
+// Every receipt and dispense of a controlled drug is recorded in the register, and one
+// order or sale may not exceed these limits
+export interface ControlledDrug {
+  schedule: ControlledSchedule;
+  maxQuantity: number;
+  // Most units a patient should take in a day, used to work out how many days an order supplies
+  maxDailyUnits: number;
+  maxDaysSupply: number;
+}
+
+export interface InventoryItem {
+  _id: string;
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  packPrice?: number;
+  stock: number;
+  // Catalogue only: stock minus what other shoppers currently have reserved
+  availableStock?: number;
+  brand?: string;
+  packSize?: string;
+  // Shipping weight of one unit
+  weightKg?: number;
+  tags?: string[];
+  status: 'active' | 'inactive';
+  prescription: 'required' | 'not_required';
+  // Set only for controlled drugs
+  controlled?: ControlledDrug;
+  images?: string[];
+  image?: string; // Legacy field
+}
+
+const inventoryService = {
+  // Full inventory, admin only
+  async getAdminInventory(): Promise<InventoryItem[]> {
+    const response = await api.get('/admin/inventory');
+    return response.data;
+  },
+
+  // Read-only inventory for pharmacists (POS, prescriptions)
+  async getStaffInventory(): Promise<InventoryItem[]> {
+    const response = await api.get('/staff/inventory');
+    return response.data;
+  },
+
+  // Item fields and image files are sent as multipart form data
+  async createItem(data: FormData): Promise<InventoryItem> {
+    const response = await api.post('/admin/inventory', data);
+    return response.data;
+  },
+
+  async updateItem(id: string, data: FormData): Promise<InventoryItem> {
+    const response = await api.put(`/admin/inventory/${id}`, data);
+    return response.data;
+  },
+
+  async deleteItem(id: string): Promise<{ message?: string }> {
+    const response = await api.delete(`/admin/inventory/${id}`);
+    return response.data;
+  },
+};
+
+export default inventoryService;
@@ -0,0 +1,68 @@
+import { ApiError, getStoredToken, refreshAccessToken } from './api';
+import type { Order } from './orders';
+import { getImpersonation } from './session';
+
+export interface PharmacyDetails {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  // Pharmacy licence number printed on every invoice
+  registrationNumber: string;
+  taxId?: string;
+}
+
+// Issued by the backend the first time an order's invoice is requested. Numbers are
+// sequential and never reused, and later requests return the same invoice.
+export interface Invoice {
+  number: string;
+  issuedAt: string;
+  pharmacy: PharmacyDetails;
+  order: Order;
+  prescriptionNumber?: string;
+  doctorName?: string;
+}
+
+// Calls one of the app's own invoice routes, which render the PDF on the server.
+// A stale token is refreshed once, as the API client does for backend calls.
+const callInvoiceRoute = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (token: string | null) => {
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+    const impersonation = getImpersonation();
+    if (impersonation) headers['X-Impersonation-Id'] = impersonation.id;
+    return fetch(path, { ...init, headers, credentials: 'same-origin' });
+  };
+
+  let response = await send(getStoredToken());
+  if (response.status === 401) {
+    const token = await refreshAccessToken();
+    if (token) response = await send(token);
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'The invoice could not be generated', response.status, data);
+  }
+  return response;
+};
+
+const getFilename = (response: Response, fallback: string) =>
+  /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? fallback;
+
+export const downloadInvoice = async (orderId: string): Promise<void> => {
+  const response = await callInvoiceRoute(`/api/invoices/${encodeURIComponent(orderId)}`);
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getFilename(response, `invoice-${orderId}.pdf`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Sends the invoice to the email address on the order
+export const emailInvoice = async (orderId: string): Promise<string> => {
+  const response = await callInvoiceRoute(`/api/invoices/${encodeURIComponent(orderId)}/email`, { method: 'POST' });
+  const data = await response.json();
+  return data.email as string;
+};
@@ -0,0 +1,40 @@
+import api from './api';
+
+export interface ContactMessage {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  message: string;
+  createdAt: string;
+  isRead?: boolean;
+}
+
+export interface ContactFormData {
+  name: string;
+  email: string;
+  phone: string;
+  message: string;
+}
+
+const messageService = {
+  async sendContactMessage(data: ContactFormData): Promise<{ message?: string }> {
+    const response = await api.post('/contact', data);
+    return response.data;
+  },
+
+  async getMessages(): Promise<ContactMessage[]> {
+    const response = await api.get('/admin/messages');
+    return response.data;
+  },
+
+  async markAsRead(id: string): Promise<void> {
+    await api.patch(`/contact/admin/notifications/${id}/read`);
+  },
+
+  async deleteMessage(id: string): Promise<void> {
+    await api.delete(`/admin/messages/${id}`);
+  },
+};
+
+export default messageService;
@@ -0,0 +1,31 @@
+import api from './api';
+
+// In-app notifications for the signed-in user, such as medication reminders. The backend
+// creates them; the app only lists them and marks them read.
+export interface AppNotification {
+  _id: string;
+  type: string;
+  title: string;
+  message: string;
+  // Page to open from the notification
+  link?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+const notificationService = {
+  async getNotifications(): Promise<AppNotification[]> {
+    const response = await api.get('/notifications');
+    return response.data;
+  },
+
+  async markRead(id: string): Promise<void> {
+    await api.patch(`/notifications/${id}/read`);
+  },
+
+  async markAllRead(): Promise<void> {
+    await api.patch('/notifications/read-all');
+  },
+};
+
+export default notificationService;
@@ -1,5 +1,7 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
-import authService from './auth';
+import api, { ApiEnvelope, ApiError, unwrap } from './api';
+import type { Role } from './auth';
+import type { Tender } from './payments';
+import type { TaxLine } from './pricing';
 
 export interface OrderItem {
   id: string;
@@ -16,15 +18,28 @@ export interface Order {
   orderNumber: string;
   date?: string;
   createdAt?: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  // Every status change, oldest first, as recorded by the backend
+  statusHistory?: OrderStatusEvent[];
   total?: number;
   totalAmount: number;
   subtotal?: number;
+  // Promo code discount as recalculated by the backend when the order was placed
+  discount?: number;
+  promoCode?: string;
   shipping?: number;
   tax?: number;
+  // Tax per rate as worked out from the pricing rules in force when the order was placed
+  taxLines?: TaxLine[];
   items: OrderItem[];
   shippingAddress?: string;
   paymentMethod: string;
+  // Unpaid until a card is captured, the till takes payment or the driver collects the cash
+  paymentStatus?: PaymentState;
+  // Counter sales: how the total was split between tenders
+  tenders?: Tender[];
+  // Sum of refunds completed through approved cancellation and return requests
+  refundedAmount?: number;
   estimatedDelivery?: string;
   customer?: {
     name: string;
@@ -41,6 +56,31 @@ export interface Order {
   customizationConfirmed?: boolean;
 }
 
+// Allowed moves between statuses, and who may make them, are in lib/orderStatus.ts
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  at: string;
+  by?: { name: string; role: Role };
+  note?: string;
+}
+
+export type PaymentState = 'unpaid' | 'paid';
+
+// Online checkout takes a card up front or cash when the order is delivered
+export type OnlinePaymentMethod = 'card_payment' | 'cash_on_delivery';
+
+// Every endpoint that creates an order answers with the saved order and its `_id`
+export type PlacedOrder = Order & { _id: string };
+
+const requirePlacedOrder = (order: Order): PlacedOrder => {
+  if (!order?._id) {
+    throw new ApiError('The order was saved but the server did not return its ID');
+  }
+  return order as PlacedOrder;
+};
+
 export interface CreateOrderData {
   customer: {
     name: string;
@@ -51,12 +91,18 @@ export interface CreateOrderData {
     postalCode: string;
   };
   items: OrderItem[];
-  paymentMethod: string;
+  paymentMethod: OnlinePaymentMethod;
   subtotal: number;
+  // The backend re-validates the code and rejects the order if the amounts disagree
+  discount: number;
+  promoCode?: string;
   shipping: number;
   tax: number;
+  taxLines: TaxLine[];
   total: number;
   customerId?: string;
+  // Checkout reservation the order consumes, so the reserved units are not released
+  reservationId?: string;
 }
 
 export interface PrescriptionOrder {
@@ -76,79 +122,50 @@ export interface PrescriptionOrder {
   type?: 'prescription';
 }
 
+// Flattened order shape returned to delivery staff
+export interface DeliveryOrder {
+  id: string;
+  orderNumber: string;
+  name: string;
+  address: string;
+  phone: string;
+  status: OrderStatus;
+  statusHistory?: OrderStatusEvent[];
+  paymentMethod?: string;
+  paymentStatus?: PaymentState;
+  total?: number;
+}
+
 // Get customer orders
 export const getCustomerOrders = async (customerId?: string, email?: string, phone?: string): Promise<Order[]> => {
   try {
-    console.log('=== FRONTEND GET CUSTOMER ORDERS START ===');
-    console.log('Fetching orders with:', { customerId, email, phone });
-    
     const params = new URLSearchParams();
     if (customerId) params.append('customerId', customerId);
     if (email) params.append('email', email);
     if (phone) params.append('phone', phone);
 
-    const url = `${API_BASE_URL}/orders/customer?${params.toString()}`;
-    console.log('API URL:', url);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    console.log('Response status:', response.status);
-    console.log('Response headers:', response.headers);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error response:', errorText);
-      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    console.log('Backend response data:', result);
-    
-    if (!result.success) {
-      throw new Error(result.message || 'Failed to fetch orders');
-    }
-
-    console.log('=== FRONTEND GET CUSTOMER ORDERS SUCCESS ===');
-    console.log('Orders received:', result.data);
-    // Log prescription orders specifically
-    if (Array.isArray(result.data)) {
-      const prescriptionOrders = result.data.filter((order: any) => order.orderType === 'prescription');
-      console.log('Prescription orders:', prescriptionOrders);
-    }
-    return result.data;
+    const response = await api.get<ApiEnvelope<Order[]>>(`/orders/customer?${params.toString()}`);
+    return unwrap(response.data, 'Failed to fetch orders');
   } catch (error) {
-    console.error('=== FRONTEND GET CUSTOMER ORDERS ERROR ===');
     console.error('Error fetching customer orders:', error);
     throw error;
   }
 };
 
+// Get the latest order created from a prescription, if the pharmacist has prepared one.
+// After an approved refill this is the refill's order.
+export const getPrescriptionOrder = async (prescriptionId: string, email: string): Promise<Order | null> => {
+  const params = new URLSearchParams({ email, prescriptionId });
+  const response = await api.get<ApiEnvelope<Order[]>>(`/orders/customer?${params.toString()}`);
+  const orders = unwrap(response.data, 'Failed to fetch orders');
+  return orders.length > 0 ? orders[0] : null;
+};
+
 // Get order by ID
 export const getOrderById = async (orderId: string): Promise<Order> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/orders/${orderId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    
-    if (!result.success) {
-      throw new Error(result.message || 'Failed to fetch order');
-    }
-
-    return result.data;
+    const response = await api.get<ApiEnvelope<Order>>(`/orders/${orderId}`);
+    return unwrap(response.data, 'Failed to fetch order');
   } catch (error) {
     console.error('Error fetching order:', error);
     throw error;
@@ -156,65 +173,85 @@ export const getOrderById = async (orderId: string): Promise<Order> => {
 };
 
 // Create online order
-export const createOnlineOrder = async (orderData: any): Promise<Order> => {
+export const createOnlineOrder = async (orderData: CreateOrderData): Promise<PlacedOrder> => {
   try {
-    console.log('=== FRONTEND ORDER SERVICE START ===');
-    console.log('Sending order data to backend:', orderData);
-    
-    const response = await fetch(`${API_BASE_URL}/orders/online`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(orderData),
-    });
+    const response = await api.post<ApiEnvelope<Order>>('/orders/online', orderData);
+    return requirePlacedOrder(unwrap(response.data, 'Failed to create order'));
+  } catch (error) {
+    console.error('Error creating online order:', error);
+    throw error;
+  }
+};
+
+// Recorded with the order when a pharmacist dispenses despite interaction or allergy warnings
+export interface InteractionOverride {
+  reason: string;
+  warnings: string[];
+}
+
+// Create an order from an approved prescription (pharmacist)
+export const createPrescriptionOrder = async (orderData: {
+  prescriptionId: string;
+  items: { productId: string; quantity: number }[];
+  paymentMethod: string;
+  interactionOverride?: InteractionOverride;
+}): Promise<PlacedOrder> => {
+  const response = await api.post<ApiEnvelope<Order>>('/orders', orderData);
+  return requirePlacedOrder(unwrap(response.data, 'Failed to create order'));
+};
+
+// Create a walk-in sale from the point of sale
+export const createPosOrder = async (orderData: {
+  customer: { name: string; phone: string; email: string };
+  items: { productId: string; quantity: number; price: number }[];
+  // The tender's method, or 'split' when more than one was used
+  paymentMethod: string;
+  tenders: Tender[];
+  subtotal: number;
+  tax: number;
+  taxLines: TaxLine[];
+  total: number;
+  description: string;
+  // Required by the backend when the sale includes prescription-only controlled drugs
+  prescriptionReference?: string;
+}): Promise<PlacedOrder> => {
+  const response = await api.post<Order>('/staff/orders/pos', orderData);
+  return requirePlacedOrder(response.data);
+};
 
-    console.log('Backend response status:', response.status);
-    console.log('Backend response headers:', response.headers);
+// Replace the items of an unconfirmed prescription order
+export const updateOrderItems = async (orderId: string, items: { product: string; quantity: number; price: number }[]) => {
+  const response = await api.patch(`/orders/${orderId}/items`, { items });
+  return response.data;
+};
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Backend error response:', errorText);
-      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-    }
+// Customer confirmation of a prescription order after payment
+export const confirmOrder = async (orderId: string) => {
+  const response = await api.patch(`/orders/${orderId}/confirm`);
+  return response.data;
+};
 
-    const result = await response.json();
-    console.log('Backend response data:', result);
-    
-    if (!result.success) {
-      throw new Error(result.message || 'Failed to create order');
-    }
+export const deleteOrder = async (orderId: string) => {
+  const response = await api.delete(`/orders/${orderId}`);
+  return response.data;
+};
 
-    console.log('=== FRONTEND ORDER SERVICE SUCCESS ===');
-    return result.data;
+// Check that the stored token is accepted by the order endpoints
+export const testOrderAuth = async (): Promise<boolean> => {
+  try {
+    await api.get('/orders/test-auth');
+    return true;
   } catch (error) {
-    console.error('=== FRONTEND ORDER SERVICE ERROR ===');
-    console.error('Error creating online order:', error);
-    throw error;
+    console.error('Auth test failed:', error);
+    return false;
   }
 };
 
 // Get available products (for debugging)
 export const getAvailableProducts = async () => {
   try {
-    const response = await fetch(`${API_BASE_URL}/orders/debug/products`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    
-    if (!result.success) {
-      throw new Error(result.message || 'Failed to fetch products');
-    }
-
-    return result.data;
+    const response = await api.get<ApiEnvelope<unknown>>('/orders/debug/products');
+    return unwrap(response.data, 'Failed to fetch products');
   } catch (error) {
     console.error('Error fetching available products:', error);
     throw error;
@@ -222,25 +259,16 @@ export const getAvailableProducts = async () => {
 };
 
 // Get all orders by status (for delivery dashboard)
-export const getOrdersByStatus = async (status: string) => {
-  const response = await fetch(`${API_BASE_URL}/orders?status=${status}`);
-  if (!response.ok) throw new Error('Failed to fetch orders');
-  const result = await response.json();
-  if (!result.success) throw new Error(result.message || 'Failed to fetch orders');
-  return result.data;
+export const getOrdersByStatus = async (status: string): Promise<DeliveryOrder[]> => {
+  const response = await api.get<ApiEnvelope<DeliveryOrder[]>>(`/orders?status=${status}`);
+  return unwrap(response.data, 'Failed to fetch orders');
 };
 
-// Update order status by ID (for delivery dashboard)
-export const updateOrderStatus = async (orderId: string, status: string) => {
-  const response = await fetch(`${API_BASE_URL}/orders/${orderId}/status`, {
-    method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ status }),
-  });
-  if (!response.ok) throw new Error('Failed to update order status');
-  const result = await response.json();
-  if (!result.success) throw new Error(result.message || 'Failed to update order status');
-  return result.data;
+// Move an order to its next status. The backend rejects moves the state machine or the
+// caller's role does not allow, and answers with the updated status history.
+export const updateOrderStatus = async (orderId: string, status: OrderStatus, note?: string): Promise<Order> => {
+  const response = await api.patch<ApiEnvelope<Order>>(`/orders/${orderId}/status`, { status, note });
+  return unwrap(response.data, 'Failed to update order status');
 };
 
 // Get all orders for admin dashboard
@@ -260,42 +288,14 @@ export const getAllOrders = async (params: {
   };
 }> => {
   try {
-    const token = authService.getToken();
-    if (!token) {
-      throw new Error('Authentication token not found. Please log in again.');
-    }
-
     const queryParams = new URLSearchParams();
     if (params.status) queryParams.append('status', params.status);
     if (params.search) queryParams.append('search', params.search);
     if (params.page) queryParams.append('page', params.page.toString());
     if (params.limit) queryParams.append('limit', params.limit.toString());
 
-    const response = await fetch(`${API_BASE_URL}/orders/admin/all?${queryParams.toString()}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        // Token might be expired, redirect to login
-        authService.logout();
-        window.location.href = '/login';
-        throw new Error('Session expired. Please log in again.');
-      }
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    
-    if (!result.success) {
-      throw new Error(result.message || 'Failed to fetch orders');
-    }
-
-    return result.data;
+    const response = await api.get(`/orders/admin/all?${queryParams.toString()}`);
+    return unwrap(response.data, 'Failed to fetch orders');
   } catch (error) {
     console.error('Error fetching all orders:', error);
     throw error;
@@ -309,15 +309,7 @@ export const getCustomerPrescriptionOrders = async (customerId: string, email?:
   if (phone) params.append('phone', phone);
   params.append('orderType', 'prescription'); // Always filter for prescription orders
 
-  const url = `${API_BASE_URL}/prescriptions/customer?${params.toString()}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-  if (!response.ok) throw new Error('Failed to fetch prescription orders');
-  const result = await response.json();
+  const response = await api.get(`/prescriptions/customer?${params.toString()}`);
   // If your backend wraps data in a success/data object, adjust accordingly
-  return result.data || result;
-}; 
\ No newline at end of file
+  return response.data.data || response.data;
+};
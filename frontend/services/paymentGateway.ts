@@ -0,0 +1,103 @@
+import paymentService, { PaymentIntent } from './payments';
+import sandboxProvider from './sandboxGateway';
+
+// Everything a card payment provider has to supply. Card details are entered into
+// inputs the provider mounts itself and leave them only as a single-use token, so
+// they never pass through React state or our backend.
+
+export type PaymentProviderName = 'sandbox';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'generic';
+
+export interface CardToken {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+}
+
+// What the page may know about the card while it is being typed
+export interface CardFieldsState {
+  brand: CardBrand;
+  complete: boolean;
+  last4?: string;
+  error?: string;
+}
+
+export interface CardFields {
+  // Rejects with a readable message when the details are incomplete or invalid
+  tokenize(): Promise<CardToken>;
+  clear(): void;
+  destroy(): void;
+}
+
+export type PaymentWebhookType = 'payment.authorized' | 'payment.captured' | 'payment.refunded' | 'payment.failed';
+
+// A provider webhook after its signature has been checked, in the shape the backend expects
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookType;
+  provider: PaymentProviderName;
+  paymentId: string;
+  providerReference: string;
+  amount: number;
+  failureReason?: string;
+  occurredAt: string;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  // Header carrying the webhook signature
+  signatureHeader: string;
+  mountCardFields(container: HTMLElement, onChange: (state: CardFieldsState) => void): CardFields;
+  // Each operation resolves with the payment as the provider now sees it; a decline
+  // resolves with status 'failed' rather than rejecting
+  authorize(payment: PaymentIntent, card: CardToken): Promise<PaymentIntent>;
+  // Always captures the full authorised amount
+  capture(payment: PaymentIntent): Promise<PaymentIntent>;
+  refund(payment: PaymentIntent, amount: number, reason: string): Promise<PaymentIntent>;
+  // Server only: rejects deliveries whose signature does not match
+  verifyWebhook(rawBody: string, signature: string | null): Promise<PaymentWebhookEvent>;
+}
+
+export class PaymentDeclinedError extends Error {
+  payment: PaymentIntent;
+
+  constructor(payment: PaymentIntent) {
+    super(payment.failureReason || 'Your card was declined');
+    this.name = 'PaymentDeclinedError';
+    this.payment = payment;
+  }
+}
+
+const PROVIDERS: Record<PaymentProviderName, PaymentProvider> = {
+  sandbox: sandboxProvider,
+};
+
+export const isPaymentProviderName = (value: string): value is PaymentProviderName => value in PROVIDERS;
+
+// NEXT_PUBLIC_PAYMENT_PROVIDER picks the provider; the sandbox is the default for development
+export const getPaymentProvider = (name = process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'sandbox'): PaymentProvider => {
+  if (!isPaymentProviderName(name)) {
+    throw new Error(`Unknown payment provider "${name}"`);
+  }
+  return PROVIDERS[name];
+};
+
+// Authorises and captures the full order amount. Online orders are charged at checkout.
+export const chargeOrder = async (orderId: string, card: CardToken): Promise<PaymentIntent> => {
+  const provider = getPaymentProvider();
+  const intent = await paymentService.createIntent(orderId, provider.name);
+  if (intent.status === 'captured') return intent;
+
+  const authorized = intent.status === 'authorized' ? intent : await provider.authorize(intent, card);
+  if (authorized.status === 'failed') {
+    throw new PaymentDeclinedError(authorized);
+  }
+  return provider.capture(authorized);
+};
+
+// Sends a refund the backend has recorded as pending to the provider that took the payment
+export const refundPayment = async (paymentId: string, amount: number, reason: string): Promise<PaymentIntent> => {
+  const payment = await paymentService.getPayment(paymentId);
+  return getPaymentProvider(payment.provider).refund(payment, amount, reason);
+};
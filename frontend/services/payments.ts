@@ -0,0 +1,70 @@
+import api, { ApiEnvelope, unwrap } from './api';
+import type { CardBrand, PaymentProviderName } from './paymentGateway';
+
+export type TenderMethod = 'cash' | 'card' | 'upi' | 'bank_transfer';
+
+// One part of a counter payment. `amount` is what the tender settles, so cash
+// handed over beyond the total is not included.
+export interface Tender {
+  method: TenderMethod;
+  amount: number;
+  // Terminal or transfer reference for non-cash tenders
+  reference?: string;
+}
+
+// The backend keeps one record per tender
+export interface PaymentRecord {
+  _id?: string;
+  orderId: string;
+  paymentMethod: TenderMethod | 'cash_on_delivery';
+  amount: number;
+  paymentType: 'pos' | 'cod';
+  reference?: string;
+  createdAt?: string;
+}
+
+export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'partially_refunded' | 'refunded' | 'failed';
+
+// Created by the backend for one order. The amount always comes from the order, never
+// from the client, and the backend moves the status on as provider webhooks arrive.
+export interface PaymentIntent {
+  _id: string;
+  orderId: string;
+  provider: PaymentProviderName;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  capturedAmount: number;
+  refundedAmount: number;
+  // Charge reference at the provider, set once the card has been authorised
+  providerReference?: string;
+  card?: { brand: CardBrand; last4: string };
+  failureReason?: string;
+}
+
+const paymentService = {
+  // Counter sales only: stores the tenders taken at the till for an order
+  async recordTenders(orderId: string, tenders: Tender[]): Promise<PaymentRecord[]> {
+    const response = await api.post<ApiEnvelope<PaymentRecord[]>>('/payments/tenders', { orderId, tenders });
+    return unwrap(response.data, 'Failed to record the payment');
+  },
+
+  // The driver confirms the cash was collected; the backend takes the amount from the order
+  async confirmCashOnDelivery(orderId: string): Promise<PaymentRecord> {
+    const response = await api.post<ApiEnvelope<PaymentRecord>>(`/payments/cash-on-delivery/${orderId}`);
+    return unwrap(response.data, 'Failed to confirm the cash collection');
+  },
+
+  // Returns the order's open payment when there is one, so a retry reuses it
+  async createIntent(orderId: string, provider: PaymentProviderName): Promise<PaymentIntent> {
+    const response = await api.post<ApiEnvelope<PaymentIntent>>('/payments/intents', { orderId, provider });
+    return unwrap(response.data, 'Failed to start the payment');
+  },
+
+  async getPayment(paymentId: string): Promise<PaymentIntent> {
+    const response = await api.get<ApiEnvelope<PaymentIntent>>(`/payments/${paymentId}`);
+    return unwrap(response.data, 'Failed to fetch the payment');
+  },
+};
+
+export default paymentService;
@@ -0,0 +1,170 @@
+import api from './api';
+import type { InteractionOverride, PlacedOrder } from './orders';
+
+export interface Prescriber {
+  name: string;
+  // Medical council registration number as written on the prescription
+  registrationNumber: string;
+  clinic?: string;
+  phone?: string;
+}
+
+export interface PrescriptionPatient {
+  name: string;
+  dateOfBirth?: string;
+  gender?: string;
+  // One allergy per entry, so later checks can match them against products
+  allergies: string[];
+}
+
+// One medicine as prescribed, linked to the inventory product dispensed for it
+export interface PrescriptionLine {
+  _id?: string;
+  // The drug exactly as the prescriber wrote it
+  drug: string;
+  productId?: string;
+  productName?: string;
+  strength: string;
+  dose: string;
+  frequency: string;
+  durationDays: number;
+  // Units to dispense each time, and how many more times it may be dispensed
+  quantity: number;
+  refills: number;
+  instructions?: string;
+  // Kept by the backend as approved refills are dispensed
+  refillsUsed?: number;
+  lastDispensedAt?: string;
+}
+
+// What a pharmacist reads off the uploaded images
+export interface PrescriptionTranscription {
+  prescriber: Prescriber;
+  patient: PrescriptionPatient;
+  issuedAt: string;
+  validUntil: string;
+  lines: PrescriptionLine[];
+}
+
+export interface Prescription extends Partial<PrescriptionTranscription> {
+  _id: string;
+  // Contact details and answers the customer gave when uploading
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  duration: string;
+  gender: string;
+  allergies: string;
+  hasAllergies: string;
+  payment: string;
+  substitutes: string;
+  frequency: string;
+  notes: string;
+  images: string[];
+  createdAt: string;
+  status: 'pending' | 'processing' | 'approved' | 'rejected';
+  verified?: boolean;
+  verificationStatus?: 'pending' | 'processing' | 'verified';
+  rejectionReason?: string;
+  // Set once a pharmacist has transcribed the images into the fields above
+  transcribedAt?: string;
+  transcribedBy?: string;
+}
+
+export type RefillStatus = 'requested' | 'approved' | 'rejected';
+
+export interface RefillRequest {
+  _id: string;
+  prescriptionId: string;
+  // The prescription lines asked for, each dispensed at its prescribed quantity
+  lineIds: string[];
+  status: RefillStatus;
+  note?: string;
+  rejectionReason?: string;
+  // The prescription order created when the refill was approved
+  orderId?: string;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+const prescriptionService = {
+  // All prescriptions, for the pharmacist queue
+  async getPrescriptions(): Promise<Prescription[]> {
+    const response = await api.get('/prescriptions');
+    return response.data;
+  },
+
+  async getCustomerPrescriptions(email: string): Promise<Prescription[]> {
+    const response = await api.get(`/prescriptions/customer/${encodeURIComponent(email)}`);
+    return response.data;
+  },
+
+  // Form fields plus the uploaded `prescription` files
+  async uploadPrescription(data: FormData): Promise<Prescription> {
+    const response = await api.post('/prescriptions', data);
+    return response.data;
+  },
+
+  async getPrescription(id: string): Promise<Prescription> {
+    const response = await api.get(`/prescriptions/${id}`);
+    return response.data;
+  },
+
+  // Saves the structured prescription; it can be corrected until the prescription is approved
+  async transcribePrescription(id: string, data: PrescriptionTranscription): Promise<Prescription> {
+    const response = await api.put(`/prescriptions/${id}/transcription`, data);
+    return response.data;
+  },
+
+  async getRefills(prescriptionId: string): Promise<RefillRequest[]> {
+    const response = await api.get(`/prescriptions/${prescriptionId}/refills`);
+    return response.data;
+  },
+
+  // The backend refuses lines with no refills left, or asked for too soon, and expired prescriptions
+  async requestRefill(prescriptionId: string, lineIds: string[], note?: string): Promise<RefillRequest> {
+    const response = await api.post(`/prescriptions/${prescriptionId}/refills`, { lineIds, note });
+    return response.data;
+  },
+
+  // Refill requests from every customer, for the pharmacist queue
+  async getRefillQueue(status: RefillStatus = 'requested'): Promise<RefillRequest[]> {
+    const response = await api.get(`/prescriptions/refills?status=${status}`);
+    return response.data;
+  },
+
+  // Uses up one refill on each requested line and creates the order to dispense them
+  // Approvals despite interaction or allergy warnings carry the pharmacist's override
+  async approveRefill(refillId: string, interactionOverride?: InteractionOverride): Promise<{ refill: RefillRequest; order: PlacedOrder }> {
+    const response = await api.post(`/prescriptions/refills/${refillId}/approve`, { interactionOverride });
+    return response.data;
+  },
+
+  async rejectRefill(refillId: string, rejectionReason: string): Promise<RefillRequest> {
+    const response = await api.post(`/prescriptions/refills/${refillId}/reject`, { rejectionReason });
+    return response.data;
+  },
+
+  async verifyPrescription(id: string): Promise<Prescription> {
+    const response = await api.put(`/prescriptions/${id}/verify`);
+    return response.data;
+  },
+
+  async approvePrescription(id: string): Promise<Prescription> {
+    const response = await api.put(`/prescriptions/${id}/approve`);
+    return response.data;
+  },
+
+  async rejectPrescription(id: string, rejectionReason: string): Promise<Prescription> {
+    const response = await api.put(`/prescriptions/${id}/reject`, { rejectionReason });
+    return response.data;
+  },
+
+  async deletePrescription(id: string): Promise<void> {
+    await api.delete(`/prescriptions/${id}`);
+  },
+};
+
+export default prescriptionService;
@@ -0,0 +1,44 @@
+import api from './api';
+
+export interface ShippingRules {
+  // Charged when the delivery city has no fee of its own
+  defaultFee: number;
+  // Added per started kilogram of the items that have a weight
+  perKgFee: number;
+  // Basket value (after discounts) at or above which delivery is free; null turns it off
+  freeShippingThreshold: number | null;
+  // Keyed by city name, matched case-insensitively
+  cityFees: Record<string, number>;
+}
+
+// Admin-editable rules shared by POS and online checkout. Rates are fractions, e.g. 0.05 for 5%.
+export interface PricingRules {
+  defaultTaxRate: number;
+  // Keyed by inventory category; overrides the default rate
+  categoryTaxRates: Record<string, number>;
+  prescriptionTaxExempt: boolean;
+  shipping: ShippingRules;
+  updatedAt?: string;
+}
+
+// Tax charged at one rate, as stored on orders
+export interface TaxLine {
+  rate: number;
+  taxable: number;
+  amount: number;
+}
+
+const pricingService = {
+  // Public so guests see the same totals they will be charged
+  async getRules(): Promise<PricingRules> {
+    const response = await api.get<PricingRules>('/pricing/rules');
+    return response.data;
+  },
+
+  async updateRules(rules: PricingRules): Promise<PricingRules> {
+    const response = await api.put<PricingRules>('/admin/pricing/rules', rules);
+    return response.data;
+  },
+};
+
+export default pricingService;
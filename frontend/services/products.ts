@@ -0,0 +1,29 @@
+import api from './api';
+import { InventoryItem } from './inventory';
+import { getReservationHolderId } from './reservations';
+
+// Products are the active inventory items exposed on the public catalogue
+export type Product = InventoryItem;
+
+// Lets the backend leave this shopper's own reservation out of `availableStock`
+const reservationParams = () =>
+  typeof window === 'undefined' ? undefined : { reservationHolder: getReservationHolderId() };
+
+const productService = {
+  async getProducts(): Promise<Product[]> {
+    const response = await api.get('/products', { params: reservationParams() });
+    return response.data;
+  },
+
+  async getProduct(id: string): Promise<Product> {
+    const response = await api.get(`/products/${id}`, { params: reservationParams() });
+    return response.data;
+  },
+
+  async getRelatedProducts(id: string): Promise<Product[]> {
+    const response = await api.get(`/products/${id}/related`);
+    return response.data;
+  },
+};
+
+export default productService;
@@ -0,0 +1,29 @@
+import api from './api';
+
+export type PromoType = 'percentage' | 'fixed' | 'free_shipping';
+
+// A code accepted by the backend for the current basket. Eligibility rules such as
+// minimum basket, allowed categories, expiry and per-user usage caps are checked
+// server-side; the client only displays the outcome.
+export interface AppliedPromo {
+  code: string;
+  type: PromoType;
+  description: string;
+  // Amount taken off the item subtotal, already limited to eligible categories
+  discount: number;
+  freeShipping: boolean;
+  expiresAt?: string;
+}
+
+const promotionService = {
+  // Rejects with the backend's reason (expired, below minimum basket, already used...)
+  async validate(code: string, items: { product: string; quantity: number }[]): Promise<AppliedPromo> {
+    const response = await api.post<AppliedPromo>('/promotions/validate', {
+      code: code.trim().toUpperCase(),
+      items,
+    });
+    return response.data;
+  },
+};
+
+export default promotionService;
@@ -0,0 +1,106 @@
+import api from './api';
+
+// IANA time zone of this browser, e.g. Asia/Colombo
+export const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export type ReminderStatus = 'active' | 'paused' | 'completed';
+
+// How the backend delivers each dose reminder
+export interface ReminderChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+export type DoseLogStatus = 'taken' | 'skipped' | 'snoozed';
+
+// What the customer did about one scheduled dose
+export interface DoseLog {
+  // The dose's scheduled time, which identifies it
+  scheduledFor: string;
+  status: DoseLogStatus;
+  at: string;
+  snoozedUntil?: string;
+}
+
+export interface ReminderPause {
+  from: string;
+  // Missing while the reminder is still paused
+  to?: string;
+}
+
+// The schedule a reminder is created with. Doses are worked out from it by lib/reminders.ts.
+export interface ReminderData {
+  prescriptionId?: string;
+  orderId?: string;
+  medicine: string;
+  dose: string;
+  // One of the prescription frequency codes, e.g. TDS
+  frequency: string;
+  // Local times of each day's doses, as HH:MM
+  times: string[];
+  // YYYY-MM-DD
+  startDate: string;
+  durationDays: number;
+  channels: ReminderChannels;
+  // Zone the times and start date are in, so the backend sends reminders at the patient's local time
+  timeZone: string;
+}
+
+export interface MedicationReminder extends ReminderData {
+  _id: string;
+  status: ReminderStatus;
+  pauses: ReminderPause[];
+  doses: DoseLog[];
+  createdAt: string;
+}
+
+// Every change returns the reminder as saved, including its updated dose log
+const reminderService = {
+  async getReminders(): Promise<MedicationReminder[]> {
+    const response = await api.get('/reminders');
+    return response.data;
+  },
+
+  async createReminders(reminders: ReminderData[]): Promise<MedicationReminder[]> {
+    const response = await api.post('/reminders', { reminders });
+    return response.data;
+  },
+
+  async pauseReminder(id: string): Promise<MedicationReminder> {
+    const response = await api.patch(`/reminders/${id}/pause`);
+    return response.data;
+  },
+
+  async resumeReminder(id: string): Promise<MedicationReminder> {
+    const response = await api.patch(`/reminders/${id}/resume`);
+    return response.data;
+  },
+
+  async updateChannels(id: string, channels: ReminderChannels): Promise<MedicationReminder> {
+    const response = await api.patch(`/reminders/${id}`, { channels });
+    return response.data;
+  },
+
+  // Moves the dose times to another zone, keeping their local clock times
+  async updateTimeZone(id: string, timeZone: string): Promise<MedicationReminder> {
+    const response = await api.patch(`/reminders/${id}`, { timeZone });
+    return response.data;
+  },
+
+  async deleteReminder(id: string): Promise<void> {
+    await api.delete(`/reminders/${id}`);
+  },
+
+  async recordDose(id: string, scheduledFor: string, status: 'taken' | 'skipped'): Promise<MedicationReminder> {
+    const response = await api.post(`/reminders/${id}/doses`, { scheduledFor, status });
+    return response.data;
+  },
+
+  // The backend reminds again once the snooze ends
+  async snoozeDose(id: string, scheduledFor: string, minutes: number): Promise<MedicationReminder> {
+    const response = await api.post(`/reminders/${id}/doses`, { scheduledFor, status: 'snoozed', minutes });
+    return response.data;
+  },
+};
+
+export default reminderService;
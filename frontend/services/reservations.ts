@@ -0,0 +1,53 @@
+import api from './api';
+
+// Stock held for one shopper while they decide. The backend releases it on its own
+// once `expiresAt` passes, so the client only has to stop relying on it.
+
+export interface ReservedLine {
+  product: string;
+  requested: number;
+  // May be lower than requested when other shoppers already hold the rest
+  reserved: number;
+  // Units left for this shopper, i.e. stock minus what other reservations hold
+  available: number;
+}
+
+export interface StockReservation {
+  _id: string;
+  items: ReservedLine[];
+  expiresAt: string;
+  // Checkout reservations get a longer window and are consumed by the order
+  checkout: boolean;
+}
+
+// Show "only N left" at or below this many units
+export const LOW_STOCK_THRESHOLD = 5;
+
+const HOLDER_KEY = 'reservationHolder';
+
+// Identifies this browser's reservations for guests and signed-in customers alike
+export const getReservationHolderId = (): string => {
+  let holderId = localStorage.getItem(HOLDER_KEY);
+  if (!holderId) {
+    holderId = crypto.randomUUID();
+    localStorage.setItem(HOLDER_KEY, holderId);
+  }
+  return holderId;
+};
+
+export const isReservationActive = (reservation: StockReservation | null): reservation is StockReservation =>
+  !!reservation && new Date(reservation.expiresAt).getTime() > Date.now();
+
+const reservationService = {
+  // Replaces whatever this shopper held before and restarts the time window
+  async reserve(items: { product: string; quantity: number }[], checkout = false): Promise<StockReservation> {
+    const response = await api.put<StockReservation>(`/reservations/${getReservationHolderId()}`, { items, checkout });
+    return response.data;
+  },
+
+  async release(): Promise<void> {
+    await api.delete(`/reservations/${getReservationHolderId()}`);
+  },
+};
+
+export default reservationService;
@@ -0,0 +1,110 @@
+import api, { ApiEnvelope, unwrap } from './api';
+import type { PaymentProviderName } from './paymentGateway';
+
+// A cancellation stops an order before it ships; a return sends delivered items back
+export type ReturnKind = 'cancellation' | 'return';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'refunded';
+
+export interface ReturnLine {
+  itemId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  // Set by the admin on approval; may be less than requested for a partial refund
+  approvedQuantity?: number;
+}
+
+// One reversal against one of the order's payment records
+export interface Refund {
+  _id: string;
+  paymentId: string;
+  method: string;
+  amount: number;
+  // Card refunds stay pending until the provider's webhook confirms them
+  status: 'pending' | 'completed' | 'failed';
+  provider?: PaymentProviderName;
+  failureReason?: string;
+}
+
+export type ReturnEventType = ReturnStatus | 'restocked' | 'refund_failed';
+
+export interface ReturnEvent {
+  type: ReturnEventType;
+  at: string;
+  by?: string;
+  note?: string;
+  amount?: number;
+}
+
+export interface ReturnRequest {
+  _id: string;
+  orderId: string;
+  orderNumber: string;
+  kind: ReturnKind;
+  status: ReturnStatus;
+  reason: string;
+  items: ReturnLine[];
+  customer?: { name: string; email: string };
+  refundAmount?: number;
+  restocked?: boolean;
+  refunds: Refund[];
+  // Every step of the request, oldest first
+  events: ReturnEvent[];
+  createdAt: string;
+}
+
+export interface ReturnQuantity {
+  itemId: string;
+  quantity: number;
+}
+
+export interface CreateReturnData {
+  kind: ReturnKind;
+  reason: string;
+  items: ReturnQuantity[];
+}
+
+export interface ApproveReturnData {
+  items: ReturnQuantity[];
+  // Put the approved units back into stock
+  restock: boolean;
+  note?: string;
+}
+
+const returnsService = {
+  async getOrderReturns(orderId: string): Promise<ReturnRequest[]> {
+    const response = await api.get<ApiEnvelope<ReturnRequest[]>>(`/orders/${orderId}/returns`);
+    return unwrap(response.data, 'Failed to fetch return requests');
+  },
+
+  async requestReturn(orderId: string, data: CreateReturnData): Promise<ReturnRequest> {
+    const response = await api.post<ApiEnvelope<ReturnRequest>>(`/orders/${orderId}/returns`, data);
+    return unwrap(response.data, 'Failed to submit the request');
+  },
+
+  async getReturns(status?: ReturnStatus): Promise<ReturnRequest[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await api.get<ApiEnvelope<ReturnRequest[]>>(`/admin/returns${query}`);
+    return unwrap(response.data, 'Failed to fetch return requests');
+  },
+
+  async getReturn(returnId: string): Promise<ReturnRequest> {
+    const response = await api.get<ApiEnvelope<ReturnRequest>>(`/admin/returns/${returnId}`);
+    return unwrap(response.data, 'Failed to fetch the return request');
+  },
+
+  // The backend works out the refund from the approved quantities, restocks and
+  // reverses cash and counter payments itself. Card refunds come back pending.
+  async approve(returnId: string, data: ApproveReturnData): Promise<ReturnRequest> {
+    const response = await api.post<ApiEnvelope<ReturnRequest>>(`/admin/returns/${returnId}/approve`, data);
+    return unwrap(response.data, 'Failed to approve the request');
+  },
+
+  async reject(returnId: string, note: string): Promise<ReturnRequest> {
+    const response = await api.post<ApiEnvelope<ReturnRequest>>(`/admin/returns/${returnId}/reject`, { note });
+    return unwrap(response.data, 'Failed to reject the request');
+  },
+};
+
+export default returnsService;
@@ -0,0 +1,227 @@
+import type { PaymentIntent } from './payments';
+import { getStoredToken } from './api';
+import { getImpersonation } from './session';
+import type {
+  CardBrand,
+  CardFields,
+  CardFieldsState,
+  CardToken,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from './paymentGateway';
+
+// Local stand-in for a card gateway, for development and tests. Card fields are plain
+// DOM inputs; the simulated gateway runs in app/api/payments/sandbox and reports every
+// outcome through a signed webhook, like a real provider would. Test cards:
+//   4000 0000 0000 0002  declined
+//   4000 0000 0000 9995  insufficient funds
+//   any other valid number  approved
+
+export type SandboxOutcome = 'approved' | 'declined' | 'insufficient_funds';
+
+// The gateway route loads the payment from the backend as the caller, so only its id is sent
+export type SandboxAction =
+  | { action: 'authorize'; paymentId: string; token: string }
+  | { action: 'capture'; paymentId: string }
+  | { action: 'refund'; paymentId: string; amount: number; reason: string };
+
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature';
+
+const TEST_CARD_OUTCOMES: Record<string, SandboxOutcome> = {
+  '4000000000000002': 'declined',
+  '4000000000009995': 'insufficient_funds',
+};
+
+const getBrand = (digits: string): CardBrand => {
+  if (digits.startsWith('4')) return 'visa';
+  if (digits.startsWith('5')) return 'mastercard';
+  if (digits.startsWith('34') || digits.startsWith('37')) return 'amex';
+  if (digits.startsWith('6')) return 'discover';
+  return 'generic';
+};
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  digits.split('').reverse().forEach((char, index) => {
+    let digit = Number(char);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return sum % 10 === 0;
+};
+
+const isExpired = (month: number, year: number): boolean => {
+  const now = new Date();
+  return year < now.getFullYear() % 100 || (year === now.getFullYear() % 100 && month < now.getMonth() + 1);
+};
+
+const FIELD_CLASS = 'w-full px-5 py-3 border-2 border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-400 text-lg bg-slate-50';
+
+const createInput = (label: string, attributes: Record<string, string>, wide: boolean) => {
+  const wrapper = document.createElement('label');
+  wrapper.className = `block text-sm font-semibold text-slate-700${wide ? ' md:col-span-2' : ''}`;
+  wrapper.textContent = label;
+  const input = document.createElement('input');
+  input.className = `${FIELD_CLASS} mt-2`;
+  input.autocomplete = 'off';
+  Object.entries(attributes).forEach(([name, value]) => input.setAttribute(name, value));
+  wrapper.appendChild(input);
+  return { wrapper, input };
+};
+
+const mountCardFields = (container: HTMLElement, onChange: (state: CardFieldsState) => void): CardFields => {
+  const grid = document.createElement('div');
+  grid.className = 'grid grid-cols-1 md:grid-cols-2 gap-6';
+  const number = createInput('Card Number *', { inputmode: 'numeric', placeholder: '1234 5678 9012 3456', maxlength: '19', autocomplete: 'cc-number' }, true);
+  const name = createInput('Cardholder Name *', { placeholder: 'NAME ON CARD', autocomplete: 'cc-name' }, true);
+  const expiry = createInput('Expiry Date *', { inputmode: 'numeric', placeholder: 'MM/YY', maxlength: '5', autocomplete: 'cc-exp' }, false);
+  const cvc = createInput('CVV *', { inputmode: 'numeric', placeholder: '123', maxlength: '4', autocomplete: 'cc-csc' }, false);
+  [number, name, expiry, cvc].forEach(field => grid.appendChild(field.wrapper));
+  container.appendChild(grid);
+
+  const digits = () => number.input.value.replace(/\D/g, '');
+
+  // Returns the first problem with the details, or null when they can be tokenised
+  const validate = (): string | null => {
+    const cardNumber = digits();
+    if (cardNumber.length < 13 || !passesLuhn(cardNumber)) return 'Card number is invalid';
+    if (!name.input.value.trim()) return 'Cardholder name is required';
+    const [month, year] = expiry.input.value.split('/').map(Number);
+    if (!month || month > 12 || Number.isNaN(year) || expiry.input.value.length !== 5) return 'Expiry date must be MM/YY';
+    if (isExpired(month, year)) return 'This card has expired';
+    if (!/^\d{3,4}$/.test(cvc.input.value)) return 'CVV must be 3-4 digits';
+    return null;
+  };
+
+  const notify = () => {
+    const cardNumber = digits();
+    const error = validate();
+    onChange({
+      brand: getBrand(cardNumber),
+      complete: error === null,
+      last4: cardNumber.length >= 13 ? cardNumber.slice(-4) : undefined,
+      error: error ?? undefined,
+    });
+  };
+
+  const handleInput = (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    if (input === number.input) {
+      input.value = digits().slice(0, 16).replace(/(\d{4})(?=\d)/g, '$1 ');
+    } else if (input === name.input) {
+      input.value = input.value.toUpperCase();
+    } else if (input === expiry.input) {
+      const value = input.value.replace(/\D/g, '').slice(0, 4);
+      input.value = value.length > 2 ? `${value.slice(0, 2)}/${value.slice(2)}` : value;
+    } else {
+      input.value = input.value.replace(/\D/g, '');
+    }
+    notify();
+  };
+  grid.addEventListener('input', handleInput);
+  notify();
+
+  return {
+    async tokenize(): Promise<CardToken> {
+      const error = validate();
+      if (error) throw new Error(error);
+      const cardNumber = digits();
+      const outcome = TEST_CARD_OUTCOMES[cardNumber] ?? 'approved';
+      return {
+        token: `tok_sandbox_${outcome}_${crypto.randomUUID()}`,
+        brand: getBrand(cardNumber),
+        last4: cardNumber.slice(-4),
+      };
+    },
+    clear() {
+      [number, name, expiry, cvc].forEach(field => { field.input.value = ''; });
+      notify();
+    },
+    destroy() {
+      grid.removeEventListener('input', handleInput);
+      grid.remove();
+    },
+  };
+};
+
+export const getTokenOutcome = (token: string): SandboxOutcome | null => {
+  const match = /^tok_sandbox_(approved|declined|insufficient_funds)_/.exec(token);
+  return match ? match[1] as SandboxOutcome : null;
+};
+
+const getWebhookSecret = (): string => {
+  const secret = process.env.SANDBOX_WEBHOOK_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SANDBOX_WEBHOOK_SECRET must be set to use the payment sandbox in production');
+  }
+  return 'development-sandbox-webhook-secret';
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], pair => parseInt(pair, 16));
+
+const getKey = () =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(getWebhookSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+// Server only, used by the simulated gateway when it delivers a webhook
+export const signSandboxWebhook = async (rawBody: string): Promise<string> =>
+  toHex(await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(rawBody)));
+
+// Sends one operation to the simulated gateway route
+const callGateway = async (request: SandboxAction): Promise<PaymentIntent> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = getStoredToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const impersonation = getImpersonation();
+  if (impersonation) headers['X-Impersonation-Id'] = impersonation.id;
+
+  const response = await fetch('/api/payments/sandbox', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(request),
+    credentials: 'same-origin',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'The payment sandbox did not respond');
+  }
+  return data as PaymentIntent;
+};
+
+const sandboxProvider: PaymentProvider = {
+  name: 'sandbox',
+  signatureHeader: SANDBOX_SIGNATURE_HEADER,
+  mountCardFields,
+
+  async authorize(payment, card) {
+    const authorized = await callGateway({ action: 'authorize', paymentId: payment._id, token: card.token });
+    return { ...authorized, card: { brand: card.brand, last4: card.last4 } };
+  },
+
+  capture(payment) {
+    return callGateway({ action: 'capture', paymentId: payment._id });
+  },
+
+  refund(payment, amount, reason) {
+    return callGateway({ action: 'refund', paymentId: payment._id, amount, reason });
+  },
+
+  async verifyWebhook(rawBody, signature) {
+    const valid = !!signature && /^[0-9a-f]{64}$/.test(signature) && await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromHex(signature),
+      new TextEncoder().encode(rawBody)
+    );
+    if (!valid) throw new Error('Invalid webhook signature');
+    return JSON.parse(rawBody) as PaymentWebhookEvent;
+  },
+};
+
+export default sandboxProvider;
@@ -0,0 +1,74 @@
+// Client side of the httpOnly session cookie issued by app/api/session, plus the
+// impersonation state that swaps which user that cookie belongs to.
+
+// Cookie calls are chained so a logout can never land after the next login
+let sessionRequest: Promise<unknown> = Promise.resolve();
+
+const queueSessionRequest = (init: RequestInit): Promise<Response> => {
+  const request = sessionRequest.catch(() => undefined).then(() =>
+    fetch('/api/session', { ...init, credentials: 'same-origin' })
+  );
+  sessionRequest = request;
+  return request;
+};
+
+// Exchanges the backend token for the cookie checked by middleware
+export const startSession = async (token: string): Promise<void> => {
+  const response = await queueSessionRequest({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to start session');
+  }
+};
+
+export const endSession = (): void => {
+  if (typeof window === 'undefined') return;
+  queueSessionRequest({ method: 'DELETE', keepalive: true }).catch(() => undefined);
+};
+
+// Stored while an admin is acting as another user
+export interface ImpersonationState {
+  id: string;
+  expiresAt: string;
+  target: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    role: string;
+  };
+  // Admin sign-in restored when the impersonation ends
+  admin: {
+    token: string;
+    user: string;
+    activeRole: string | null;
+  };
+}
+
+const IMPERSONATION_KEY = 'impersonation';
+
+// Fired when impersonation starts or stops so open components can re-read it
+export const IMPERSONATION_CHANGED_EVENT = 'impersonation-changed';
+// Fired by the API client when the impersonated token is rejected
+export const IMPERSONATION_REJECTED_EVENT = 'impersonation-rejected';
+
+export const getImpersonation = (): ImpersonationState | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return JSON.parse(sessionStorage.getItem(IMPERSONATION_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const setImpersonation = (state: ImpersonationState | null): void => {
+  if (state) {
+    sessionStorage.setItem(IMPERSONATION_KEY, JSON.stringify(state));
+  } else {
+    sessionStorage.removeItem(IMPERSONATION_KEY);
+  }
+  window.dispatchEvent(new Event(IMPERSONATION_CHANGED_EVENT));
+};
@@ -0,0 +1,19 @@
+import { jwtDecode } from 'jwt-decode';
+
+// Tokens are refreshed this long before they expire
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Expiry of a backend token in milliseconds, or null when it has none or cannot be read
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const { exp } = jwtDecode<{ exp?: number }>(token);
+    return exp ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpiring = (token: string, marginMs = REFRESH_MARGIN_MS): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= Date.now();
+};
@@ -0,0 +1,59 @@
+import api from './api';
+import type { Role } from './auth';
+
+// Returned when enrolment starts; `qrCode` is a data URL rendered by the backend
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Returned by /auth/login instead of a token when a second step is needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  // Present when the role policy requires 2FA but the user has not enrolled yet
+  setup?: TwoFactorSetup;
+}
+
+export interface TwoFactorPolicy {
+  requiredRoles: Role[];
+}
+
+export const isTwoFactorChallenge = (value: unknown): value is TwoFactorChallenge =>
+  !!value && typeof value === 'object' && (value as TwoFactorChallenge).twoFactorRequired === true;
+
+const twoFactorService = {
+  async startSetup(): Promise<TwoFactorSetup> {
+    const response = await api.post<TwoFactorSetup>('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Confirms enrolment with a code from the authenticator app and returns fresh backup codes
+  async enable(code: string): Promise<string[]> {
+    const response = await api.post<{ backupCodes: string[] }>('/auth/2fa/enable', { code });
+    return response.data.backupCodes;
+  },
+
+  async disable(code: string): Promise<void> {
+    await api.post('/auth/2fa/disable', { code });
+  },
+
+  // Invalidates the previous backup codes
+  async regenerateBackupCodes(code: string): Promise<string[]> {
+    const response = await api.post<{ backupCodes: string[] }>('/auth/2fa/backup-codes', { code });
+    return response.data.backupCodes;
+  },
+
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    const response = await api.get<TwoFactorPolicy>('/admin/security/2fa-policy');
+    return response.data;
+  },
+
+  async updatePolicy(policy: TwoFactorPolicy): Promise<TwoFactorPolicy> {
+    const response = await api.put<TwoFactorPolicy>('/admin/security/2fa-policy', policy);
+    return response.data;
+  },
+};
+
+export default twoFactorService;
@@ -1,45 +1,6 @@
-import axios from 'axios';
-import authService from './auth';
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
-
-// Create axios instance with default config
-const api = axios.create({
-  baseURL: API_URL,
-  timeout: 10000, // 10 seconds timeout
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add auth token to requests
-api.interceptors.request.use((config) => {
-  const token = authService.getToken();
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// Add response interceptor for better error handling
-api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.code === 'ECONNABORTED') {
-      console.error('Request timeout');
-      throw new Error('Request timeout. Please try again.');
-    }
-    
-    if (!error.response) {
-      console.error('Network error:', error);
-      throw new Error('Network error. Please check your connection and try again.');
-    }
-
-    const message = error.response.data?.message || 'An error occurred';
-    console.error('API error:', message);
-    throw new Error(message);
-  }
-);
+import api from './api';
+import type { Permission } from '@/lib/permissions';
+import type { ControlledDrug } from './inventory';
 
 export interface User {
   _id: string;
@@ -47,9 +8,14 @@ export interface User {
   lastName: string;
   email: string;
   role: 'admin' | 'doctor' | 'pharmacist' | 'delivery' | 'customer';
+  roles?: User['role'][];
+  permissions?: Permission[];
   status: 'active' | 'inactive';
   createdAt: string;
   lastLogin?: string;
+  // Set while sign-in is blocked after repeated failed attempts
+  lockedUntil?: string;
+  failedLoginAttempts?: number;
   phone?: string;
   address?: string;
   addedBy?: {
@@ -59,12 +25,48 @@ export interface User {
   };
 }
 
+export interface StaffMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: 'pharmacist' | 'doctor' | 'delivery';
+  phone: string;
+  address: string;
+  status: 'active' | 'inactive';
+  speciality?: string;
+  profilePhoto?: string;
+}
+
+export interface StaffMemberData {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  password?: string;
+  phone?: string;
+  address?: string;
+  role?: 'doctor' | 'pharmacist' | 'delivery';
+  speciality?: string;
+}
+
+export interface Doctor {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  speciality?: string;
+  profilePhoto?: string;
+  availableDates?: string[];
+}
+
 // Add Product type
 export interface Product {
   _id: string;
   name: string;
   price: number;
   image: string;
+  category?: string;
+  weightKg?: number;
+  controlled?: ControlledDrug;
   // Add other product fields as necessary
 }
 
@@ -85,7 +87,7 @@ const userService = {
     }
   },
 
-  async getStaffMembers(): Promise<User[]> {
+  async getStaffMembers(): Promise<StaffMember[]> {
     try {
       const response = await api.get('/admin/staff');
       return response.data;
@@ -95,15 +97,8 @@ const userService = {
     }
   },
 
-  async createStaffMember(data: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    password: string;
-    phone: string;
-    address: string;
-    role: 'doctor' | 'pharmacist' | 'delivery';
-  }): Promise<User> {
+  // Accepts FormData when a profile photo is attached
+  async createStaffMember(data: StaffMemberData | FormData): Promise<StaffMember> {
     try {
       const response = await api.post('/admin/staff', data);
       return response.data.user;
@@ -113,14 +108,7 @@ const userService = {
     }
   },
 
-  async updateStaffMember(id: string, data: {
-    firstName?: string;
-    lastName?: string;
-    email?: string;
-    phone?: string;
-    address?: string;
-    role?: 'doctor' | 'pharmacist' | 'delivery';
-  }): Promise<User> {
+  async updateStaffMember(id: string, data: StaffMemberData | FormData): Promise<StaffMember> {
     try {
       const response = await api.put(`/admin/staff/${id}`, data);
       return response.data.user;
@@ -149,6 +137,28 @@ const userService = {
     }
   },
 
+  // Replaces the permissions granted to a user on top of their role defaults
+  async updateUserPermissions(id: string, permissions: Permission[]): Promise<User> {
+    try {
+      const response = await api.put(`/admin/users/${id}/permissions`, { permissions });
+      return response.data.user;
+    } catch (error) {
+      console.error('Error updating user permissions:', error);
+      throw error;
+    }
+  },
+
+  // Lifts a failed-attempts lockout and resets the user's attempt counter
+  async unlockUser(id: string): Promise<User> {
+    try {
+      const response = await api.post(`/admin/users/${id}/unlock`);
+      return response.data.user;
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      throw error;
+    }
+  },
+
   async deleteUser(id: string): Promise<void> {
     try {
       await api.delete(`/admin/users/${id}`);
@@ -186,6 +196,16 @@ const userService = {
     }
   },
 
+  async getDoctors(): Promise<Doctor[]> {
+    try {
+      const response = await api.get('/doctor/list');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching doctors:', error);
+      throw error;
+    }
+  },
+
   async submitDoctorAvailability(data: { date: string, slots: string[] }[]): Promise<{ message: string }> {
     try {
       const response = await api.post('/doctor/availability', { availability: data });
@@ -0,0 +1,44 @@
+import api from './api';
+import type { ControlledDrug } from './inventory';
+
+// A product a customer saved for later. Wishlists belong to customer accounts only.
+export interface WishlistItem {
+  product: string;
+  name: string;
+  price: number;
+  image: string;
+  category?: string;
+  weightKg?: number;
+  controlled?: ControlledDrug;
+  // Prescription-only items are ordered through the prescription upload, never the cart
+  prescription?: 'required' | 'not_required';
+  // Units currently available to this shopper
+  stock: number;
+  addedAt: string;
+  // Set by the backend when stock returns for an item that was saved while out of stock
+  backInStockAt?: string;
+}
+
+export const needsPrescription = (item: WishlistItem): boolean => item.prescription === 'required';
+
+export const isBackInStock = (item: WishlistItem): boolean => !!item.backInStockAt && item.stock > 0;
+
+const wishlistService = {
+  async getWishlist(): Promise<WishlistItem[]> {
+    const response = await api.get<WishlistItem[]>('/wishlist');
+    return response.data;
+  },
+
+  // Adding a product that is already saved is a no-op; both calls return the whole list
+  async add(productId: string): Promise<WishlistItem[]> {
+    const response = await api.post<WishlistItem[]>('/wishlist', { product: productId });
+    return response.data;
+  },
+
+  async remove(productId: string): Promise<WishlistItem[]> {
+    const response = await api.delete<WishlistItem[]>(`/wishlist/${productId}`);
+    return response.data;
+  },
+};
+
+export default wishlistService;